@@ -64,6 +64,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
       },
     ],
     "expo-task-manager",
+    "expo-background-task",
     "expo-sqlite",
   ],
   experiments: {
@@ -97,6 +97,18 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: "History",
+          tabBarIcon: ({ focused }) => (
+            <TabIcon
+              name={focused ? "time" : "time-outline"}
+              focused={focused}
+            />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
@@ -14,20 +14,31 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import AlarmStatusCard from "../../components/AlarmStatusCard";
+import BatteryRecommendationsCard from "../../components/BatteryRecommendationsCard";
 import ConfirmModal from "../../components/ConfirmModal";
+import EditAlarmModal from "../../components/EditAlarmModal";
+import { AlarmUpdate } from "../../services/AlarmManager";
+import { metroService } from "../../services/MetroService";
 import { notificationManager } from "../../services/NotificationManager";
 import { store } from "../../store";
 import {
   useActiveAlarms,
   useAppDispatch,
+  useBatteryRecommendations,
   useCurrentLocation,
+  useCurrentSpeed,
   useHasActiveAlarms,
   useIsAlarmLoading,
 } from "../../store/hooks";
-import { cancelAlarm, cancelAllAlarms } from "../../store/slices/alarmSlice";
+import {
+  cancelAlarm,
+  cancelAllAlarms,
+  updateAlarm,
+} from "../../store/slices/alarmSlice";
+import { refreshBatteryRecommendations } from "../../store/slices/batterySlice";
 import { getCurrentLocation } from "../../store/slices/locationSlice";
 import { Alarm } from "../../types";
-import { calculateDistance } from "../../utils";
+import { getDistanceToDestination } from "../../utils";
 
 const BRAND = "#e49e9cff";
 export default function AlarmScreen() {
@@ -36,7 +47,9 @@ export default function AlarmScreen() {
   const hasActiveAlarms = useHasActiveAlarms();
   const alarmCount = activeAlarms.length;
   const currentLocation = useCurrentLocation();
+  const currentSpeed = useCurrentSpeed();
   const isLoading = useIsAlarmLoading();
+  const batteryRecommendations = useBatteryRecommendations();
 
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -44,16 +57,39 @@ export default function AlarmScreen() {
   const [cancelTarget, setCancelTarget] = useState<Alarm | null>(null);
   // Modal state for cancel-all
   const [showCancelAll, setShowCancelAll] = useState(false);
+  // Modal state for editing a live alarm
+  const [editTarget, setEditTarget] = useState<Alarm | null>(null);
 
   useEffect(() => {
     dispatch(getCurrentLocation());
   }, [dispatch]);
 
+  // Re-evaluate battery advice as alarms and the remaining trip change
+  useEffect(() => {
+    dispatch(refreshBatteryRecommendations());
+  }, [dispatch, activeAlarms, currentLocation]);
+
   const calculateDistanceForAlarm = useCallback(
     (alarm: Alarm): number | null => {
       if (!currentLocation) return null;
       try {
-        return calculateDistance(currentLocation, alarm.destination.coordinate);
+        return getDistanceToDestination(currentLocation, alarm.destination);
+      } catch {
+        return null;
+      }
+    },
+    [currentLocation],
+  );
+
+  const calculateStopsRemainingForAlarm = useCallback(
+    (alarm: Alarm): number | null => {
+      if (!currentLocation || !alarm.transit) return null;
+      try {
+        const progress = metroService.getRouteProgress(
+          alarm.transit.route,
+          currentLocation,
+        );
+        return progress.onRoute ? progress.stopsRemaining : null;
       } catch {
         return null;
       }
@@ -84,6 +120,25 @@ export default function AlarmScreen() {
     }
   }, [cancelTarget, dispatch]);
 
+  const handleSaveEdit = useCallback(
+    async (update: AlarmUpdate) => {
+      if (!editTarget) return;
+      try {
+        await dispatch(
+          updateAlarm({ alarmId: editTarget.id, update }),
+        ).unwrap();
+        setEditTarget(null);
+      } catch (error) {
+        console.error("Error updating alarm:", error);
+        Alert.alert(
+          "Update Failed",
+          "Could not update this alarm. Please try again.",
+        );
+      }
+    },
+    [editTarget, dispatch],
+  );
+
   const handleCancelAllAlarms = useCallback(() => {
     setShowCancelAll(true);
   }, []);
@@ -193,16 +248,25 @@ export default function AlarmScreen() {
             )}
           </View>
 
+          {/* Battery advice */}
+          <BatteryRecommendationsCard
+            recommendations={batteryRecommendations}
+          />
+
           {/* Alarm Cards */}
           {activeAlarms.map((alarm) => {
             const distance = calculateDistanceForAlarm(alarm);
+            const stopsRemaining = calculateStopsRemainingForAlarm(alarm);
             return (
               <View key={alarm.id} style={styles.alarmCardWrapper}>
                 <AlarmStatusCard
                   alarm={alarm}
                   distance={distance}
+                  stopsRemaining={stopsRemaining}
+                  speed={currentSpeed}
                   currentLocation={currentLocation}
                   onCancel={() => handleCancelAlarm(alarm)}
+                  onEdit={() => setEditTarget(alarm)}
                 />
               </View>
             );
@@ -237,6 +301,15 @@ export default function AlarmScreen() {
         onCancel={() => setCancelTarget(null)}
       />
 
+      {/* Edit a live alarm */}
+      <EditAlarmModal
+        visible={editTarget !== null}
+        alarm={editTarget}
+        isSaving={isLoading}
+        onSave={handleSaveEdit}
+        onCancel={() => setEditTarget(null)}
+      />
+
       {/* Themed cancel confirmation — all alarms */}
       <ConfirmModal
         visible={showCancelAll}
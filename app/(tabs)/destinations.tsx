@@ -1,12 +1,17 @@
 // Saved destinations screen for managing favorite locations
+import * as DocumentPicker from "expo-document-picker";
+import { File, Paths } from "expo-file-system";
 import { LinearGradient } from "expo-linear-gradient";
 import { router } from "expo-router";
-import React, { useEffect, useState } from "react";
+import * as Sharing from "expo-sharing";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   FlatList,
   RefreshControl,
+  ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -15,14 +20,50 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useSelector } from "react-redux";
 import ConfirmModal from "../../components/ConfirmModal";
+import DestinationDetailsModal, {
+  DestinationDetails,
+} from "../../components/DestinationDetailsModal";
+import DestinationTransferModal from "../../components/DestinationTransferModal";
+import ScheduleAlarmModal, {
+  ScheduleDraft,
+} from "../../components/ScheduleAlarmModal";
+import { databaseManager } from "../../services/DatabaseManager";
 import { useAppDispatch } from "../../store/hooks";
 import { createAlarm } from "../../store/slices/alarmSlice";
 import {
   deleteDestination,
+  importDestinations,
   loadSavedDestinations,
+  reorderDestinations,
+  searchDestinations,
+  updateDestination,
 } from "../../store/slices/destinationSlice";
+import {
+  deleteSchedule,
+  loadSchedules,
+  saveSchedule,
+} from "../../store/slices/scheduleSlice";
 import { setSelectedDestination } from "../../store/slices/uiSlice";
-import { AlarmSettings, AppState, Destination } from "../../types";
+import {
+  AlarmSchedule,
+  AppState,
+  Destination,
+  DestinationFileFormat,
+} from "../../types";
+import {
+  createAlarmSettings,
+  formatDistance,
+  formatScheduleDays,
+  generateId,
+  getDestinationCategories,
+  getNextScheduleStart,
+  matchesDestinationQuery,
+  sortDestinations,
+} from "../../utils";
+import {
+  DESTINATION_FILE_FORMATS,
+  detectDestinationFormat,
+} from "../../utils/DestinationFormats";
 
 const BRAND = "#b9221d";
 const GRADIENT: [string, string, string] = [
@@ -31,6 +72,14 @@ const GRADIENT: [string, string, string] = [
   "rgba(195, 65, 55, 0.82)",
 ];
 
+type DestinationFilter =
+  | { kind: "all" }
+  | { kind: "favourites" }
+  | { kind: "category"; category: string };
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
 const SavedDestinationsScreen: React.FC = () => {
   const dispatch = useAppDispatch();
   const {
@@ -39,12 +88,26 @@ const SavedDestinationsScreen: React.FC = () => {
     error,
   } = useSelector((state: AppState) => state.destinations);
   const userSettings = useSelector((state: AppState) => state.settings);
+  const schedules = useSelector((state: AppState) => state.schedules.schedules);
 
   const [searchQuery, setSearchQuery] = useState("");
+  // Ranked matches for the search query; null while not searching
+  const [searchResults, setSearchResults] = useState<Destination[] | null>(
+    null,
+  );
+  const latestSearchRequestIdRef = useRef(0);
   const [filteredDestinations, setFilteredDestinations] = useState<
     Destination[]
   >([]);
   const [refreshing, setRefreshing] = useState(false);
+  const [scheduleDestination, setScheduleDestination] =
+    useState<Destination | null>(null);
+  const [detailsDestination, setDetailsDestination] =
+    useState<Destination | null>(null);
+  const [filter, setFilter] = useState<DestinationFilter>({ kind: "all" });
+  const [reordering, setReordering] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [transferBusy, setTransferBusy] = useState(false);
 
   // Themed modal state
   const [infoModal, setInfoModal] = useState<{
@@ -92,21 +155,71 @@ const SavedDestinationsScreen: React.FC = () => {
       }
     };
     loadDestinations();
+    dispatch(loadSchedules());
   }, [dispatch]);
 
+  const sortedDestinations = useMemo(
+    () => sortDestinations(destinations),
+    [destinations],
+  );
+  const defaultAlarmSettings = useMemo(
+    () => createAlarmSettings(userSettings),
+    [userSettings],
+  );
+  const categories = useMemo(
+    () => getDestinationCategories(destinations),
+    [destinations],
+  );
+
+  // Search the full-text index; re-run when destinations change so edits
+  // show up in the results
   useEffect(() => {
-    if (searchQuery.trim() === "") {
-      setFilteredDestinations(destinations);
-    } else {
-      const filtered = destinations.filter(
-        (dest) =>
-          dest.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          (dest.address &&
-            dest.address.toLowerCase().includes(searchQuery.toLowerCase())),
-      );
-      setFilteredDestinations(filtered);
+    const query = searchQuery.trim();
+    const requestId = ++latestSearchRequestIdRef.current;
+    if (!query) {
+      setSearchResults(null);
+      return;
     }
-  }, [destinations, searchQuery]);
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await dispatch(searchDestinations(query)).unwrap();
+        if (requestId === latestSearchRequestIdRef.current) {
+          setSearchResults(results);
+        }
+      } catch (error) {
+        console.warn("Destination search failed, filtering locally:", error);
+        if (requestId === latestSearchRequestIdRef.current) {
+          setSearchResults(
+            sortDestinations(destinations).filter((dest) =>
+              matchesDestinationQuery(dest, query),
+            ),
+          );
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [dispatch, destinations, searchQuery]);
+
+  useEffect(() => {
+    // Reordering works on the whole list, so filters are set aside
+    if (reordering) {
+      setFilteredDestinations(sortedDestinations);
+      return;
+    }
+
+    // Search results keep their ranking
+    setFilteredDestinations(
+      (searchResults ?? sortedDestinations).filter(
+        (dest) =>
+          filter.kind === "all" ||
+          (filter.kind === "favourites" && dest.pinned) ||
+          (filter.kind === "category" &&
+            dest.category?.toLowerCase() === filter.category.toLowerCase()),
+      ),
+    );
+  }, [sortedDestinations, searchResults, filter, reordering]);
 
   const loadDestinations = async () => {
     try {
@@ -145,14 +258,141 @@ const SavedDestinationsScreen: React.FC = () => {
     );
   };
 
+  const handleTogglePinned = (destination: Destination) => {
+    dispatch(
+      updateDestination({
+        id: destination.id,
+        updates: { pinned: !destination.pinned },
+      }),
+    );
+  };
+
+  const handleSaveDetails = async (details: DestinationDetails) => {
+    const destination = detailsDestination;
+    setDetailsDestination(null);
+    if (!destination) return;
+
+    try {
+      await dispatch(
+        updateDestination({ id: destination.id, updates: details }),
+      ).unwrap();
+    } catch {
+      showInfoModal(
+        "Error",
+        "Failed to update destination",
+        "OK",
+        hideInfoModal,
+      );
+    }
+  };
+
+  // Swap with the neighbour in the same group; favourites always sort
+  // above the rest, so an item can't move across that boundary
+  const handleMove = (destination: Destination, offset: -1 | 1) => {
+    const ordered = [...sortedDestinations];
+    const index = ordered.findIndex((dest) => dest.id === destination.id);
+    const target = index + offset;
+    if (
+      index < 0 ||
+      target < 0 ||
+      target >= ordered.length ||
+      Boolean(ordered[target].pinned) !== Boolean(destination.pinned)
+    ) {
+      return;
+    }
+
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    dispatch(reorderDestinations(ordered.map((dest) => dest.id)));
+  };
+
+  const handleExport = async (format: DestinationFileFormat) => {
+    const { extension, mimeType, label } = DESTINATION_FILE_FORMATS[format];
+    setTransferBusy(true);
+    try {
+      const content = await databaseManager.exportDestinations(format);
+      const file = new File(
+        Paths.cache,
+        `hopoff-destinations-${new Date().toISOString().slice(0, 10)}.${extension}`,
+      );
+      file.write(content);
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available on this device");
+      }
+      await Sharing.shareAsync(file.uri, {
+        mimeType,
+        dialogTitle: `Export destinations as ${label}`,
+      });
+    } catch (error) {
+      console.error("Failed to export destinations:", error);
+      setShowTransferModal(false);
+      showInfoModal(
+        "Export Failed",
+        error instanceof Error
+          ? error.message
+          : "Failed to export destinations",
+        "OK",
+        hideInfoModal,
+      );
+    } finally {
+      setTransferBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setTransferBusy(true);
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled) return;
+
+      const asset = picked.assets[0];
+      const content = await new File(asset.uri).text();
+      const format = detectDestinationFormat(content, asset.name);
+      if (!format) {
+        throw new Error("Choose a GPX, KML or GeoJSON file");
+      }
+
+      const result = await dispatch(
+        importDestinations({ content, format }),
+      ).unwrap();
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} already saved` : null,
+        result.invalid > 0 ? `${result.invalid} invalid` : null,
+      ].filter(Boolean);
+
+      setShowTransferModal(false);
+      showInfoModal(
+        "Import Complete",
+        `Imported ${result.imported.length} destination${result.imported.length === 1 ? "" : "s"}.` +
+          (skipped.length > 0 ? ` Skipped ${skipped.join(", ")}.` : ""),
+        "OK",
+        hideInfoModal,
+      );
+    } catch (error) {
+      console.error("Failed to import destinations:", error);
+      setShowTransferModal(false);
+      showInfoModal(
+        "Import Failed",
+        error instanceof Error
+          ? error.message
+          : "Failed to import destinations",
+        "OK",
+        hideInfoModal,
+      );
+    } finally {
+      setTransferBusy(false);
+    }
+  };
+
   const handleSetAlarm = async (destination: Destination) => {
     try {
       dispatch(setSelectedDestination(destination));
-      const alarmSettings: AlarmSettings = {
-        triggerRadius: userSettings.defaultTriggerRadius,
-        vibrationEnabled: userSettings.vibrationEnabled,
-        persistentNotification: true,
-      };
+      const alarmSettings = createAlarmSettings(
+        userSettings,
+        destination.alarmSettings,
+      );
       const result = await dispatch(
         createAlarm({ destination, settings: alarmSettings }) as any,
       ).unwrap();
@@ -190,44 +430,248 @@ const SavedDestinationsScreen: React.FC = () => {
     }
   };
 
+  const handleSaveSchedule = async (draft: ScheduleDraft) => {
+    const destination = scheduleDestination;
+    setScheduleDestination(null);
+    if (!destination) return;
+
+    const schedule: AlarmSchedule = {
+      id: generateId("schedule"),
+      destination,
+      ...draft,
+      settings: createAlarmSettings(userSettings, destination.alarmSettings),
+      enabled: true,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await dispatch(saveSchedule(schedule)).unwrap();
+      showInfoModal(
+        "Schedule Saved",
+        `${destination.name} will be armed ${formatScheduleDays(draft.daysOfWeek)} at ${draft.startTime}.`,
+        "OK",
+        hideInfoModal,
+      );
+    } catch (error) {
+      showInfoModal(
+        "Error",
+        typeof error === "string" ? error : "Failed to save schedule",
+        "OK",
+        hideInfoModal,
+      );
+    }
+  };
+
+  const handleToggleSchedule = (schedule: AlarmSchedule, enabled: boolean) => {
+    dispatch(saveSchedule({ ...schedule, enabled }));
+  };
+
+  const handleDeleteSchedule = (schedule: AlarmSchedule) => {
+    showInfoModal(
+      "Delete Schedule",
+      `Stop arming "${schedule.destination.name}" automatically? An alarm that is already armed stays active.`,
+      "Delete",
+      async () => {
+        hideInfoModal();
+        await dispatch(deleteSchedule(schedule.id));
+      },
+      "Cancel",
+      true,
+    );
+  };
+
+  const renderScheduleItem = (schedule: AlarmSchedule) => {
+    const nextStart = schedule.enabled ? getNextScheduleStart(schedule) : null;
+    return (
+      <View key={schedule.id} style={styles.scheduleItem}>
+        <View style={styles.scheduleInfo}>
+          <Text style={styles.destinationName}>
+            {schedule.destination.name}
+          </Text>
+          <Text style={styles.destinationAddress}>
+            {formatScheduleDays(schedule.daysOfWeek)} · {schedule.startTime}
+            {schedule.endTime ? `–${schedule.endTime}` : ""}
+          </Text>
+          <Text style={styles.destinationDate}>
+            {schedule.armedAlarmId
+              ? "Armed now"
+              : nextStart
+                ? `Next: ${nextStart.toLocaleDateString(undefined, { weekday: "short" })} ${schedule.startTime}`
+                : "Paused"}
+          </Text>
+        </View>
+        <View style={styles.scheduleActions}>
+          <Switch
+            value={schedule.enabled}
+            onValueChange={(enabled) => handleToggleSchedule(schedule, enabled)}
+            trackColor={{ false: "rgba(255,255,255,0.3)", true: "#fff" }}
+            thumbColor={schedule.enabled ? BRAND : "#f4f3f4"}
+          />
+          <TouchableOpacity
+            style={styles.scheduleDeleteButton}
+            onPress={() => handleDeleteSchedule(schedule)}
+          >
+            <Text style={styles.deleteButtonText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderSchedules = () =>
+    schedules.length > 0 ? (
+      <View style={styles.schedulesSection}>
+        <Text style={styles.sectionTitle}>Scheduled Alarms</Text>
+        {schedules.map(renderScheduleItem)}
+      </View>
+    ) : null;
+
   const renderDestinationItem = ({ item }: { item: Destination }) => (
     <TouchableOpacity
       style={styles.destinationItem}
       onPress={() => handleSetAlarm(item)}
       activeOpacity={0.7}
+      disabled={reordering}
     >
       <View style={styles.destinationContent}>
-        <View style={styles.destinationInfo}>
-          <Text style={styles.destinationName}>{item.name}</Text>
-          {item.address && (
-            <Text style={styles.destinationAddress}>{item.address}</Text>
-          )}
-          <Text style={styles.destinationDate}>
-            Added: {new Date(item.createdAt).toLocaleDateString()}
-          </Text>
-        </View>
-        <View style={styles.destinationActions}>
+        <View style={styles.destinationHeader}>
+          <View style={styles.destinationInfo}>
+            <Text style={styles.destinationName}>{item.name}</Text>
+            {item.address && (
+              <Text style={styles.destinationAddress}>{item.address}</Text>
+            )}
+            {(item.category ||
+              Boolean(item.tags?.length) ||
+              item.alarmSettings) && (
+              <View style={styles.badgeRow}>
+                {item.category && (
+                  <Text style={[styles.badge, styles.categoryBadge]}>
+                    {item.category}
+                  </Text>
+                )}
+                {item.alarmSettings && (
+                  <Text style={styles.badge}>
+                    {item.alarmSettings.triggerRadius !== undefined
+                      ? `⏰ ${formatDistance(item.alarmSettings.triggerRadius)}`
+                      : "⏰ Custom"}
+                  </Text>
+                )}
+                {item.tags?.map((tag) => (
+                  <Text key={tag} style={styles.badge}>
+                    #{tag}
+                  </Text>
+                ))}
+              </View>
+            )}
+            <Text style={styles.destinationDate}>
+              Added: {new Date(item.createdAt).toLocaleDateString()}
+            </Text>
+          </View>
           <TouchableOpacity
-            style={styles.deleteButton}
+            style={styles.pinButton}
             onPress={(e) => {
               e.stopPropagation();
-              handleDeleteDestination(item);
+              handleTogglePinned(item);
             }}
+            accessibilityRole="button"
+            accessibilityLabel={
+              item.pinned ? "Remove from favourites" : "Add to favourites"
+            }
+            hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
           >
-            <Text style={styles.deleteButtonText}>Delete</Text>
+            <Text style={styles.pinButtonText}>{item.pinned ? "★" : "☆"}</Text>
           </TouchableOpacity>
         </View>
+        {reordering ? (
+          <View style={styles.destinationActions}>
+            <TouchableOpacity
+              style={styles.scheduleButton}
+              onPress={() => handleMove(item, -1)}
+              accessibilityLabel={`Move ${item.name} up`}
+            >
+              <Text style={styles.scheduleButtonText}>▲</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.scheduleButton}
+              onPress={() => handleMove(item, 1)}
+              accessibilityLabel={`Move ${item.name} down`}
+            >
+              <Text style={styles.scheduleButtonText}>▼</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.destinationActions}>
+            <TouchableOpacity
+              style={styles.scheduleButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                setDetailsDestination(item);
+              }}
+            >
+              <Text style={styles.scheduleButtonText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.scheduleButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                setScheduleDestination(item);
+              }}
+            >
+              <Text style={styles.scheduleButtonText}>Schedule</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                handleDeleteDestination(item);
+              }}
+            >
+              <Text style={styles.deleteButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
 
+  const renderFilterChip = (
+    key: string,
+    label: string,
+    value: DestinationFilter,
+  ) => {
+    const selected =
+      filter.kind === value.kind &&
+      (value.kind !== "category" ||
+        (filter.kind === "category" && filter.category === value.category));
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.filterChip, selected && styles.filterChipActive]}
+        onPress={() => setFilter(value)}
+        accessibilityRole="radio"
+        accessibilityState={{ selected }}
+      >
+        <Text
+          style={[
+            styles.filterChipText,
+            selected && styles.filterChipTextActive,
+          ]}
+        >
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Text style={styles.emptyStateTitle}>No Saved Destinations</Text>
       <Text style={styles.emptyStateText}>
         {searchQuery
           ? "No destinations match your search."
-          : "Save destinations to your favourites for quick access when setting alarms."}
+          : filter.kind !== "all"
+            ? "No destinations match this filter."
+            : "Save destinations to your favourites for quick access when setting alarms."}
       </Text>
     </View>
   );
@@ -261,7 +705,17 @@ const SavedDestinationsScreen: React.FC = () => {
       <SafeAreaView style={styles.container} edges={["top", "left", "right"]}>
         {/* Header */}
         <View style={styles.header}>
-          <Text style={styles.title}>Saved Destinations</Text>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>Saved Destinations</Text>
+            <TouchableOpacity
+              style={styles.transferButton}
+              onPress={() => setShowTransferModal(true)}
+              accessibilityRole="button"
+              accessibilityLabel="Import or export destinations"
+            >
+              <Text style={styles.transferButtonText}>Import / Export</Text>
+            </TouchableOpacity>
+          </View>
           <TextInput
             style={styles.searchInput}
             placeholder="Search favourites..."
@@ -270,6 +724,44 @@ const SavedDestinationsScreen: React.FC = () => {
             onChangeText={setSearchQuery}
             clearButtonMode="while-editing"
           />
+          {destinations.length > 0 && (
+            <View style={styles.filterRow}>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.filterChips}
+                style={styles.filterScroll}
+              >
+                {renderFilterChip("all", "All", { kind: "all" })}
+                {renderFilterChip("favourites", "★ Favourites", {
+                  kind: "favourites",
+                })}
+                {categories.map((category) =>
+                  renderFilterChip(`category_${category}`, category, {
+                    kind: "category",
+                    category,
+                  }),
+                )}
+              </ScrollView>
+              <TouchableOpacity
+                style={[
+                  styles.transferButton,
+                  reordering && styles.reorderButtonActive,
+                ]}
+                onPress={() => setReordering((value) => !value)}
+                accessibilityRole="button"
+              >
+                <Text
+                  style={[
+                    styles.transferButtonText,
+                    reordering && styles.reorderButtonTextActive,
+                  ]}
+                >
+                  {reordering ? "Done" : "Reorder"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
 
         {error && (
@@ -288,6 +780,7 @@ const SavedDestinationsScreen: React.FC = () => {
           data={filteredDestinations}
           keyExtractor={(item) => item.id}
           renderItem={renderDestinationItem}
+          ListHeaderComponent={renderSchedules}
           ListEmptyComponent={renderEmptyState}
           refreshControl={
             <RefreshControl
@@ -305,6 +798,31 @@ const SavedDestinationsScreen: React.FC = () => {
         />
       </SafeAreaView>
 
+      <ScheduleAlarmModal
+        visible={scheduleDestination !== null}
+        destination={scheduleDestination}
+        onConfirm={handleSaveSchedule}
+        onCancel={() => setScheduleDestination(null)}
+      />
+
+      <DestinationDetailsModal
+        visible={detailsDestination !== null}
+        destination={detailsDestination}
+        categories={categories}
+        defaultAlarmSettings={defaultAlarmSettings}
+        onSave={handleSaveDetails}
+        onCancel={() => setDetailsDestination(null)}
+      />
+
+      <DestinationTransferModal
+        visible={showTransferModal}
+        destinationCount={destinations.length}
+        busy={transferBusy}
+        onExport={handleExport}
+        onImport={handleImport}
+        onClose={() => setShowTransferModal(false)}
+      />
+
       {/* Themed alarm modal */}
       <ConfirmModal
         visible={infoModal.visible}
@@ -339,11 +857,29 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "rgba(255,255,255,0.15)",
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
   title: {
     fontSize: 26,
     fontWeight: "bold",
     color: "#fff",
-    marginBottom: 12,
+  },
+  transferButton: {
+    backgroundColor: "rgba(255,255,255,0.2)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  transferButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 13,
   },
   searchInput: {
     backgroundColor: "rgba(255,255,255,0.15)",
@@ -371,10 +907,80 @@ const styles = StyleSheet.create({
   destinationContent: {
     padding: 16,
   },
+  destinationHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
   destinationInfo: {
     flex: 1,
     marginBottom: 12,
   },
+  pinButton: {
+    marginLeft: 12,
+  },
+  pinButtonText: {
+    fontSize: 24,
+    color: "#fff",
+  },
+  badgeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 6,
+  },
+  badge: {
+    fontSize: 12,
+    color: "rgba(255,255,255,0.85)",
+    backgroundColor: "rgba(255,255,255,0.12)",
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  categoryBadge: {
+    fontWeight: "700",
+    color: BRAND,
+    backgroundColor: "#fff",
+  },
+  filterRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  filterScroll: {
+    flex: 1,
+    marginRight: 8,
+  },
+  filterChips: {
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+    backgroundColor: "rgba(255,255,255,0.12)",
+  },
+  filterChipActive: {
+    backgroundColor: "#fff",
+    borderColor: "#fff",
+  },
+  filterChipText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  filterChipTextActive: {
+    color: BRAND,
+  },
+  reorderButtonActive: {
+    backgroundColor: "#fff",
+    borderColor: "#fff",
+  },
+  reorderButtonTextActive: {
+    color: BRAND,
+  },
   destinationName: {
     fontSize: 17,
     fontWeight: "600",
@@ -396,6 +1002,56 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginTop: 4,
   },
+  scheduleButton: {
+    backgroundColor: "rgba(255,255,255,0.2)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  scheduleButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  schedulesSection: {
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "rgba(255,255,255,0.8)",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginHorizontal: 4,
+    marginBottom: 4,
+  },
+  scheduleItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 4,
+    marginVertical: 5,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.3)",
+    backgroundColor: "rgba(255,255,255,0.12)",
+  },
+  scheduleInfo: {
+    flex: 1,
+  },
+  scheduleActions: {
+    alignItems: "flex-end",
+  },
+  scheduleDeleteButton: {
+    marginTop: 8,
+    backgroundColor: BRAND,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
   deleteButton: {
     backgroundColor: BRAND,
     paddingHorizontal: 14,
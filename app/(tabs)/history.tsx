@@ -0,0 +1,556 @@
+// Trip history screen with outcome filters and per-destination stats
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { useFocusEffect } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import ConfirmModal from "../../components/ConfirmModal";
+import { useAppDispatch, useHistoryState } from "../../store/hooks";
+import {
+  clearTripHistory,
+  loadTripHistory,
+  setOutcomeFilter,
+} from "../../store/slices/historySlice";
+import { Trip, TripDestinationStats, TripOutcome } from "../../types";
+import { calculateTripStats, formatDistance, formatEta } from "../../utils";
+import { haptics } from "../../utils/Haptics";
+
+const BRAND = "#b9221d";
+const GRADIENT: [string, string, string] = [
+  "rgba(195, 65, 55, 0.88)",
+  "rgba(232, 100, 80, 0.50)",
+  "rgba(195, 65, 55, 0.82)",
+];
+
+const OUTCOME_FILTERS: { id: TripOutcome | "all"; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "fired", label: "Arrived" },
+  { id: "cancelled", label: "Cancelled" },
+  { id: "expired", label: "Expired" },
+];
+
+const OUTCOME_DISPLAY: Record<
+  TripOutcome,
+  {
+    label: string;
+    color: string;
+    icon: React.ComponentProps<typeof Ionicons>["name"];
+  }
+> = {
+  active: { label: "Active", color: "#34C759", icon: "radio-button-on" },
+  fired: { label: "Arrived", color: "#fff", icon: "checkmark-circle" },
+  cancelled: {
+    label: "Cancelled",
+    color: "rgba(255,255,255,0.6)",
+    icon: "close-circle",
+  },
+  expired: { label: "Expired", color: "#FFCC00", icon: "hourglass" },
+};
+
+type HistoryView = "trips" | "destinations";
+
+const formatTripDate = (iso: string): string =>
+  new Date(iso).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const TripHistoryScreen: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { trips, outcomeFilter, isLoading, error } = useHistoryState();
+
+  const [view, setView] = useState<HistoryView>("trips");
+  const [refreshing, setRefreshing] = useState(false);
+  const [showClearModal, setShowClearModal] = useState(false);
+
+  // Trips can be closed by the background task, so reload whenever the tab
+  // comes into view
+  useFocusEffect(
+    useCallback(() => {
+      dispatch(loadTripHistory());
+    }, [dispatch]),
+  );
+
+  const filteredTrips = useMemo(
+    () =>
+      outcomeFilter === "all"
+        ? trips
+        : trips.filter((trip) => trip.outcome === outcomeFilter),
+    [trips, outcomeFilter],
+  );
+
+  const destinationStats = useMemo(
+    () => calculateTripStats(filteredTrips),
+    [filteredTrips],
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await dispatch(loadTripHistory());
+    setRefreshing(false);
+  };
+
+  const handleClearHistory = async () => {
+    setShowClearModal(false);
+    haptics.warning();
+    await dispatch(clearTripHistory());
+  };
+
+  const renderTripItem = ({ item }: { item: Trip }) => {
+    const outcome = OUTCOME_DISPLAY[item.outcome];
+    const durationMs = item.firedAt
+      ? new Date(item.firedAt).getTime() - new Date(item.armedAt).getTime()
+      : null;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {item.destinationName}
+          </Text>
+          <View style={styles.outcomeBadge}>
+            <Ionicons name={outcome.icon} size={14} color={outcome.color} />
+            <Text style={[styles.outcomeText, { color: outcome.color }]}>
+              {outcome.label}
+            </Text>
+          </View>
+        </View>
+        {item.destinationAddress && (
+          <Text style={styles.cardSubtitle} numberOfLines={1}>
+            {item.destinationAddress}
+          </Text>
+        )}
+        <Text style={styles.cardMeta}>
+          Armed {formatTripDate(item.armedAt)}
+          {durationMs !== null && durationMs >= 0
+            ? ` · ${formatEta(durationMs / 1000)} trip`
+            : ""}
+          {item.distanceAtTrigger !== null
+            ? ` · woke ${formatDistance(item.distanceAtTrigger)} out`
+            : ""}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderStatsItem = ({ item }: { item: TripDestinationStats }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle} numberOfLines={1}>
+          {item.destinationName}
+        </Text>
+        <Text style={styles.tripCount}>
+          {item.tripCount} trip{item.tripCount === 1 ? "" : "s"}
+        </Text>
+      </View>
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>
+            {item.averageDurationMs !== null
+              ? formatEta(item.averageDurationMs / 1000)
+              : "—"}
+          </Text>
+          <Text style={styles.statLabel}>Avg. trip</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{item.firedCount}</Text>
+          <Text style={styles.statLabel}>Arrived</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{item.cancelledCount}</Text>
+          <Text style={styles.statLabel}>Cancelled</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{item.expiredCount}</Text>
+          <Text style={styles.statLabel}>Expired</Text>
+        </View>
+      </View>
+      <Text style={styles.cardMeta}>
+        Last trip {formatTripDate(item.lastTripAt)}
+      </Text>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyStateTitle}>No Trips Yet</Text>
+      <Text style={styles.emptyStateText}>
+        {outcomeFilter === "all"
+          ? "Every alarm you set is logged here, with how the trip ended."
+          : "No trips match this filter."}
+      </Text>
+    </View>
+  );
+
+  if (isLoading && trips.length === 0) {
+    return (
+      <LinearGradient
+        colors={GRADIENT}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 0, y: 1 }}
+        style={{ flex: 1 }}
+      >
+        <SafeAreaView
+          style={styles.loadingContainer}
+          edges={["top", "left", "right"]}
+        >
+          <ActivityIndicator size="large" color="#fff" />
+          <Text style={styles.loadingText}>Loading history...</Text>
+        </SafeAreaView>
+      </LinearGradient>
+    );
+  }
+
+  const refreshControl = (
+    <RefreshControl
+      refreshing={refreshing}
+      onRefresh={handleRefresh}
+      tintColor="#fff"
+      colors={[BRAND]}
+    />
+  );
+
+  return (
+    <LinearGradient
+      colors={GRADIENT}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 0, y: 1 }}
+      style={{ flex: 1 }}
+    >
+      <SafeAreaView style={styles.container} edges={["top", "left", "right"]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>Trip History</Text>
+            {trips.length > 0 && (
+              <TouchableOpacity
+                onPress={() => {
+                  haptics.light();
+                  setShowClearModal(true);
+                }}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityRole="button"
+                accessibilityLabel="Clear trip history"
+              >
+                <Ionicons name="trash-outline" size={22} color="#fff" />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.segmentRow}>
+            {(["trips", "destinations"] as HistoryView[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.segment,
+                  view === option && styles.segmentActive,
+                ]}
+                onPress={() => {
+                  haptics.selection();
+                  setView(option);
+                }}
+              >
+                <Text
+                  style={[
+                    styles.segmentText,
+                    view === option && styles.segmentTextActive,
+                  ]}
+                >
+                  {option === "trips" ? "Trips" : "By Destination"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.filterRow}>
+            {OUTCOME_FILTERS.map((filter) => (
+              <TouchableOpacity
+                key={filter.id}
+                style={[
+                  styles.filterChip,
+                  outcomeFilter === filter.id && styles.filterChipActive,
+                ]}
+                onPress={() => {
+                  haptics.selection();
+                  dispatch(setOutcomeFilter(filter.id));
+                }}
+              >
+                <Text
+                  numberOfLines={1}
+                  style={[
+                    styles.filterChipText,
+                    outcomeFilter === filter.id && styles.filterChipTextActive,
+                  ]}
+                >
+                  {filter.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={() => dispatch(loadTripHistory())}
+            >
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {view === "trips" ? (
+          <FlatList
+            data={filteredTrips}
+            keyExtractor={(item) => item.id}
+            renderItem={renderTripItem}
+            ListEmptyComponent={renderEmptyState}
+            refreshControl={refreshControl}
+            contentContainerStyle={
+              filteredTrips.length === 0
+                ? styles.emptyContainer
+                : styles.listContent
+            }
+          />
+        ) : (
+          <FlatList
+            data={destinationStats}
+            keyExtractor={(item) => item.key}
+            renderItem={renderStatsItem}
+            ListEmptyComponent={renderEmptyState}
+            refreshControl={refreshControl}
+            contentContainerStyle={
+              destinationStats.length === 0
+                ? styles.emptyContainer
+                : styles.listContent
+            }
+          />
+        )}
+      </SafeAreaView>
+
+      <ConfirmModal
+        visible={showClearModal}
+        title="Clear History"
+        message="Delete all finished trips? Trips for active alarms are kept."
+        confirmLabel="Clear"
+        cancelLabel="Cancel"
+        destructive
+        onConfirm={handleClearHistory}
+        onCancel={() => setShowClearModal(false)}
+      />
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: "rgba(255,255,255,0.8)",
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255,255,255,0.15)",
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  segmentRow: {
+    flexDirection: "row",
+    backgroundColor: "rgba(255,255,255,0.12)",
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 10,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 7,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  segmentActive: {
+    backgroundColor: BRAND,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "rgba(255,255,255,0.75)",
+  },
+  segmentTextActive: {
+    color: "#fff",
+  },
+  filterRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  filterChip: {
+    flex: 1,
+    minWidth: 0,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.25)",
+    alignItems: "center",
+  },
+  filterChipActive: {
+    backgroundColor: BRAND,
+    borderColor: BRAND,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "rgba(255,255,255,0.8)",
+  },
+  filterChipTextActive: {
+    color: "#fff",
+  },
+  listContent: {
+    padding: 12,
+    paddingBottom: 100,
+  },
+  card: {
+    marginHorizontal: 4,
+    marginVertical: 5,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(132, 42, 42, 0.74)",
+    backgroundColor: "rgba(112, 33, 33, 0.25)",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#fff",
+    marginRight: 8,
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: "rgba(255,255,255,0.75)",
+    marginBottom: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: "rgba(255,255,255,0.5)",
+    marginTop: 4,
+  },
+  outcomeBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  outcomeText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  tripCount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.8)",
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 10,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "rgba(255,255,255,0.6)",
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: "rgba(255,255,255,0.65)",
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    justifyContent: "center",
+  },
+  errorContainer: {
+    backgroundColor: "rgba(255,255,255,0.12)",
+    borderWidth: 1,
+    borderColor: "rgba(255,100,100,0.4)",
+    margin: 16,
+    padding: 12,
+    borderRadius: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  errorText: {
+    color: "rgba(255,200,200,0.9)",
+    flex: 1,
+  },
+  retryButton: {
+    backgroundColor: BRAND,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
+
+export default TripHistoryScreen;
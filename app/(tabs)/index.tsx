@@ -2,8 +2,15 @@
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { router } from "expo-router";
-import React, { useCallback, useEffect, useState } from "react";
-import { Alert, StyleSheet, Text, TouchableOpacity } from "react-native";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { LatLng } from "react-native-maps";
 import {
   SafeAreaView,
@@ -12,10 +19,13 @@ import {
 import AddressSearchModal from "../../components/AddressSearchModal";
 import AnimatedButton from "../../components/AnimatedButton";
 import ConfirmModal from "../../components/ConfirmModal";
-import DestinationConfirmationModal from "../../components/DestinationConfirmationModal";
+import DestinationConfirmationModal, {
+  DestinationAlarmType,
+} from "../../components/DestinationConfirmationModal";
 import FadeInView from "../../components/FadeInView";
 import LoadingSpinner from "../../components/LoadingSpinner";
 import MapComponent from "../../components/MapComponent";
+import MetroRouteModal from "../../components/MetroRouteModal";
 import SlideInView from "../../components/SlideInView";
 import { destinationSelectionService } from "../../services/DestinationSelectionService";
 import {
@@ -23,17 +33,37 @@ import {
   useCurrentLocation,
   useLocationPermission,
   useMapRegion,
+  useRecentDestinations,
+  useSavedDestinations,
   useSelectedDestination,
   useUserSettings,
 } from "../../store/hooks";
 import { createAlarm } from "../../store/slices/alarmSlice";
-import { addRecentDestination } from "../../store/slices/destinationSlice";
+import {
+  loadSavedDestinations,
+  loadSuggestedDestinations,
+  recordDestinationUsage,
+} from "../../store/slices/destinationSlice";
 import {
   getCurrentLocation,
   requestLocationPermission,
 } from "../../store/slices/locationSlice";
 import { setSelectedDestination } from "../../store/slices/uiSlice";
-import { AlarmSettings, Coordinate, Destination } from "../../types";
+import {
+  AlarmSettings,
+  Coordinate,
+  Destination,
+  DestinationArea,
+  MetroRoute,
+  VALIDATION_CONSTANTS,
+} from "../../types";
+import {
+  createAlarmSettings,
+  findSavedDestination,
+  generateId,
+  getAreaCenter,
+  validateDestinationArea,
+} from "../../utils";
 import { haptics } from "../../utils/Haptics";
 
 const MapScreen: React.FC = () => {
@@ -44,6 +74,8 @@ const MapScreen: React.FC = () => {
   const selectedDestination = useSelectedDestination();
   const mapRegion = useMapRegion();
   const userSettings = useUserSettings();
+  const savedDestinations = useSavedDestinations();
+  const suggestedDestinations = useRecentDestinations();
 
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
@@ -56,8 +88,19 @@ const MapScreen: React.FC = () => {
     undefined,
   );
   const [showAddressSearch, setShowAddressSearch] = useState(false);
+  const [showMetroRoute, setShowMetroRoute] = useState(false);
   const [shouldFitMarkers, setShouldFitMarkers] = useState(false);
   const [shouldCenterOnLocation, setShouldCenterOnLocation] = useState(false);
+  // Radius chosen for the selected destination's alarm, if not the default
+  const [selectedTriggerRadius, setSelectedTriggerRadius] = useState<
+    number | null
+  >(null);
+  // Polygon or corridor being drawn by tapping the map
+  const [drawingKind, setDrawingKind] = useState<
+    DestinationArea["kind"] | null
+  >(null);
+  const [draftPoints, setDraftPoints] = useState<Coordinate[]>([]);
+  const [pendingArea, setPendingArea] = useState<DestinationArea | null>(null);
 
   // Themed info/confirm modal state
   const [infoModal, setInfoModal] = useState<{
@@ -116,12 +159,51 @@ const MapScreen: React.FC = () => {
     initializeLocation();
   }, [initializeLocation]);
 
+  // Saved places can carry their own alarm settings
+  useEffect(() => {
+    dispatch(loadSavedDestinations());
+  }, [dispatch]);
+
+  // Suggestions depend on where the user is, so refresh them after moving
+  // about a kilometre, and when saved places change
+  const originCell = currentLocation
+    ? `${currentLocation.latitude.toFixed(2)},${currentLocation.longitude.toFixed(2)}`
+    : null;
+  useEffect(() => {
+    dispatch(loadSuggestedDestinations());
+  }, [dispatch, originCell, savedDestinations]);
+
+  const pendingSavedDestination = useMemo(
+    () =>
+      pendingCoordinate
+        ? findSavedDestination(savedDestinations, pendingCoordinate)
+        : undefined,
+    [savedDestinations, pendingCoordinate],
+  );
+
+  const toDraftArea = (
+    kind: DestinationArea["kind"],
+    points: Coordinate[],
+  ): DestinationArea =>
+    kind === "polygon"
+      ? { kind, points }
+      : { kind, points, width: VALIDATION_CONSTANTS.DEFAULT_CORRIDOR_WIDTH };
+
   const handleMapPress = async (coordinate: LatLng) => {
     const coord: Coordinate = {
       latitude: coordinate.latitude,
       longitude: coordinate.longitude,
     };
 
+    // While drawing, taps add points to the area instead
+    if (drawingKind) {
+      if (draftPoints.length < VALIDATION_CONSTANTS.MAX_AREA_POINTS) {
+        haptics.selection();
+        setDraftPoints((points) => [...points, coord]);
+      }
+      return;
+    }
+
     // Validate coordinate for selection
     const validation =
       destinationSelectionService.validateCoordinateForSelection(coord);
@@ -160,9 +242,56 @@ const MapScreen: React.FC = () => {
     setPendingCoordinate(coord);
     setPendingName(undefined);
     setPendingAddress(undefined);
+    setPendingArea(null);
     setShowConfirmationModal(true);
   };
 
+  const handleStartDrawing = () => {
+    Alert.alert("Draw Destination", "Tap the map to add points.", [
+      {
+        text: "Area",
+        onPress: () => {
+          setDrawingKind("polygon");
+          setDraftPoints([]);
+        },
+      },
+      {
+        text: "Route Corridor",
+        onPress: () => {
+          setDrawingKind("corridor");
+          setDraftPoints([]);
+        },
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleCancelDrawing = () => {
+    setDrawingKind(null);
+    setDraftPoints([]);
+  };
+
+  const handleFinishDrawing = () => {
+    if (!drawingKind) return;
+
+    const area = toDraftArea(drawingKind, draftPoints);
+    const validation = validateDestinationArea(area);
+    if (!validation.isValid) {
+      Alert.alert("Incomplete Shape", validation.errors.join("\n"), [
+        { text: "OK" },
+      ]);
+      return;
+    }
+
+    // The area's centre stands in for it wherever a single point is needed
+    setPendingArea(area);
+    setPendingCoordinate(getAreaCenter(area.points));
+    setPendingName(undefined);
+    setPendingAddress(undefined);
+    setShowConfirmationModal(true);
+    handleCancelDrawing();
+  };
+
   const handleMapReady = () => {
     if (__DEV__) {
       console.log("Map is ready");
@@ -187,37 +316,44 @@ const MapScreen: React.FC = () => {
 
   const handleClearSelection = () => {
     dispatch(setSelectedDestination(null));
+    setSelectedTriggerRadius(null);
   };
 
-  const handleDestinationConfirm = async (destination: Destination) => {
+  const handleDestinationConfirm = async (
+    destination: Destination,
+    triggerRadius: number,
+    alarmType: DestinationAlarmType,
+  ) => {
     try {
       // Set as selected destination
       dispatch(setSelectedDestination(destination));
-
-      // Add to recent destinations
-      dispatch(addRecentDestination(destination));
+      setSelectedTriggerRadius(triggerRadius);
 
       // Close modal
       setShowConfirmationModal(false);
       setPendingCoordinate(null);
       setPendingName(undefined);
       setPendingAddress(undefined);
+      setPendingArea(null);
 
       // Trigger map to fit both markers
       setShouldFitMarkers(true);
       // Reset after a brief delay to allow future manual zooms
       setTimeout(() => setShouldFitMarkers(false), 2000);
 
-      // Create alarm settings from user preferences
-      const alarmSettings: AlarmSettings = {
-        triggerRadius: userSettings.defaultTriggerRadius,
-        vibrationEnabled: userSettings.vibrationEnabled,
-        persistentNotification: true,
+      // Create alarm settings from user preferences, or the saved place's own
+      const savedDestination = findSavedDestination(
+        savedDestinations,
+        destination.coordinate,
+      );
+      const alarmSettings = {
+        ...createAlarmSettings(userSettings, savedDestination?.alarmSettings),
+        triggerRadius,
       };
 
       // Create the alarm
       const result = await dispatch(
-        createAlarm({ destination, settings: alarmSettings }),
+        createAlarm({ destination, settings: alarmSettings, type: alarmType }),
       ).unwrap();
 
       // Check if this was an existing alarm at the same location
@@ -259,19 +395,94 @@ const MapScreen: React.FC = () => {
     setPendingCoordinate(null);
     setPendingName(undefined);
     setPendingAddress(undefined);
+    setPendingArea(null);
   };
 
-  const handleAddressSearchSelect = async (destination: Destination) => {
-    // Close the search modal
-    setShowAddressSearch(false);
+  const handleMetroRouteConfirm = async (
+    route: MetroRoute,
+    stopsBefore: number,
+  ) => {
+    setShowMetroRoute(false);
+
+    const destination: Destination = {
+      id: generateId("dest"),
+      name: route.destination.name,
+      coordinate: route.destination.coordinate,
+      address: `${route.destination.name} Metro Station`,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      dispatch(setSelectedDestination(destination));
+      setSelectedTriggerRadius(null);
+      setShouldFitMarkers(true);
+      setTimeout(() => setShouldFitMarkers(false), 2000);
+
+      const alarmSettings: AlarmSettings = {
+        triggerRadius: userSettings.defaultTriggerRadius,
+        vibrationEnabled: userSettings.vibrationEnabled,
+        persistentNotification: true,
+      };
+
+      const result = await dispatch(
+        createAlarm({
+          destination,
+          settings: alarmSettings,
+          transit: { route, stopsBefore },
+        }),
+      ).unwrap();
+
+      if (result.isExisting) {
+        showInfoModal(
+          "Alarm Already Exists",
+          result.message || "An alarm is already set for this location.",
+          "View Alarm",
+          () => {
+            hideInfoModal();
+            router.push("/alarm");
+          },
+        );
+        return;
+      }
 
-    // Set the destination info (including name and address from search) and show confirmation modal
+      showInfoModal(
+        "Alarm Created",
+        `You will be woken ${stopsBefore} stop${stopsBefore === 1 ? "" : "s"} before ${destination.name}`,
+        "View Alarm",
+        () => {
+          hideInfoModal();
+          router.push("/alarm");
+        },
+      );
+    } catch (error) {
+      console.error("Error creating metro alarm:", error);
+      showInfoModal(
+        "Error",
+        "Failed to create alarm. Please try again.",
+        "OK",
+        hideInfoModal,
+      );
+    }
+  };
+
+  // Set the destination info (including name and address) and show the
+  // confirmation modal
+  const showDestinationConfirmation = (destination: Destination) => {
     setPendingCoordinate(destination.coordinate);
     setPendingName(destination.name);
     setPendingAddress(destination.address);
+    setPendingArea(destination.area ?? null);
     setShowConfirmationModal(true);
   };
 
+  const handleAddressSearchSelect = async (destination: Destination) => {
+    // Close the search modal
+    setShowAddressSearch(false);
+
+    dispatch(recordDestinationUsage({ destination, kind: "searched" }));
+    showDestinationConfirmation(destination);
+  };
+
   // Show permission request if needed
   if (locationPermission === "denied") {
     return (
@@ -324,21 +535,55 @@ const MapScreen: React.FC = () => {
           <Ionicons name="locate" size={22} color="#FFFFFF" />
         </TouchableOpacity>
 
-        {/* Right: search */}
-        <TouchableOpacity
-          style={styles.headerBtn}
-          onPress={() => {
-            haptics.light();
-            setShowAddressSearch(true);
-          }}
-          disabled={isLoadingLocation}
-          accessibilityRole="button"
-          accessibilityLabel="Open address search"
-          accessibilityHint="Search for an address to set as destination"
-          accessibilityState={{ disabled: isLoadingLocation }}
-        >
-          <Ionicons name="search" size={22} color="#FFFFFF" />
-        </TouchableOpacity>
+        {/* Right: draw area + metro route + search */}
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerBtn}
+            onPress={() => {
+              haptics.light();
+              handleStartDrawing();
+            }}
+            disabled={isLoadingLocation || drawingKind !== null}
+            accessibilityRole="button"
+            accessibilityLabel="Draw destination area"
+            accessibilityHint="Draw an area or a stretch of route that triggers the alarm"
+            accessibilityState={{
+              disabled: isLoadingLocation || drawingKind !== null,
+            }}
+          >
+            <Ionicons name="shapes-outline" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.headerBtn}
+            onPress={() => {
+              haptics.light();
+              setShowMetroRoute(true);
+            }}
+            disabled={isLoadingLocation}
+            accessibilityRole="button"
+            accessibilityLabel="Plan metro journey"
+            accessibilityHint="Set an alarm a number of stops before a metro station"
+            accessibilityState={{ disabled: isLoadingLocation }}
+          >
+            <Ionicons name="train" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.headerBtn}
+            onPress={() => {
+              haptics.light();
+              setShowAddressSearch(true);
+            }}
+            disabled={isLoadingLocation}
+            accessibilityRole="button"
+            accessibilityLabel="Open address search"
+            accessibilityHint="Search for an address to set as destination"
+            accessibilityState={{ disabled: isLoadingLocation }}
+          >
+            <Ionicons name="search" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
       </LinearGradient>
 
       <MapComponent
@@ -349,9 +594,88 @@ const MapScreen: React.FC = () => {
         onMapReady={handleMapReady}
         shouldFitMarkers={shouldFitMarkers}
         shouldCenterOnLocation={shouldCenterOnLocation}
-        triggerRadius={userSettings.defaultTriggerRadius}
+        triggerRadius={
+          selectedTriggerRadius ?? userSettings.defaultTriggerRadius
+        }
+        draftArea={drawingKind ? toDraftArea(drawingKind, draftPoints) : null}
       />
 
+      {/* Suggested destinations */}
+      {suggestedDestinations.length > 0 &&
+        !drawingKind &&
+        !isLoadingLocation &&
+        !locationError && (
+          <FadeInView style={styles.suggestionsContainer}>
+            <Text style={styles.suggestionsLabel}>Suggested</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.suggestionsRow}
+            >
+              {suggestedDestinations.map((destination) => {
+                const isSaved = savedDestinations.some(
+                  (saved) => saved.id === destination.id,
+                );
+                return (
+                  <TouchableOpacity
+                    key={destination.id}
+                    style={styles.suggestionChip}
+                    onPress={() => {
+                      haptics.light();
+                      showDestinationConfirmation(destination);
+                    }}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Suggested destination: ${destination.name}`}
+                    accessibilityHint="Sets an alarm for this destination"
+                  >
+                    <Ionicons
+                      name={isSaved ? "bookmark" : "time-outline"}
+                      size={14}
+                      color="#b9221d"
+                    />
+                    <Text style={styles.suggestionChipText} numberOfLines={1}>
+                      {destination.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </FadeInView>
+        )}
+
+      {/* Drawing instructions and controls */}
+      {drawingKind && (
+        <SlideInView direction="down" style={styles.instructionsContainer}>
+          <Text style={styles.instructionsText}>
+            {drawingKind === "polygon"
+              ? "Tap the map to outline the area"
+              : "Tap the map along your route"}
+            {` (${draftPoints.length} point${draftPoints.length === 1 ? "" : "s"})`}
+          </Text>
+          <View style={styles.actionButtonsContainer}>
+            <AnimatedButton
+              title="Undo"
+              onPress={() => setDraftPoints((points) => points.slice(0, -1))}
+              variant="secondary"
+              size="small"
+              disabled={draftPoints.length === 0}
+            />
+            <AnimatedButton
+              title="Cancel"
+              onPress={handleCancelDrawing}
+              variant="secondary"
+              size="small"
+            />
+            <AnimatedButton
+              title="Done"
+              onPress={handleFinishDrawing}
+              size="small"
+              style={styles.actionButton}
+            />
+          </View>
+        </SlideInView>
+      )}
+
       {/* Loading overlay */}
       {isLoadingLocation && (
         <FadeInView style={styles.loadingOverlay}>
@@ -399,6 +723,11 @@ const MapScreen: React.FC = () => {
         coordinate={pendingCoordinate}
         initialName={pendingName}
         initialAddress={pendingAddress}
+        initialTriggerRadius={
+          pendingSavedDestination?.alarmSettings?.triggerRadius ??
+          userSettings.defaultTriggerRadius
+        }
+        area={pendingArea}
         onConfirm={handleDestinationConfirm}
         onCancel={handleDestinationCancel}
       />
@@ -410,6 +739,14 @@ const MapScreen: React.FC = () => {
         onSelectAddress={handleAddressSearchSelect}
       />
 
+      {/* Metro Route Modal */}
+      <MetroRouteModal
+        visible={showMetroRoute}
+        currentLocation={currentLocation}
+        onConfirm={handleMetroRouteConfirm}
+        onCancel={() => setShowMetroRoute(false)}
+      />
+
       {/* Themed alarm created / already exists modal */}
       <ConfirmModal
         visible={infoModal.visible}
@@ -442,6 +779,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingTop: 10,
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
   headerBtn: {
     width: 40,
     height: 40,
@@ -450,6 +791,49 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  /* ── Suggestions ── */
+  suggestionsContainer: {
+    position: "absolute",
+    top: 60,
+    left: 0,
+    right: 0,
+    zIndex: 10,
+  },
+  suggestionsLabel: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "600",
+    marginLeft: 12,
+    marginBottom: 4,
+    textShadowColor: "rgba(0, 0, 0, 0.4)",
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  suggestionsRow: {
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  suggestionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    maxWidth: 180,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 3,
+  },
+  suggestionChipText: {
+    color: "#b9221d",
+    fontSize: 14,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
   permissionContainer: {
     flex: 1,
     justifyContent: "center",
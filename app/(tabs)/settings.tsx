@@ -12,11 +12,14 @@ import {
   StyleSheet,
   Switch,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import ConfirmModal from "../../components/ConfirmModal";
+import TriggerRadiusSlider from "../../components/TriggerRadiusSlider";
+import { ALARM_ESCALATION_PROFILES } from "../../services/AlarmEscalationPolicy";
 import { store } from "../../store";
 import { useAppDispatch, useUserSettings } from "../../store/hooks";
 import {
@@ -25,8 +28,18 @@ import {
   saveSettings,
   updateSettings,
 } from "../../store/slices/settingsSlice";
-import { UserSettings, VALIDATION_CONSTANTS } from "../../types";
-import { validateUserSettings } from "../../utils";
+import {
+  AlarmTriggerMode,
+  GeocoderApi,
+  GeocoderProviderId,
+  UserSettings,
+  VALIDATION_CONSTANTS,
+} from "../../types";
+import {
+  createDefaultUserSettings,
+  extractUserSettings,
+  validateUserSettings,
+} from "../../utils";
 import { haptics } from "../../utils/Haptics";
 
 const BRAND = "#b9221d";
@@ -36,6 +49,22 @@ const GRADIENT: [string, string, string] = [
   "rgba(195, 65, 55, 0.82)",
 ];
 
+const TRIGGER_MODES: { id: AlarmTriggerMode; label: string }[] = [
+  { id: "radius", label: "Distance" },
+  { id: "eta", label: "Arrival time" },
+];
+
+const GEOCODER_PROVIDERS: { id: GeocoderProviderId; label: string }[] = [
+  { id: "nominatim", label: "Nominatim" },
+  { id: "photon", label: "Photon" },
+  { id: "self-hosted", label: "Self-hosted" },
+];
+
+const GEOCODER_APIS: { id: GeocoderApi; label: string }[] = [
+  { id: "nominatim", label: "Nominatim API" },
+  { id: "photon", label: "Photon API" },
+];
+
 interface SettingsSectionProps {
   title: string;
   children: React.ReactNode;
@@ -156,13 +185,29 @@ const SettingsScreen: React.FC = () => {
       settings.vibrationEnabled !== snap.vibrationEnabled ||
       settings.persistentNotificationEnabled !==
         snap.persistentNotificationEnabled ||
-      settings.batteryOptimizationEnabled !== snap.batteryOptimizationEnabled;
+      settings.batteryOptimizationEnabled !== snap.batteryOptimizationEnabled ||
+      settings.defaultTriggerMode !== snap.defaultTriggerMode ||
+      settings.defaultEtaMinutes !== snap.defaultEtaMinutes ||
+      settings.alarmRepeatCount !== snap.alarmRepeatCount ||
+      settings.alarmRepeatIntervalSeconds !== snap.alarmRepeatIntervalSeconds ||
+      settings.defaultEscalationProfile !== snap.defaultEscalationProfile ||
+      settings.geocoderProvider !== snap.geocoderProvider ||
+      settings.selfHostedGeocoderUrl !== snap.selfHostedGeocoderUrl ||
+      settings.selfHostedGeocoderApi !== snap.selfHostedGeocoderApi;
     setHasUnsavedChanges(changed);
   }, [
     settings.defaultTriggerRadius,
     settings.vibrationEnabled,
     settings.persistentNotificationEnabled,
     settings.batteryOptimizationEnabled,
+    settings.defaultTriggerMode,
+    settings.defaultEtaMinutes,
+    settings.alarmRepeatCount,
+    settings.alarmRepeatIntervalSeconds,
+    settings.defaultEscalationProfile,
+    settings.geocoderProvider,
+    settings.selfHostedGeocoderUrl,
+    settings.selfHostedGeocoderApi,
   ]);
 
   useEffect(() => {
@@ -170,23 +215,10 @@ const SettingsScreen: React.FC = () => {
       try {
         const loaded = await dispatch(loadSettings()).unwrap();
         // Snapshot what was just loaded from storage
-        savedSnapshot.current = {
-          defaultTriggerRadius: loaded.defaultTriggerRadius,
-          vibrationEnabled: loaded.vibrationEnabled,
-          persistentNotificationEnabled: loaded.persistentNotificationEnabled,
-          batteryOptimizationEnabled: loaded.batteryOptimizationEnabled,
-        };
+        savedSnapshot.current = extractUserSettings(loaded);
       } catch {
         // Seed snapshot from current Redux-backed settings so unsaved detection still works
-        const currentSettings = store.getState().settings;
-        savedSnapshot.current = {
-          defaultTriggerRadius: currentSettings.defaultTriggerRadius,
-          vibrationEnabled: currentSettings.vibrationEnabled,
-          persistentNotificationEnabled:
-            currentSettings.persistentNotificationEnabled,
-          batteryOptimizationEnabled:
-            currentSettings.batteryOptimizationEnabled,
-        };
+        savedSnapshot.current = extractUserSettings(store.getState().settings);
       } finally {
         setHasUnsavedChanges(false);
       }
@@ -208,12 +240,10 @@ const SettingsScreen: React.FC = () => {
 
   const handleSaveSettings = async () => {
     haptics.medium();
-    const settingsToSave = {
-      defaultTriggerRadius: settings.defaultTriggerRadius,
-      vibrationEnabled: settings.vibrationEnabled,
-      persistentNotificationEnabled: settings.persistentNotificationEnabled,
-      batteryOptimizationEnabled: settings.batteryOptimizationEnabled,
-    };
+    const settingsToSave = extractUserSettings({
+      ...settings,
+      selfHostedGeocoderUrl: settings.selfHostedGeocoderUrl.trim(),
+    });
     const validation = validateUserSettings(settingsToSave);
     if (!validation.isValid) {
       showModal(
@@ -249,14 +279,7 @@ const SettingsScreen: React.FC = () => {
       "Reset",
       "Cancel",
       () => {
-        dispatch(
-          updateSettings({
-            defaultTriggerRadius: 500,
-            vibrationEnabled: true,
-            persistentNotificationEnabled: true,
-            batteryOptimizationEnabled: true,
-          }),
-        );
+        dispatch(updateSettings(createDefaultUserSettings()));
         hideModal();
       },
       true,
@@ -337,30 +360,191 @@ const SettingsScreen: React.FC = () => {
 
           <SettingsSection title="Alarm Settings">
             <View style={styles.rowStacked}>
-              <Text style={styles.rowLabel}>Trigger Distance</Text>
+              <Text style={styles.rowLabel}>Wake Me By</Text>
               <Text style={styles.rowDescription}>
-                How close to your destination before the alarm triggers
+                Arrival time adapts to your speed, so fast trains wake you
+                earlier and slow buses later
               </Text>
               <View style={styles.radiusContainer}>
-                {VALIDATION_CONSTANTS.VALID_TRIGGER_RADII.map((radius) => (
+                {TRIGGER_MODES.map((mode) => (
                   <TouchableOpacity
-                    key={radius}
+                    key={mode.id}
                     style={[
                       styles.radiusButton,
-                      settings.defaultTriggerRadius === radius &&
+                      settings.defaultTriggerMode === mode.id &&
                         styles.radiusButtonActive,
                     ]}
-                    onPress={() => handleTriggerRadiusSelect(radius)}
+                    onPress={() =>
+                      handleSettingChange("defaultTriggerMode", mode.id)
+                    }
                   >
                     <Text
                       numberOfLines={1}
                       style={[
                         styles.radiusButtonText,
-                        settings.defaultTriggerRadius === radius &&
+                        settings.defaultTriggerMode === mode.id &&
                           styles.radiusButtonTextActive,
                       ]}
                     >
-                      {radius >= 1000 ? `${radius / 1000} km` : `${radius} m`}
+                      {mode.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {settings.defaultTriggerMode === "eta" && (
+              <View style={styles.rowStacked}>
+                <Text style={styles.rowLabel}>Minutes Before Arrival</Text>
+                <Text style={styles.rowDescription}>
+                  Estimated from your recent speed
+                </Text>
+                <View style={styles.radiusContainer}>
+                  {VALIDATION_CONSTANTS.VALID_ETA_MINUTES.map((minutes) => (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[
+                        styles.radiusButton,
+                        settings.defaultEtaMinutes === minutes &&
+                          styles.radiusButtonActive,
+                      ]}
+                      onPress={() =>
+                        handleSettingChange("defaultEtaMinutes", minutes)
+                      }
+                    >
+                      <Text
+                        numberOfLines={1}
+                        style={[
+                          styles.radiusButtonText,
+                          settings.defaultEtaMinutes === minutes &&
+                            styles.radiusButtonTextActive,
+                        ]}
+                      >
+                        {minutes} min
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.rowStacked}>
+              <TriggerRadiusSlider
+                value={settings.defaultTriggerRadius}
+                onValueChange={handleTriggerRadiusSelect}
+                description={
+                  settings.defaultTriggerMode === "eta"
+                    ? "The alarm always triggers this close, even if your speed is unknown"
+                    : "How close to your destination before the alarm triggers"
+                }
+              />
+            </View>
+
+            <View style={styles.rowStacked}>
+              <Text style={styles.rowLabel}>Repeat Alarm</Text>
+              <Text style={styles.rowDescription}>
+                Ring again until you snooze, dismiss or move away
+              </Text>
+              <View style={styles.radiusContainer}>
+                {VALIDATION_CONSTANTS.VALID_REPEAT_COUNTS.map((count) => (
+                  <TouchableOpacity
+                    key={count}
+                    style={[
+                      styles.radiusButton,
+                      settings.alarmRepeatCount === count &&
+                        styles.radiusButtonActive,
+                    ]}
+                    onPress={() =>
+                      handleSettingChange("alarmRepeatCount", count)
+                    }
+                  >
+                    <Text
+                      numberOfLines={1}
+                      style={[
+                        styles.radiusButtonText,
+                        settings.alarmRepeatCount === count &&
+                          styles.radiusButtonTextActive,
+                      ]}
+                    >
+                      {count === 0 ? "Off" : `${count}×`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {settings.alarmRepeatCount > 0 && (
+              <View style={styles.rowStacked}>
+                <Text style={styles.rowLabel}>Repeat Every</Text>
+                <View style={styles.radiusContainer}>
+                  {VALIDATION_CONSTANTS.VALID_REPEAT_INTERVALS_SECONDS.map(
+                    (seconds) => (
+                      <TouchableOpacity
+                        key={seconds}
+                        style={[
+                          styles.radiusButton,
+                          settings.alarmRepeatIntervalSeconds === seconds &&
+                            styles.radiusButtonActive,
+                        ]}
+                        onPress={() =>
+                          handleSettingChange(
+                            "alarmRepeatIntervalSeconds",
+                            seconds,
+                          )
+                        }
+                      >
+                        <Text
+                          numberOfLines={1}
+                          style={[
+                            styles.radiusButtonText,
+                            settings.alarmRepeatIntervalSeconds === seconds &&
+                              styles.radiusButtonTextActive,
+                          ]}
+                        >
+                          {seconds < 60
+                            ? `${seconds} s`
+                            : `${seconds / 60} min`}
+                        </Text>
+                      </TouchableOpacity>
+                    ),
+                  )}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.rowStacked}>
+              <Text style={styles.rowLabel}>Alarm Escalation</Text>
+              <Text style={styles.rowDescription}>
+                {
+                  ALARM_ESCALATION_PROFILES[settings.defaultEscalationProfile]
+                    .description
+                }
+              </Text>
+              <View style={styles.radiusContainer}>
+                {Object.values(ALARM_ESCALATION_PROFILES).map((profile) => (
+                  <TouchableOpacity
+                    key={profile.id}
+                    style={[
+                      styles.radiusButton,
+                      settings.defaultEscalationProfile === profile.id &&
+                        styles.radiusButtonActive,
+                    ]}
+                    onPress={() =>
+                      handleSettingChange(
+                        "defaultEscalationProfile",
+                        profile.id,
+                      )
+                    }
+                  >
+                    <Text
+                      numberOfLines={1}
+                      style={[
+                        styles.radiusButtonText,
+                        settings.defaultEscalationProfile === profile.id &&
+                          styles.radiusButtonTextActive,
+                      ]}
+                    >
+                      {profile.label}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -448,6 +632,86 @@ const SettingsScreen: React.FC = () => {
               />
             </SettingsRow>
           </SettingsSection>
+
+          <SettingsSection title="Address Search">
+            <View style={styles.rowStacked}>
+              <Text style={styles.rowLabel}>Search Provider</Text>
+              <Text style={styles.rowDescription}>
+                Where address lookups are sent. If it is busy or down, the other
+                public providers are tried next.
+              </Text>
+              <View style={styles.radiusContainer}>
+                {GEOCODER_PROVIDERS.map((provider) => (
+                  <TouchableOpacity
+                    key={provider.id}
+                    style={[
+                      styles.radiusButton,
+                      settings.geocoderProvider === provider.id &&
+                        styles.radiusButtonActive,
+                    ]}
+                    onPress={() =>
+                      handleSettingChange("geocoderProvider", provider.id)
+                    }
+                  >
+                    <Text
+                      numberOfLines={1}
+                      style={[
+                        styles.radiusButtonText,
+                        settings.geocoderProvider === provider.id &&
+                          styles.radiusButtonTextActive,
+                      ]}
+                    >
+                      {provider.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {settings.geocoderProvider === "self-hosted" && (
+              <View style={styles.rowStacked}>
+                <Text style={styles.rowLabel}>Server URL</Text>
+                <TextInput
+                  style={styles.urlInput}
+                  value={settings.selfHostedGeocoderUrl}
+                  onChangeText={(value) =>
+                    dispatch(updateSettings({ selfHostedGeocoderUrl: value }))
+                  }
+                  placeholder="https://geocoder.example.com"
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <View style={styles.radiusContainer}>
+                  {GEOCODER_APIS.map((api) => (
+                    <TouchableOpacity
+                      key={api.id}
+                      style={[
+                        styles.radiusButton,
+                        settings.selfHostedGeocoderApi === api.id &&
+                          styles.radiusButtonActive,
+                      ]}
+                      onPress={() =>
+                        handleSettingChange("selfHostedGeocoderApi", api.id)
+                      }
+                    >
+                      <Text
+                        numberOfLines={1}
+                        style={[
+                          styles.radiusButtonText,
+                          settings.selfHostedGeocoderApi === api.id &&
+                            styles.radiusButtonTextActive,
+                        ]}
+                      >
+                        {api.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </SettingsSection>
         </ScrollView>
 
         <Animated.View
@@ -618,6 +882,17 @@ const styles = StyleSheet.create({
   radiusButtonTextActive: {
     color: "#fff",
   },
+  urlInput: {
+    marginTop: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: "rgba(255,255,255,0.12)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.25)",
+    color: "#fff",
+    fontSize: 14,
+  },
   notificationSettingsRow: {
     flexDirection: "row",
     alignItems: "center",
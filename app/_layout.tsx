@@ -1,6 +1,7 @@
-import { Stack } from "expo-router";
+import { router, Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { useEffect } from "react";
+import { AppState } from "react-native";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { Provider } from "react-redux";
 import { ToastProvider } from "../contexts/ToastContext";
@@ -10,9 +11,26 @@ import "../services/GeofencingService";
 // Import BackgroundLocationTask early to register the background location task
 // This MUST be imported at module level so the task is defined before any events fire
 import "../services/BackgroundLocationTask";
+// Import AlarmScheduler early to define the scheduled-alarm background task
+import { alarmScheduler } from "../services/AlarmScheduler";
+import { alarmRinger } from "../services/AlarmRinger";
+import { notificationManager } from "../services/NotificationManager";
 import { store } from "../store";
 import { useAppDispatch } from "../store/hooks";
-import { initializeAlarmFromStorage } from "../store/slices/alarmSlice";
+import {
+  initializeAlarmFromStorage,
+  startAlarmSync,
+  stopAlarmSync,
+} from "../store/slices/alarmSlice";
+import {
+  startBatteryMonitoring,
+  stopBatteryMonitoring,
+} from "../store/slices/batterySlice";
+import {
+  startConnectivityMonitoring,
+  stopConnectivityMonitoring,
+} from "../store/slices/connectivitySlice";
+import { evaluateSchedules } from "../store/slices/scheduleSlice";
 import { loadSettings } from "../store/slices/settingsSlice";
 
 /**
@@ -27,13 +45,65 @@ function AppInitializer({ children }: { children: React.ReactNode }) {
       // Initialize alarm manager state from persisted data (async)
       await dispatch(initializeAlarmFromStorage());
 
+      // Keep the alarm slice in step with alarms changed by background tasks
+      dispatch(startAlarmSync());
+
       // Load user settings from storage
       dispatch(loadSettings());
+
+      // Track battery level, charging state and low-power mode
+      dispatch(startBatteryMonitoring());
+
+      // Track network status so search can fall back to offline mode
+      dispatch(startConnectivityMonitoring());
+
+      // Arm any scheduled alarm whose window is open, and make sure the
+      // periodic background check is registered
+      dispatch(evaluateSchedules());
+      alarmScheduler.syncBackgroundTask();
     };
 
     initializeApp();
+
+    // Re-check schedules whenever the app comes back to the foreground
+    const appStateSubscription = AppState.addEventListener(
+      "change",
+      (nextState) => {
+        if (nextState === "active") {
+          dispatch(evaluateSchedules());
+        }
+      },
+    );
+
+    return () => {
+      appStateSubscription.remove();
+      dispatch(stopAlarmSync());
+      dispatch(stopBatteryMonitoring());
+      dispatch(stopConnectivityMonitoring());
+    };
   }, [dispatch]);
 
+  // Open the full-screen alarm from a notification tap, or straight away
+  // when an alarm fires while the app is in the foreground
+  useEffect(() => {
+    const openAlarm = (alarmId: string) =>
+      router.push({ pathname: "/ringing", params: { alarmId } });
+
+    const actionSubscription = notificationManager.addAlarmActionListener(
+      (alarmId, action) => {
+        if (action === "open") openAlarm(alarmId);
+      },
+    );
+    const unsubscribeRing = alarmRinger.onRing((ringing) => {
+      if (AppState.currentState === "active") openAlarm(ringing.alarm.id);
+    });
+
+    return () => {
+      actionSubscription.remove();
+      unsubscribeRing();
+    };
+  }, []);
+
   return <>{children}</>;
 }
 
@@ -47,6 +117,13 @@ export default function RootLayout() {
             <Stack screenOptions={{ headerShown: false }}>
               <Stack.Screen name="(onboarding)" />
               <Stack.Screen name="(tabs)" />
+              <Stack.Screen
+                name="ringing"
+                options={{
+                  presentation: "fullScreenModal",
+                  gestureEnabled: false,
+                }}
+              />
               <Stack.Screen name="+not-found" />
             </Stack>
           </AppInitializer>
@@ -0,0 +1,243 @@
+// Full-screen alarm shown when an alarm fires
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Animated,
+  BackHandler,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import SlideToDismiss from "../components/SlideToDismiss";
+import { alarmManager, AlarmRearmError } from "../services/AlarmManager";
+import { alarmRinger, RingingAlarm } from "../services/AlarmRinger";
+import { alarmSounder } from "../services/AlarmSounder";
+import { AlarmNotificationAction } from "../services/NotificationManager";
+import { haptics } from "../utils/Haptics";
+
+// How often to check whether the alarm was acknowledged elsewhere, e.g. by
+// moving away from the destination or from the notification
+const ACKNOWLEDGED_CHECK_MS = 5000;
+
+export default function RingingScreen() {
+  const { alarmId } = useLocalSearchParams<{ alarmId: string }>();
+  const [ringing, setRinging] = useState<RingingAlarm | null>(null);
+  const pulse = useRef(new Animated.Value(1)).current;
+  const closedRef = useRef(false);
+
+  const close = useCallback(() => {
+    if (closedRef.current) return;
+    closedRef.current = true;
+    alarmSounder.stop();
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/");
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    alarmRinger.get(alarmId).then((entry) => {
+      if (cancelled) return;
+      if (!entry) {
+        close();
+        return;
+      }
+      setRinging(entry);
+      alarmSounder.start(entry.alarm);
+    });
+
+    const interval = setInterval(async () => {
+      if (!(await alarmRinger.get(alarmId)) && !cancelled) {
+        close();
+      }
+    }, ACKNOWLEDGED_CHECK_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      alarmSounder.stop();
+    };
+  }, [alarmId, close]);
+
+  // The hardware back button must not silence the alarm
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => true,
+    );
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    const animation = Animated.loop(
+      Animated.sequence([
+        Animated.timing(pulse, {
+          toValue: 1.15,
+          duration: 500,
+          useNativeDriver: true,
+        }),
+        Animated.timing(pulse, {
+          toValue: 1,
+          duration: 500,
+          useNativeDriver: true,
+        }),
+      ]),
+    );
+    animation.start();
+    return () => animation.stop();
+  }, [pulse]);
+
+  const handleAction = useCallback(
+    (action: AlarmNotificationAction) => {
+      haptics.medium();
+      alarmSounder.stop();
+      alarmManager
+        .handleAlarmAction(alarmId, action)
+        .catch((error) => {
+          if (error instanceof AlarmRearmError) {
+            Alert.alert("Alarm not re-armed", error.message);
+            return;
+          }
+          console.error("Error handling alarm action:", error);
+        })
+        .finally(close);
+    },
+    [alarmId, close],
+  );
+
+  const alarm = ringing?.alarm;
+  const isDeparture = alarm?.type === "departure";
+  const subtitle =
+    alarm?.type === "transit" && alarm.transit
+      ? `${alarm.transit.stopsBefore} stop${alarm.transit.stopsBefore > 1 ? "s" : ""} to go`
+      : isDeparture
+        ? "You have left this place"
+        : "You are approaching your stop";
+
+  return (
+    <LinearGradient
+      colors={[
+        "rgba(130, 26, 25, 0.95)",
+        "rgba(232, 47, 45, 0.75)",
+        "rgba(130, 26, 25, 0.95)",
+      ]}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 0, y: 1 }}
+      style={styles.gradient}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Animated.View style={{ transform: [{ scale: pulse }] }}>
+            <Ionicons name="alarm" size={120} color="#fff" />
+          </Animated.View>
+          <Text style={styles.title}>
+            {isDeparture ? "On your way!" : "Time to hop off!"}
+          </Text>
+          {alarm && (
+            <>
+              <Text style={styles.destination}>{alarm.destination.name}</Text>
+              <Text style={styles.subtitle}>{subtitle}</Text>
+            </>
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => handleAction("snooze")}
+              accessibilityRole="button"
+            >
+              <Ionicons name="time-outline" size={20} color="#fff" />
+              <Text style={styles.secondaryButtonText}>Snooze 1 min</Text>
+            </TouchableOpacity>
+            {!isDeparture && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => handleAction("rearm")}
+                accessibilityRole="button"
+                accessibilityHint="Sets the alarm again closer to your destination"
+              >
+                <Ionicons name="refresh" size={20} color="#fff" />
+                <Text style={styles.secondaryButtonText}>Still on board</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <SlideToDismiss
+            label="Slide to dismiss"
+            onDismiss={() => handleAction("dismiss")}
+          />
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  gradient: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    justifyContent: "space-between",
+    padding: 24,
+  },
+  content: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    fontSize: 34,
+    fontWeight: "bold",
+    color: "#fff",
+    marginTop: 24,
+    textAlign: "center",
+  },
+  destination: {
+    fontSize: 22,
+    fontWeight: "600",
+    color: "#fff",
+    marginTop: 12,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "rgba(255,255,255,0.8)",
+    marginTop: 8,
+    textAlign: "center",
+  },
+  actions: {
+    gap: 16,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+  },
+  secondaryButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -1,8 +1,15 @@
 // Address search component with OpenStreetMap Nominatim integration
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   ActivityIndicator,
   FlatList,
+  ScrollView,
   StyleSheet,
   Text,
   TextInput,
@@ -14,7 +21,16 @@ import {
   nominatimService,
   NominatimServiceError,
 } from "../services/NominatimService";
-import { AddressSearchResult, Coordinate, SearchHistoryItem } from "../types";
+import {
+  AddressSearchResult,
+  Coordinate,
+  Destination,
+  SearchHistoryItem,
+} from "../types";
+import { sortDestinations } from "../utils";
+
+// Most quick chips shown above recent searches
+const MAX_QUICK_CHIPS = 8;
 
 interface AddressSearchComponentProps {
   onSelectResult: (result: AddressSearchResult) => void;
@@ -24,6 +40,8 @@ interface AddressSearchComponentProps {
   onAddToHistory?: (query: string, result: AddressSearchResult) => void;
   showHistory?: boolean;
   currentLocation?: Coordinate | null;
+  isOnline?: boolean;
+  savedDestinations?: Destination[];
 }
 
 interface SearchState {
@@ -34,6 +52,45 @@ interface SearchState {
   showResults: boolean;
 }
 
+// Convert a search history item to the AddressSearchResult format
+const historyItemToResult = (
+  historyItem: SearchHistoryItem,
+): AddressSearchResult => ({
+  id: `history_${historyItem.id}`,
+  displayName: historyItem.result.display_name.split(",")[0].trim(),
+  address: historyItem.result.display_name,
+  coordinate: {
+    latitude: parseFloat(historyItem.result.lat),
+    longitude: parseFloat(historyItem.result.lon),
+  },
+  importance: historyItem.result.importance || 0,
+  type: historyItem.result.type || "unknown",
+  boundingBox: {
+    south: parseFloat(historyItem.result.boundingbox[0]),
+    north: parseFloat(historyItem.result.boundingbox[1]),
+    west: parseFloat(historyItem.result.boundingbox[2]),
+    east: parseFloat(historyItem.result.boundingbox[3]),
+  },
+});
+
+// Convert a saved destination to the AddressSearchResult format
+const destinationToResult = (
+  destination: Destination,
+): AddressSearchResult => ({
+  id: `saved_${destination.id}`,
+  displayName: destination.name,
+  address: destination.address || destination.name,
+  coordinate: destination.coordinate,
+  importance: 1, // saved places rank above everything else offline
+  type: "saved",
+  boundingBox: {
+    south: destination.coordinate.latitude,
+    north: destination.coordinate.latitude,
+    west: destination.coordinate.longitude,
+    east: destination.coordinate.longitude,
+  },
+});
+
 const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
   onSelectResult,
   onClose,
@@ -42,6 +99,8 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
   onAddToHistory,
   showHistory = true,
   currentLocation = null,
+  isOnline = true,
+  savedDestinations = [],
 }) => {
   const [searchState, setSearchState] = useState<SearchState>({
     query: "",
@@ -75,6 +134,52 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
     return /^[a-z]{2}$/.test(region) ? [region] : [];
   }, []);
 
+  // Match saved destinations, search history and cached results locally
+  const searchOffline = useCallback(
+    (query: string): AddressSearchResult[] => {
+      const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const matches = (text: string) => {
+        const haystack = text.toLowerCase();
+        return tokens.every((token) => haystack.includes(token));
+      };
+
+      const candidates = [
+        ...savedDestinations
+          .filter((destination) =>
+            matches(
+              [
+                destination.name,
+                destination.address,
+                destination.category,
+                ...(destination.tags ?? []),
+              ]
+                .filter(Boolean)
+                .join(" "),
+            ),
+          )
+          .map(destinationToResult),
+        ...searchHistory
+          .filter((item) =>
+            matches(`${item.query} ${item.result.display_name}`),
+          )
+          .map(historyItemToResult),
+        ...nominatimService.searchCachedResults(query, 8),
+      ];
+
+      // Keep the first (highest priority) result for each place
+      const seen = new Set<string>();
+      return candidates
+        .filter((result) => {
+          const key = `${result.coordinate.latitude.toFixed(4)}_${result.coordinate.longitude.toFixed(4)}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, 8);
+    },
+    [savedDestinations, searchHistory],
+  );
+
   // Debounced search function
   const performSearch = useCallback(
     async (query: string) => {
@@ -92,6 +197,22 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
       const requestId = latestSearchRequestIdRef.current + 1;
       latestSearchRequestIdRef.current = requestId;
 
+      // No network: answer from what's on the device instead of timing out
+      if (!isOnline) {
+        const results = searchOffline(query.trim());
+        setSearchState((prev) => ({
+          ...prev,
+          results,
+          isLoading: false,
+          showResults: true,
+          error:
+            results.length === 0
+              ? `No saved or recent places match "${query.trim()}"`
+              : null,
+        }));
+        return;
+      }
+
       setSearchState((prev) => ({
         ...prev,
         isLoading: true,
@@ -135,6 +256,9 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
             case NominatimError.NETWORK_ERROR:
               errorMessage = "Network error. Please check your connection.";
               break;
+            case NominatimError.OFFLINE:
+              errorMessage = error.message;
+              break;
             case NominatimError.RATE_LIMITED:
               errorMessage = "Too many searches. Please wait a moment.";
               break;
@@ -158,7 +282,13 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
         }));
       }
     },
-    [currentLocation, getAcceptLanguage, getCountryCodes],
+    [
+      currentLocation,
+      getAcceptLanguage,
+      getCountryCodes,
+      isOnline,
+      searchOffline,
+    ],
   );
 
   // Handle search input changes with debouncing
@@ -208,26 +338,7 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
   };
 
   const handleSelectHistoryItem = (historyItem: SearchHistoryItem) => {
-    // Convert history item to AddressSearchResult format
-    const result: AddressSearchResult = {
-      id: `history_${historyItem.id}`,
-      displayName: historyItem.result.display_name.split(",")[0].trim(),
-      address: historyItem.result.display_name,
-      coordinate: {
-        latitude: parseFloat(historyItem.result.lat),
-        longitude: parseFloat(historyItem.result.lon),
-      },
-      importance: historyItem.result.importance || 0,
-      type: historyItem.result.type || "unknown",
-      boundingBox: {
-        south: parseFloat(historyItem.result.boundingbox[0]),
-        north: parseFloat(historyItem.result.boundingbox[1]),
-        west: parseFloat(historyItem.result.boundingbox[2]),
-        east: parseFloat(historyItem.result.boundingbox[3]),
-      },
-    };
-
-    handleSelectResult(result);
+    handleSelectResult(historyItemToResult(historyItem));
   };
 
   const handleClearSearch = () => {
@@ -279,6 +390,22 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
     </TouchableOpacity>
   );
 
+  // Favourites and categorised places, one tap away before typing
+  const quickDestinations = useMemo(
+    () =>
+      sortDestinations(
+        savedDestinations.filter(
+          (destination) => destination.pinned || destination.category,
+        ),
+      ).slice(0, MAX_QUICK_CHIPS),
+    [savedDestinations],
+  );
+
+  const showQuickChips =
+    quickDestinations.length > 0 &&
+    !searchState.showResults &&
+    !searchState.query;
+
   const showHistorySection =
     showHistory &&
     searchHistory.length > 0 &&
@@ -317,6 +444,16 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
         )}
       </View>
 
+      {/* Offline notice */}
+      {!isOnline && (
+        <View style={styles.offlineBanner}>
+          <Text style={styles.offlineBannerText}>
+            You&apos;re offline — searching saved places, recent searches and
+            cached results
+          </Text>
+        </View>
+      )}
+
       {/* Loading Indicator */}
       {searchState.isLoading && (
         <View style={styles.loadingContainer}>
@@ -341,7 +478,9 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
       {/* Search Results */}
       {searchState.showResults && searchState.results.length > 0 && (
         <View style={styles.resultsContainer}>
-          <Text style={styles.sectionTitle}>Search Results</Text>
+          <Text style={styles.sectionTitle}>
+            {isOnline ? "Search Results" : "Offline Results"}
+          </Text>
           <FlatList
             data={searchState.results}
             renderItem={renderSearchResult}
@@ -352,6 +491,39 @@ const AddressSearchComponent: React.FC<AddressSearchComponentProps> = ({
         </View>
       )}
 
+      {/* Quick chips for favourite and categorised places */}
+      {showQuickChips && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.quickChips}
+          contentContainerStyle={styles.quickChipsContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {quickDestinations.map((destination) => (
+            <TouchableOpacity
+              key={destination.id}
+              style={styles.quickChip}
+              onPress={() =>
+                handleSelectResult(destinationToResult(destination))
+              }
+              accessibilityRole="button"
+              accessibilityLabel={`Go to ${destination.name}`}
+            >
+              {destination.category && (
+                <Text style={styles.quickChipCategory}>
+                  {destination.category}
+                </Text>
+              )}
+              <Text style={styles.quickChipName} numberOfLines={1}>
+                {destination.pinned ? "★ " : ""}
+                {destination.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Search History — shown above the pin */}
       {showHistorySection && (
         <View style={styles.historyContainer}>
@@ -425,6 +597,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "rgba(255,255,255,0.7)",
   },
+  offlineBanner: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "rgba(0,0,0,0.25)",
+  },
+  offlineBannerText: {
+    color: "rgba(255,255,255,0.85)",
+    fontSize: 13,
+    textAlign: "center",
+  },
   loadingContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -500,6 +684,34 @@ const styles = StyleSheet.create({
     color: "rgba(255,255,255,0.5)",
     textTransform: "capitalize",
   },
+  quickChips: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  quickChipsContent: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  quickChip: {
+    maxWidth: 180,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+    backgroundColor: "rgba(255,255,255,0.15)",
+  },
+  quickChipCategory: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "rgba(255,255,255,0.65)",
+    textTransform: "uppercase",
+  },
+  quickChipName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
   historyContainer: {
     flex: 1,
     paddingHorizontal: 16,
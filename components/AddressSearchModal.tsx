@@ -2,13 +2,17 @@ import { LinearGradient } from "expo-linear-gradient";
 import React, { useEffect } from "react";
 import { Modal, StyleSheet, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { nominatimService } from "../services/NominatimService";
 import {
   useAppDispatch,
   useCurrentLocation,
+  useIsOnline,
+  useSavedDestinations,
   useSearchHistory,
 } from "../store/hooks";
 import {
   addToSearchHistory,
+  loadSavedDestinations,
   loadSearchHistory,
 } from "../store/slices/destinationSlice";
 import { AddressSearchResult, Destination } from "../types";
@@ -29,11 +33,16 @@ const AddressSearchModal: React.FC<AddressSearchModalProps> = ({
   const dispatch = useAppDispatch();
   const searchHistory = useSearchHistory();
   const currentLocation = useCurrentLocation();
+  const savedDestinations = useSavedDestinations();
+  const isOnline = useIsOnline();
 
-  // Load search history when modal opens
+  // Load search history and saved places (used offline) when modal opens
   useEffect(() => {
     if (visible) {
       dispatch(loadSearchHistory());
+      dispatch(loadSavedDestinations());
+      // Have persisted geocoding results ready for offline search
+      nominatimService.warmCache();
     }
   }, [visible, dispatch]);
 
@@ -89,6 +98,8 @@ const AddressSearchModal: React.FC<AddressSearchModalProps> = ({
               onAddToHistory={handleAddToHistory}
               showHistory={true}
               currentLocation={currentLocation}
+              isOnline={isOnline}
+              savedDestinations={savedDestinations}
             />
           </View>
         </SafeAreaView>
@@ -3,21 +3,35 @@ import { Ionicons } from "@expo/vector-icons";
 import React from "react";
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { Alarm, Coordinate } from "../types";
+import {
+  calculateEtaSeconds,
+  formatEta,
+  getEffectiveTriggerRadius,
+} from "../utils";
 import { haptics } from "../utils/Haptics";
 
 interface AlarmStatusCardProps {
   alarm: Alarm;
   distance: number | null;
+  stopsRemaining?: number | null; // only set for transit alarms
+  speed?: number | null; // m/s, from recent location fixes
   currentLocation: Coordinate | null;
   onCancel: () => void;
+  onEdit?: () => void;
 }
 
 const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
   alarm,
   distance,
+  stopsRemaining = null,
+  speed = null,
   currentLocation,
   onCancel,
+  onEdit,
 }) => {
+  const transit = alarm.type === "transit" ? alarm.transit : undefined;
+  const isDeparture = alarm.type === "departure";
+  const triggerRadius = getEffectiveTriggerRadius(alarm);
   // Format the creation time
   const formatTime = (date: Date): string => {
     return date.toLocaleTimeString([], {
@@ -42,26 +56,35 @@ const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
     });
   };
 
-  // Format the estimated time of arrival
+  // Format the estimated time of arrival from the measured speed. Transit
+  // alarms fall back to a typical metro speed until we have a fix.
   const getEtaText = (): string => {
     if (distance === null) return "Calculating...";
     const metroSpeedMps = 11;
-    const timeInSeconds = distance / metroSpeedMps;
-    if (timeInSeconds < 60) return `${Math.round(timeInSeconds)} sec`;
-
-    const totalMinutes = Math.round(timeInSeconds / 60);
-    if (totalMinutes < 60) return `${totalMinutes} min`;
-
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    return minutes > 0 ? `${hours} hr ${minutes} min` : `${hours} hr`;
+    const etaSeconds = calculateEtaSeconds(
+      distance,
+      speed ?? (transit ? metroSpeedMps : null),
+    );
+    return etaSeconds === null ? "Calculating..." : formatEta(etaSeconds);
   };
 
-  // Get status color based on distance
+  // Get status color based on distance, or stops left for transit alarms
   const getStatusColor = (): string => {
-    if (!distance) return "#8E8E93";
+    if (transit) {
+      if (stopsRemaining === null) return "#8E8E93";
+      if (stopsRemaining <= transit.stopsBefore) return "#FF3B30";
+      if (stopsRemaining <= transit.stopsBefore + 2) return "#FF9500";
+      return "#34C759";
+    }
+
+    if (distance === null) return "#8E8E93";
+
+    // Departure alarms are armed while inside and fire on leaving
+    if (isDeparture) {
+      return distance <= triggerRadius ? "#FF9500" : "#8E8E93";
+    }
 
-    if (distance <= alarm.settings.triggerRadius) {
+    if (distance <= triggerRadius) {
       return "#FF3B30"; // Red - very close
     } else if (distance <= alarm.settings.triggerRadius * 2) {
       return "#FF9500"; // Orange - approaching
@@ -72,11 +95,26 @@ const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
     }
   };
 
-  // Get status text based on distance
+  // Get status text based on distance, or stops left for transit alarms
   const getStatusText = (): string => {
-    if (!distance) return "Calculating...";
+    if (transit) {
+      if (stopsRemaining === null) return "Calculating...";
+      if (stopsRemaining === 0) return "Destination Reached!";
+      if (stopsRemaining <= transit.stopsBefore) return "Get Ready to Exit";
+      if (stopsRemaining <= transit.stopsBefore + 2)
+        return "Approaching Destination";
+      return "En Route";
+    }
+
+    if (distance === null) return "Calculating...";
+
+    if (isDeparture) {
+      return distance <= triggerRadius
+        ? "Armed Until You Leave"
+        : "Not There Yet";
+    }
 
-    if (distance <= alarm.settings.triggerRadius) {
+    if (distance <= triggerRadius) {
       return "Destination Reached!";
     } else if (distance <= alarm.settings.triggerRadius * 2) {
       return "Approaching Destination";
@@ -103,6 +141,22 @@ const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
           </Text>
         </View>
 
+        {onEdit && (
+          <TouchableOpacity
+            style={styles.editCircle}
+            onPress={() => {
+              haptics.light();
+              onEdit();
+            }}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel="Edit alarm"
+            accessibilityHint="Opens the alarm settings"
+          >
+            <Ionicons name="pencil" size={14} color="#fff" />
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={styles.cancelCircle}
           onPress={() => {
@@ -145,12 +199,61 @@ const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
           </Text>
         </View>
 
-        <View style={styles.detailRow}>
-          <Ionicons name="radio-button-on" size={16} color="#8E8E93" />
-          <Text style={styles.detailText}>
-            Trigger radius: {alarm.settings.triggerRadius}m
-          </Text>
-        </View>
+        {transit ? (
+          <>
+            <View style={styles.detailRow}>
+              <Ionicons name="train" size={16} color="#8E8E93" />
+              <Text style={styles.detailText}>
+                {transit.route.origin.name} → {transit.route.destination.name}
+                {transit.route.transfers.length > 0
+                  ? ` (change at ${transit.route.transfers
+                      .map((transfer) => transfer.station.name)
+                      .join(", ")})`
+                  : ""}
+              </Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Ionicons name="notifications" size={16} color="#8E8E93" />
+              <Text style={styles.detailText}>
+                Wake {transit.stopsBefore} stop
+                {transit.stopsBefore === 1 ? "" : "s"} before destination
+              </Text>
+            </View>
+          </>
+        ) : isDeparture ? (
+          <View style={styles.detailRow}>
+            <Ionicons name="exit-outline" size={16} color="#8E8E93" />
+            <Text style={styles.detailText}>
+              {alarm.destination.area
+                ? "Triggers when you leave the area"
+                : `Triggers when you leave (${alarm.settings.triggerRadius}m radius)`}
+            </Text>
+          </View>
+        ) : alarm.destination.area ? (
+          <View style={styles.detailRow}>
+            <Ionicons name="shapes-outline" size={16} color="#8E8E93" />
+            <Text style={styles.detailText}>
+              {alarm.destination.area.kind === "polygon"
+                ? "Triggers when you enter the area"
+                : "Triggers when you reach the route"}
+            </Text>
+          </View>
+        ) : alarm.settings.triggerMode === "eta" ? (
+          <View style={styles.detailRow}>
+            <Ionicons name="speedometer" size={16} color="#8E8E93" />
+            <Text style={styles.detailText}>
+              Wake {alarm.settings.etaMinutes} min before arrival (or within{" "}
+              {alarm.settings.triggerRadius}m)
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.detailRow}>
+            <Ionicons name="radio-button-on" size={16} color="#8E8E93" />
+            <Text style={styles.detailText}>
+              Trigger radius: {alarm.settings.triggerRadius}m
+            </Text>
+          </View>
+        )}
 
         {alarm.geofenceId && (
           <View style={styles.detailRow}>
@@ -163,6 +266,19 @@ const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
       {/* Distance and ETA Badges */}
       {distance !== null && (
         <View style={styles.badgesContainer}>
+          {transit && stopsRemaining !== null && (
+            <View style={[styles.distanceBadge, styles.stopsBadge]}>
+              <Ionicons
+                name="train"
+                size={14}
+                color="#fff"
+                style={styles.etaIcon}
+              />
+              <Text style={styles.distanceBadgeText}>
+                {stopsRemaining} stop{stopsRemaining === 1 ? "" : "s"} remaining
+              </Text>
+            </View>
+          )}
           <View style={styles.distanceBadge}>
             <Text style={styles.distanceBadgeText}>
               {distance >= 1000
@@ -170,15 +286,17 @@ const AlarmStatusCard: React.FC<AlarmStatusCardProps> = ({
                 : `${Math.round(distance)} m away`}
             </Text>
           </View>
-          <View style={[styles.distanceBadge, styles.etaBadge]}>
-            <Ionicons
-              name="time"
-              size={14}
-              color="#fff"
-              style={styles.etaIcon}
-            />
-            <Text style={styles.distanceBadgeText}>~{getEtaText()}</Text>
-          </View>
+          {!isDeparture && (
+            <View style={[styles.distanceBadge, styles.etaBadge]}>
+              <Ionicons
+                name="time"
+                size={14}
+                color="#fff"
+                style={styles.etaIcon}
+              />
+              <Text style={styles.distanceBadgeText}>~{getEtaText()}</Text>
+            </View>
+          )}
         </View>
       )}
     </View>
@@ -272,6 +390,15 @@ const styles = StyleSheet.create({
     color: "#8E8E93",
     marginLeft: 8,
   },
+  editCircle: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 8,
+  },
   cancelCircle: {
     width: 28,
     height: 28,
@@ -298,6 +425,9 @@ const styles = StyleSheet.create({
   etaBadge: {
     backgroundColor: "#5856D6",
   },
+  stopsBadge: {
+    backgroundColor: "#FF9500",
+  },
   etaIcon: {
     marginRight: 4,
   },
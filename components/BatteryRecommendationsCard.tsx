@@ -0,0 +1,91 @@
+// Battery advice shown alongside active alarms
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { BatteryRecommendation } from "../types";
+
+interface BatteryRecommendationsCardProps {
+  recommendations: BatteryRecommendation[];
+}
+
+const ICONS: Record<
+  BatteryRecommendation["type"],
+  keyof typeof Ionicons.glyphMap
+> = {
+  warning: "battery-dead",
+  suggestion: "leaf",
+  info: "information-circle",
+};
+
+const ACCENTS: Record<BatteryRecommendation["type"], string> = {
+  warning: "#FFCC00",
+  suggestion: "#34C759",
+  info: "rgba(255,255,255,0.8)",
+};
+
+const BatteryRecommendationsCard: React.FC<BatteryRecommendationsCardProps> = ({
+  recommendations,
+}) => {
+  if (recommendations.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {recommendations.map((recommendation, index) => (
+        <View
+          key={`${recommendation.type}_${recommendation.title}`}
+          style={[styles.row, index > 0 && styles.rowDivider]}
+        >
+          <Ionicons
+            name={ICONS[recommendation.type]}
+            size={20}
+            color={ACCENTS[recommendation.type]}
+          />
+          <View style={styles.textContainer}>
+            <Text
+              style={[styles.title, { color: ACCENTS[recommendation.type] }]}
+            >
+              {recommendation.title}
+            </Text>
+            <Text style={styles.message}>{recommendation.message}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "rgba(0,0,0,0.2)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.18)",
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    paddingVertical: 14,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.12)",
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
+  message: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.75)",
+    lineHeight: 18,
+  },
+});
+
+export default BatteryRecommendationsCard;
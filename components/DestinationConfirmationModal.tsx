@@ -1,6 +1,6 @@
 // Destination confirmation modal component
 import { LinearGradient } from "expo-linear-gradient";
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -14,12 +14,15 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useDispatch } from "react-redux";
+import MapComponent from "./MapComponent";
+import TriggerRadiusSlider from "./TriggerRadiusSlider";
 import { nominatimService } from "../services/NominatimService";
 import { saveDestination } from "../store/slices/destinationSlice";
-import { Coordinate, Destination } from "../types";
+import { AlarmType, Coordinate, Destination, DestinationArea } from "../types";
 import {
   formatCoordinate,
   generateId,
+  getNearestValidTriggerRadius,
   sanitizeDestinationName,
   validateDestination,
 } from "../utils";
@@ -27,12 +30,24 @@ import {
 interface DestinationConfirmationModalProps {
   visible: boolean;
   coordinate: Coordinate | null;
-  onConfirm: (destination: Destination) => void;
+  onConfirm: (
+    destination: Destination,
+    triggerRadius: number,
+    alarmType: DestinationAlarmType,
+  ) => void;
   onCancel: () => void;
   initialName?: string;
   initialAddress?: string;
+  initialTriggerRadius?: number;
+  area?: DestinationArea | null; // drawn area; coordinate is then its centre
 }
 
+// Alarms set from this modal fire on arriving or on leaving
+export type DestinationAlarmType = Exclude<AlarmType, "transit">;
+
+// Stand-in region until the preview map frames the trigger circle
+const PREVIEW_REGION_DELTA = 0.02;
+
 const DestinationConfirmationModal: React.FC<
   DestinationConfirmationModalProps
 > = ({
@@ -42,8 +57,12 @@ const DestinationConfirmationModal: React.FC<
   onCancel,
   initialName,
   initialAddress,
+  initialTriggerRadius = 500,
+  area = null,
 }) => {
   const dispatch = useDispatch();
+  const [triggerRadius, setTriggerRadius] = useState(initialTriggerRadius);
+  const [alarmType, setAlarmType] = useState<DestinationAlarmType>("radius");
   const [destinationName, setDestinationName] = useState("");
   const [address, setAddress] = useState("");
   const [isLoadingAddress, setIsLoadingAddress] = useState(false);
@@ -71,6 +90,8 @@ const DestinationConfirmationModal: React.FC<
       setAddress(initialAddress || formatCoordinate(coordinate));
       setAddToFavourites(false);
       setValidationErrors([]);
+      setTriggerRadius(getNearestValidTriggerRadius(initialTriggerRadius));
+      setAlarmType("radius");
 
       // Only load address from coordinate if not already provided
       if (!initialAddress) {
@@ -90,7 +111,22 @@ const DestinationConfirmationModal: React.FC<
       setValidationErrors([]);
       setIsLoadingAddress(false);
     }
-  }, [visible, coordinate, initialName, initialAddress]);
+  }, [visible, coordinate, initialName, initialAddress, initialTriggerRadius]);
+
+  // Marker for the preview map; only the coordinate matters
+  const previewDestination = useMemo<Destination | null>(
+    () =>
+      coordinate
+        ? {
+            id: "preview",
+            name: "",
+            coordinate,
+            area: area ?? undefined,
+            createdAt: new Date(0).toISOString(),
+          }
+        : null,
+    [coordinate, area],
+  );
 
   /**
    * Load address from coordinate using reverse geocoding
@@ -148,6 +184,7 @@ const DestinationConfirmationModal: React.FC<
       name: destinationName,
       coordinate,
       address,
+      area: area ?? undefined,
     };
 
     const validation = validateDestination(destination);
@@ -170,10 +207,11 @@ const DestinationConfirmationModal: React.FC<
         name: sanitizeDestinationName(destinationName),
         coordinate,
         address: address.trim() || undefined,
+        area: area ?? undefined,
         createdAt: new Date().toISOString(),
       };
 
-      onConfirm(destination);
+      onConfirm(destination, triggerRadius, alarmType);
     }
   };
 
@@ -188,6 +226,7 @@ const DestinationConfirmationModal: React.FC<
         name: sanitizeDestinationName(destinationName),
         coordinate,
         address: address.trim() || undefined,
+        area: area ?? undefined,
       };
 
       const result = await dispatch(saveDestination(destinationData) as any);
@@ -195,7 +234,7 @@ const DestinationConfirmationModal: React.FC<
       if (result.type === "destinations/save/fulfilled") {
         const savedDestination = result.payload as Destination;
 
-        onConfirm(savedDestination);
+        onConfirm(savedDestination, triggerRadius, alarmType);
       } else {
         throw new Error(result.error?.message || "Failed to save destination");
       }
@@ -277,6 +316,80 @@ const DestinationConfirmationModal: React.FC<
               )}
             </View>
 
+            {/* Arriving or leaving */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Alarm When</Text>
+              <View style={styles.optionRow}>
+                {(
+                  [
+                    ["radius", "Arriving"],
+                    ["departure", "Leaving"],
+                  ] as const
+                ).map(([type, label]) => {
+                  const selected = alarmType === type;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.optionButton,
+                        selected && styles.optionActive,
+                      ]}
+                      onPress={() => setAlarmType(type)}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Text
+                        style={[
+                          styles.optionText,
+                          selected && styles.optionActiveText,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Trigger radius, previewed live on the map. Areas fire on
+                entry or exit, so they have no radius to set. */}
+            <View style={styles.mapPreview}>
+              <MapComponent
+                currentLocation={null}
+                selectedDestination={previewDestination}
+                mapRegion={{
+                  latitude: coordinate.latitude,
+                  longitude: coordinate.longitude,
+                  latitudeDelta: PREVIEW_REGION_DELTA,
+                  longitudeDelta: PREVIEW_REGION_DELTA,
+                }}
+                onMapPress={() => {}}
+                onMapReady={() => {}}
+                triggerRadius={triggerRadius}
+                interactive={false}
+              />
+            </View>
+            {area ? (
+              <Text style={styles.areaHint}>
+                {alarmType === "departure"
+                  ? `The alarm triggers when you leave this ${area.kind === "polygon" ? "area" : "stretch of the route"}`
+                  : area.kind === "polygon"
+                    ? "The alarm triggers when you enter this area"
+                    : "The alarm triggers when you reach this stretch of the route"}
+              </Text>
+            ) : (
+              <TriggerRadiusSlider
+                value={triggerRadius}
+                onValueChange={setTriggerRadius}
+                description={
+                  alarmType === "departure"
+                    ? "How far you go before the alarm triggers"
+                    : "How close to your destination before the alarm triggers"
+                }
+              />
+            )}
+
             {/* Coordinate Display */}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Coordinates</Text>
@@ -388,6 +501,42 @@ const styles = StyleSheet.create({
   inputGroup: {
     marginBottom: 16,
   },
+  mapPreview: {
+    height: 180,
+    borderRadius: 12,
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    backgroundColor: "rgba(255,255,255,0.15)",
+    alignItems: "center",
+  },
+  optionActive: {
+    backgroundColor: "#fff",
+    borderColor: "#fff",
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  optionActiveText: {
+    color: "#b9221d",
+  },
+  areaHint: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.65)",
+    marginBottom: 16,
+  },
   label: {
     fontSize: 16,
     fontWeight: "600",
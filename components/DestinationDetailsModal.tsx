@@ -0,0 +1,464 @@
+// Details modal for a saved destination's category, tags, favourite flag and
+// alarm settings
+import { LinearGradient } from "expo-linear-gradient";
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ALARM_ESCALATION_PROFILES } from "../services/AlarmEscalationPolicy";
+import {
+  AlarmEscalationProfile,
+  AlarmSettings,
+  Destination,
+  VALIDATION_CONSTANTS,
+} from "../types";
+import { getNearestValidTriggerRadius, parseTagInput } from "../utils";
+import { haptics } from "../utils/Haptics";
+import TriggerRadiusSlider from "./TriggerRadiusSlider";
+
+export type DestinationDetails = Pick<
+  Destination,
+  "category" | "tags" | "pinned" | "alarmSettings"
+>;
+
+interface DestinationDetailsModalProps {
+  visible: boolean;
+  destination: Destination | null;
+  categories: string[]; // presets, then custom categories already in use
+  defaultAlarmSettings: AlarmSettings; // the user's defaults, shown until overridden
+  onSave: (details: DestinationDetails) => void;
+  onCancel: () => void;
+}
+
+const DestinationDetailsModal: React.FC<DestinationDetailsModalProps> = ({
+  visible,
+  destination,
+  categories,
+  defaultAlarmSettings,
+  onSave,
+  onCancel,
+}) => {
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [isCustom, setIsCustom] = useState(false);
+  const [customCategory, setCustomCategory] = useState("");
+  const [tagText, setTagText] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [hasOwnAlarmSettings, setHasOwnAlarmSettings] = useState(false);
+  const [triggerRadius, setTriggerRadius] = useState(
+    defaultAlarmSettings.triggerRadius,
+  );
+  const [vibrationEnabled, setVibrationEnabled] = useState(
+    defaultAlarmSettings.vibrationEnabled,
+  );
+  const [escalationProfile, setEscalationProfile] = useState<
+    AlarmEscalationProfile | undefined
+  >(defaultAlarmSettings.escalationProfile);
+
+  // Area destinations fire on the area's edge, so a radius doesn't apply
+  const hasRadius = !destination?.area;
+
+  // Start from the destination's current details whenever the modal opens
+  useEffect(() => {
+    if (!visible || !destination) return;
+
+    setCategory(destination.category);
+    setIsCustom(false);
+    setCustomCategory("");
+    setTagText((destination.tags ?? []).join(", "));
+    setPinned(Boolean(destination.pinned));
+
+    const settings = { ...defaultAlarmSettings, ...destination.alarmSettings };
+    setHasOwnAlarmSettings(Boolean(destination.alarmSettings));
+    setTriggerRadius(getNearestValidTriggerRadius(settings.triggerRadius));
+    setVibrationEnabled(settings.vibrationEnabled);
+    setEscalationProfile(settings.escalationProfile);
+  }, [visible, destination, defaultAlarmSettings]);
+
+  const selectCategory = (value: string | undefined) => {
+    haptics.selection();
+    setIsCustom(false);
+    setCategory(value);
+  };
+
+  const selectCustom = () => {
+    haptics.selection();
+    setIsCustom(true);
+  };
+
+  const handleSave = () => {
+    haptics.medium();
+    onSave({
+      category: isCustom ? customCategory.trim() || undefined : category,
+      tags: parseTagInput(tagText),
+      pinned,
+      alarmSettings: hasOwnAlarmSettings
+        ? {
+            ...(hasRadius ? { triggerRadius } : {}),
+            vibrationEnabled,
+            escalationProfile,
+          }
+        : undefined,
+    });
+  };
+
+  const renderCategoryChip = (label: string, value: string | undefined) => {
+    const selected = !isCustom && category === value;
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.chip, selected && styles.chipActive]}
+        onPress={() => selectCategory(value)}
+        accessibilityRole="radio"
+        accessibilityState={{ selected }}
+      >
+        <Text style={[styles.chipText, selected && styles.chipActiveText]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <LinearGradient
+        colors={["rgba(130, 26, 25, 0.8)", "rgba(232, 47, 45, 0.48)"]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 0, y: 1 }}
+        style={styles.gradientContainer}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Edit Destination</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onCancel}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+              accessibilityHint="Closes the modal"
+              hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            {destination && (
+              <Text style={styles.destinationName}>{destination.name}</Text>
+            )}
+
+            {/* Favourite */}
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.label}>Favourite</Text>
+                <Text style={styles.hint}>
+                  Pinned to the top of your destinations and search
+                </Text>
+              </View>
+              <Switch
+                value={pinned}
+                onValueChange={setPinned}
+                trackColor={{ false: "rgba(255,255,255,0.3)", true: "#fff" }}
+                thumbColor={pinned ? "#b9221d" : "#f4f3f4"}
+              />
+            </View>
+
+            {/* Category */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Category</Text>
+              <View style={styles.chipRow}>
+                {renderCategoryChip("None", undefined)}
+                {categories.map((name) => renderCategoryChip(name, name))}
+                <TouchableOpacity
+                  style={[styles.chip, isCustom && styles.chipActive]}
+                  onPress={selectCustom}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isCustom }}
+                >
+                  <Text
+                    style={[styles.chipText, isCustom && styles.chipActiveText]}
+                  >
+                    + New
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {isCustom && (
+                <TextInput
+                  style={styles.textInput}
+                  value={customCategory}
+                  onChangeText={setCustomCategory}
+                  placeholder="e.g. Gym"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  maxLength={VALIDATION_CONSTANTS.MAX_CATEGORY_LENGTH}
+                  autoFocus
+                />
+              )}
+            </View>
+
+            {/* Tags */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Tags</Text>
+              <TextInput
+                style={styles.textInput}
+                value={tagText}
+                onChangeText={setTagText}
+                placeholder="e.g. commute, late night"
+                placeholderTextColor="rgba(255,255,255,0.5)"
+                autoCapitalize="none"
+              />
+              <Text style={styles.hint}>
+                {`Separate tags with commas, up to ${VALIDATION_CONSTANTS.MAX_TAGS}`}
+              </Text>
+            </View>
+
+            {/* Alarm settings */}
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.label}>Own alarm settings</Text>
+                <Text style={styles.hint}>
+                  {hasOwnAlarmSettings
+                    ? "Used whenever an alarm is set for this place"
+                    : "Alarms here use your default settings"}
+                </Text>
+              </View>
+              <Switch
+                value={hasOwnAlarmSettings}
+                onValueChange={setHasOwnAlarmSettings}
+                trackColor={{ false: "rgba(255,255,255,0.3)", true: "#fff" }}
+                thumbColor={hasOwnAlarmSettings ? "#b9221d" : "#f4f3f4"}
+              />
+            </View>
+            {hasOwnAlarmSettings && (
+              <>
+                {hasRadius && (
+                  <TriggerRadiusSlider
+                    value={triggerRadius}
+                    onValueChange={setTriggerRadius}
+                  />
+                )}
+
+                <View style={styles.switchRow}>
+                  <Text style={[styles.label, styles.switchText]}>
+                    Vibration
+                  </Text>
+                  <Switch
+                    value={vibrationEnabled}
+                    onValueChange={setVibrationEnabled}
+                    trackColor={{
+                      false: "rgba(255,255,255,0.3)",
+                      true: "#fff",
+                    }}
+                    thumbColor={vibrationEnabled ? "#b9221d" : "#f4f3f4"}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Alarm Escalation</Text>
+                  <View style={styles.chipRow}>
+                    {Object.values(ALARM_ESCALATION_PROFILES).map((profile) => {
+                      const selected = escalationProfile === profile.id;
+                      return (
+                        <TouchableOpacity
+                          key={profile.id}
+                          style={[styles.chip, selected && styles.chipActive]}
+                          onPress={() => {
+                            haptics.selection();
+                            setEscalationProfile(profile.id);
+                          }}
+                          accessibilityRole="radio"
+                          accessibilityState={{ selected }}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              selected && styles.chipActiveText,
+                            ]}
+                          >
+                            {profile.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.confirmButton} onPress={handleSave}>
+              <Text style={styles.confirmButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  gradientContainer: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255,255,255,0.25)",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  closeButton: {
+    minWidth: 44,
+    minHeight: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: "#fff",
+  },
+  scrollArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  destinationName: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#fff",
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.65)",
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    backgroundColor: "rgba(255,255,255,0.15)",
+  },
+  chipActive: {
+    backgroundColor: "#fff",
+    borderColor: "#fff",
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  chipActiveText: {
+    color: "#b9221d",
+  },
+  textInput: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    borderRadius: 8,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#fff",
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.25)",
+    justifyContent: "space-between",
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+  },
+  cancelButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: "#fff",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    color: "#b9221d",
+    fontSize: 16,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+});
+
+export default DestinationDetailsModal;
@@ -0,0 +1,223 @@
+// Import / export modal for moving saved destinations in and out as files
+import { LinearGradient } from "expo-linear-gradient";
+import React from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { DestinationFileFormat } from "../types";
+import { DESTINATION_FILE_FORMATS } from "../utils/DestinationFormats";
+
+interface DestinationTransferModalProps {
+  visible: boolean;
+  destinationCount: number;
+  busy: boolean;
+  onExport: (format: DestinationFileFormat) => void;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+const FORMAT_HINTS: Record<DestinationFileFormat, string> = {
+  gpx: "Waypoints for GPS and hiking apps",
+  kml: "Placemarks for Google Earth and My Maps",
+  geojson: "Keeps drawn areas and route corridors",
+};
+
+const DestinationTransferModal: React.FC<DestinationTransferModalProps> = ({
+  visible,
+  destinationCount,
+  busy,
+  onExport,
+  onImport,
+  onClose,
+}) => {
+  const formats = Object.keys(
+    DESTINATION_FILE_FORMATS,
+  ) as DestinationFileFormat[];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <LinearGradient
+        colors={["rgba(130, 26, 25, 0.8)", "rgba(232, 47, 45, 0.48)"]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 0, y: 1 }}
+        style={styles.gradientContainer}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Import / Export</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onClose}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+              accessibilityHint="Closes the modal"
+              hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={styles.content}
+          >
+            {/* Export */}
+            <View style={styles.section}>
+              <Text style={styles.label}>Export</Text>
+              <Text style={styles.hint}>
+                {destinationCount === 0
+                  ? "Save a destination first to export it."
+                  : `Share all ${destinationCount} saved destination${destinationCount === 1 ? "" : "s"} as a file.`}
+              </Text>
+              {formats.map((format) => (
+                <TouchableOpacity
+                  key={format}
+                  style={[
+                    styles.formatButton,
+                    (busy || destinationCount === 0) && styles.disabledButton,
+                  ]}
+                  onPress={() => onExport(format)}
+                  disabled={busy || destinationCount === 0}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Export as ${DESTINATION_FILE_FORMATS[format].label}`}
+                >
+                  <Text style={styles.formatButtonText}>
+                    {DESTINATION_FILE_FORMATS[format].label}
+                  </Text>
+                  <Text style={styles.formatButtonHint}>
+                    {FORMAT_HINTS[format]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Import */}
+            <View style={styles.section}>
+              <Text style={styles.label}>Import</Text>
+              <Text style={styles.hint}>
+                Add destinations from a GPX, KML or GeoJSON file. Places already
+                saved nearby are skipped.
+              </Text>
+              <TouchableOpacity
+                style={[styles.importButton, busy && styles.disabledButton]}
+                onPress={onImport}
+                disabled={busy}
+                accessibilityRole="button"
+              >
+                {busy ? (
+                  <ActivityIndicator color="#b9221d" />
+                ) : (
+                  <Text style={styles.importButtonText}>Choose File</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  gradientContainer: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255,255,255,0.25)",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  closeButton: {
+    minWidth: 44,
+    minHeight: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: "#fff",
+  },
+  scrollArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.65)",
+    marginBottom: 12,
+  },
+  formatButton: {
+    backgroundColor: "rgba(255,255,255,0.15)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  formatButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  formatButtonHint: {
+    color: "rgba(255,255,255,0.65)",
+    fontSize: 13,
+    marginTop: 2,
+  },
+  importButton: {
+    backgroundColor: "#fff",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  importButtonText: {
+    color: "#b9221d",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default DestinationTransferModal;
@@ -0,0 +1,418 @@
+// Edit modal for changing an active alarm
+import { LinearGradient } from "expo-linear-gradient";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ALARM_ESCALATION_PROFILES } from "../services/AlarmEscalationPolicy";
+import { AlarmUpdate } from "../services/AlarmManager";
+import { Alarm, AlarmEscalationProfile } from "../types";
+import { validateDestination } from "../utils";
+import { haptics } from "../utils/Haptics";
+import MapComponent from "./MapComponent";
+import TriggerRadiusSlider from "./TriggerRadiusSlider";
+
+interface EditAlarmModalProps {
+  visible: boolean;
+  alarm: Alarm | null;
+  isSaving?: boolean;
+  onSave: (update: AlarmUpdate) => void;
+  onCancel: () => void;
+}
+
+// Stand-in region until the preview map frames the trigger circle
+const PREVIEW_REGION_DELTA = 0.02;
+
+const EditAlarmModal: React.FC<EditAlarmModalProps> = ({
+  visible,
+  alarm,
+  isSaving = false,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState("");
+  const [triggerRadius, setTriggerRadius] = useState(500);
+  const [vibrationEnabled, setVibrationEnabled] = useState(true);
+  const [persistentNotification, setPersistentNotification] = useState(true);
+  const [escalationProfile, setEscalationProfile] =
+    useState<AlarmEscalationProfile>("standard");
+
+  // Start from the alarm's current values whenever the modal opens
+  useEffect(() => {
+    if (!visible || !alarm) return;
+
+    setName(alarm.destination.name);
+    setTriggerRadius(alarm.settings.triggerRadius);
+    setVibrationEnabled(alarm.settings.vibrationEnabled);
+    setPersistentNotification(alarm.settings.persistentNotification);
+    setEscalationProfile(alarm.settings.escalationProfile ?? "standard");
+  }, [visible, alarm]);
+
+  if (!alarm) {
+    return null;
+  }
+
+  const validation = validateDestination({ ...alarm.destination, name });
+  const isTransit = alarm.type === "transit";
+  // Areas fire on entry, so there is no radius to change
+  const hasRadius = !isTransit && !alarm.destination.area;
+
+  const handleSave = () => {
+    if (!validation.isValid) return;
+    haptics.medium();
+    onSave({
+      destinationName: name,
+      settings: {
+        triggerRadius,
+        vibrationEnabled,
+        persistentNotification,
+        escalationProfile,
+      },
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <LinearGradient
+        colors={["rgba(130, 26, 25, 0.8)", "rgba(232, 47, 45, 0.48)"]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 0, y: 1 }}
+        style={styles.gradientContainer}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Edit Alarm</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onCancel}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+              accessibilityHint="Closes the modal"
+              hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Name */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Destination Name</Text>
+              <TextInput
+                style={styles.textInput}
+                value={name}
+                onChangeText={setName}
+                placeholder="Enter destination name"
+                placeholderTextColor="rgba(255,255,255,0.6)"
+                maxLength={100}
+                autoCapitalize="words"
+              />
+            </View>
+
+            {/* Radius, previewed live on the map. Transit alarms fire by
+                stops, so their radius only sizes the backup geofence. */}
+            {hasRadius && (
+              <>
+                <View style={styles.mapPreview}>
+                  <MapComponent
+                    currentLocation={null}
+                    selectedDestination={alarm.destination}
+                    mapRegion={{
+                      latitude: alarm.destination.coordinate.latitude,
+                      longitude: alarm.destination.coordinate.longitude,
+                      latitudeDelta: PREVIEW_REGION_DELTA,
+                      longitudeDelta: PREVIEW_REGION_DELTA,
+                    }}
+                    onMapPress={() => {}}
+                    onMapReady={() => {}}
+                    triggerRadius={triggerRadius}
+                    interactive={false}
+                  />
+                </View>
+                <TriggerRadiusSlider
+                  value={triggerRadius}
+                  onValueChange={setTriggerRadius}
+                  description={
+                    alarm.type === "departure"
+                      ? "How far you go before the alarm triggers"
+                      : alarm.settings.triggerMode === "eta"
+                        ? "The alarm always triggers this close, even if your speed is unknown"
+                        : "How close to your destination before the alarm triggers"
+                  }
+                />
+              </>
+            )}
+
+            {/* Toggles */}
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Vibration</Text>
+              <Switch
+                value={vibrationEnabled}
+                onValueChange={setVibrationEnabled}
+                trackColor={{ false: "rgba(255,255,255,0.3)", true: "#fff" }}
+                thumbColor={vibrationEnabled ? "#b9221d" : "#f4f3f4"}
+              />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Persistent Notification</Text>
+              <Switch
+                value={persistentNotification}
+                onValueChange={setPersistentNotification}
+                trackColor={{ false: "rgba(255,255,255,0.3)", true: "#fff" }}
+                thumbColor={persistentNotification ? "#b9221d" : "#f4f3f4"}
+              />
+            </View>
+
+            {/* Escalation */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Alarm Escalation</Text>
+              <View style={styles.optionRow}>
+                {Object.values(ALARM_ESCALATION_PROFILES).map((profile) => {
+                  const selected = escalationProfile === profile.id;
+                  return (
+                    <TouchableOpacity
+                      key={profile.id}
+                      style={[
+                        styles.optionButton,
+                        selected && styles.optionActive,
+                      ]}
+                      onPress={() => {
+                        haptics.selection();
+                        setEscalationProfile(profile.id);
+                      }}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Text
+                        style={[
+                          styles.optionText,
+                          selected && styles.optionActiveText,
+                        ]}
+                      >
+                        {profile.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.hint}>
+                {ALARM_ESCALATION_PROFILES[escalationProfile].description}
+              </Text>
+            </View>
+
+            {!validation.isValid && (
+              <View style={styles.errorContainer}>
+                {validation.errors.map((error) => (
+                  <Text key={error} style={styles.errorText}>
+                    {error}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.confirmButton,
+                (!validation.isValid || isSaving) && styles.disabledButton,
+              ]}
+              onPress={handleSave}
+              disabled={!validation.isValid || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#b9221d" />
+              ) : (
+                <Text style={styles.confirmButtonText}>Save Changes</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  gradientContainer: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255,255,255,0.25)",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  closeButton: {
+    minWidth: 44,
+    minHeight: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: "#fff",
+  },
+  scrollArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.65)",
+    marginTop: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    borderRadius: 8,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#fff",
+  },
+  mapPreview: {
+    height: 180,
+    borderRadius: 12,
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+  },
+  optionRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    backgroundColor: "rgba(255,255,255,0.15)",
+    alignItems: "center",
+  },
+  optionActive: {
+    backgroundColor: "#fff",
+    borderColor: "#fff",
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  optionActiveText: {
+    color: "#b9221d",
+  },
+  errorContainer: {
+    backgroundColor: "#ffebee",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ffcdd2",
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.25)",
+    justifyContent: "space-between",
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+  },
+  cancelButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: "#fff",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    color: "#b9221d",
+    fontSize: 16,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  disabledButton: {
+    backgroundColor: "#ccc",
+  },
+});
+
+export default EditAlarmModal;
@@ -1,10 +1,17 @@
 // Map component wrapper for React Native Maps
 import React, { useEffect, useRef } from "react";
 import { StyleSheet } from "react-native";
-import MapView, { Circle, LatLng, Marker, Region } from "react-native-maps";
+import MapView, {
+  Circle,
+  LatLng,
+  Marker,
+  Polygon,
+  Polyline,
+  Region,
+} from "react-native-maps";
 import { useAppDispatch } from "../store/hooks";
 import { setMapReady, setMapRegion } from "../store/slices/uiSlice";
-import { Coordinate, Destination } from "../types";
+import { Coordinate, Destination, DestinationArea } from "../types";
 
 interface MapComponentProps {
   currentLocation: Coordinate | null;
@@ -15,8 +22,53 @@ interface MapComponentProps {
   shouldFitMarkers?: boolean;
   shouldCenterOnLocation?: boolean;
   triggerRadius?: number; // in metres
+  interactive?: boolean; // false for a fixed preview framed on the trigger circle
+  draftArea?: DestinationArea | null; // area being drawn, not yet a destination
 }
 
+// Degrees of latitude per metre, for framing the trigger circle
+const DEGREES_PER_METRE = 1 / 111_320;
+
+const AREA_STROKE_COLOR = "rgba(240, 169, 166, 0.9)";
+const AREA_FILL_COLOR = "rgba(185, 34, 29, 0.15)";
+
+// Polygon or corridor outline. Corridors are drawn as their centre line with
+// a wide translucent stroke, since map strokes are sized in points, not metres.
+const AreaOverlay: React.FC<{ area: DestinationArea; draft?: boolean }> = ({
+  area,
+  draft = false,
+}) => {
+  if (area.kind === "polygon" && area.points.length >= 3) {
+    return (
+      <Polygon
+        coordinates={area.points}
+        strokeWidth={2}
+        strokeColor={AREA_STROKE_COLOR}
+        fillColor={AREA_FILL_COLOR}
+        lineDashPattern={draft ? [8, 6] : undefined}
+      />
+    );
+  }
+
+  return (
+    <>
+      {area.kind === "corridor" && area.points.length >= 2 && (
+        <Polyline
+          coordinates={area.points}
+          strokeWidth={16}
+          strokeColor={AREA_FILL_COLOR}
+        />
+      )}
+      <Polyline
+        coordinates={area.points}
+        strokeWidth={2}
+        strokeColor={AREA_STROKE_COLOR}
+        lineDashPattern={draft ? [8, 6] : undefined}
+      />
+    </>
+  );
+};
+
 const MapComponent: React.FC<MapComponentProps> = ({
   currentLocation,
   selectedDestination,
@@ -26,6 +78,8 @@ const MapComponent: React.FC<MapComponentProps> = ({
   shouldFitMarkers = false,
   shouldCenterOnLocation = false,
   triggerRadius = 500,
+  interactive = true,
+  draftArea = null,
 }) => {
   const mapRef = useRef<MapView>(null);
   const dispatch = useAppDispatch();
@@ -55,15 +109,44 @@ const MapComponent: React.FC<MapComponentProps> = ({
     onMapPress(coordinate);
   };
 
+  // A preview map must not overwrite the main map's state
   const handleMapReady = () => {
-    dispatch(setMapReady(true));
+    if (interactive) {
+      dispatch(setMapReady(true));
+    }
     onMapReady();
   };
 
   const handleRegionChangeComplete = (region: Region) => {
-    dispatch(setMapRegion(region));
+    if (interactive) {
+      dispatch(setMapRegion(region));
+    }
   };
 
+  // Keep the whole trigger circle (or area) in view as the radius changes
+  useEffect(() => {
+    if (interactive || !selectedDestination || !mapRef.current) return;
+
+    if (selectedDestination.area) {
+      mapRef.current.fitToCoordinates(selectedDestination.area.points, {
+        edgePadding: { top: 20, right: 20, bottom: 20, left: 20 },
+        animated: false,
+      });
+      return;
+    }
+
+    const delta = triggerRadius * 2.6 * DEGREES_PER_METRE;
+    mapRef.current.animateToRegion(
+      {
+        latitude: selectedDestination.coordinate.latitude,
+        longitude: selectedDestination.coordinate.longitude,
+        latitudeDelta: delta,
+        longitudeDelta: delta,
+      },
+      200,
+    );
+  }, [interactive, selectedDestination, triggerRadius]);
+
   // Animate to current location when it becomes available (only on initial load)
   useEffect(() => {
     if (
@@ -104,7 +187,12 @@ const MapComponent: React.FC<MapComponentProps> = ({
       selectedDestination &&
       mapRef.current
     ) {
-      const markers = [currentLocation, selectedDestination.coordinate];
+      const markers = [
+        currentLocation,
+        ...(selectedDestination.area?.points ?? [
+          selectedDestination.coordinate,
+        ]),
+      ];
 
       mapRef.current.fitToCoordinates(markers, {
         edgePadding: {
@@ -159,15 +247,15 @@ const MapComponent: React.FC<MapComponentProps> = ({
       onPress={handleMapPress}
       onMapReady={handleMapReady}
       onRegionChangeComplete={handleRegionChangeComplete}
-      showsUserLocation={true}
+      showsUserLocation={interactive}
       showsMyLocationButton={false}
-      showsCompass={true}
+      showsCompass={interactive}
       showsScale={true}
       mapType="standard"
       pitchEnabled={false}
       rotateEnabled={false}
-      scrollEnabled={true}
-      zoomEnabled={true}
+      scrollEnabled={interactive}
+      zoomEnabled={interactive}
     >
       {/* Current location marker (if available and different from user location dot) */}
       {currentLocation && (
@@ -180,7 +268,23 @@ const MapComponent: React.FC<MapComponentProps> = ({
         />
       )}
 
-      {/* Selected destination marker + trigger-radius circle */}
+      {/* Area being drawn, with a dot per tapped point */}
+      {draftArea && (
+        <>
+          <AreaOverlay area={draftArea} draft />
+          {draftArea.points.map((point, index) => (
+            <Circle
+              key={`draft-${index}`}
+              center={point}
+              radius={8}
+              strokeColor={AREA_STROKE_COLOR}
+              fillColor={AREA_STROKE_COLOR}
+            />
+          ))}
+        </>
+      )}
+
+      {/* Selected destination marker + trigger radius circle or area */}
       {selectedDestination && (
         <>
           <Marker
@@ -191,13 +295,17 @@ const MapComponent: React.FC<MapComponentProps> = ({
             identifier="selected-destination"
             calloutAnchor={{ x: 0.5, y: 0 }}
           />
-          <Circle
-            center={selectedDestination.coordinate}
-            radius={triggerRadius}
-            strokeWidth={2}
-            strokeColor="rgba(240, 169, 166, 0.9)"
-            fillColor="rgba(185, 34, 29, 0.15)"
-          />
+          {selectedDestination.area ? (
+            <AreaOverlay area={selectedDestination.area} />
+          ) : (
+            <Circle
+              center={selectedDestination.coordinate}
+              radius={triggerRadius}
+              strokeWidth={2}
+              strokeColor={AREA_STROKE_COLOR}
+              fillColor={AREA_FILL_COLOR}
+            />
+          )}
         </>
       )}
     </MapView>
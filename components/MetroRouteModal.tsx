@@ -0,0 +1,445 @@
+// Metro route planner modal for setting station-sequence alarms
+import { Picker } from "@react-native-picker/picker";
+import { LinearGradient } from "expo-linear-gradient";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { metroService } from "../services/MetroService";
+import { Coordinate, MetroRoute, VALIDATION_CONSTANTS } from "../types";
+import { haptics } from "../utils/Haptics";
+
+interface MetroRouteModalProps {
+  visible: boolean;
+  currentLocation: Coordinate | null;
+  onConfirm: (route: MetroRoute, stopsBefore: number) => void;
+  onCancel: () => void;
+}
+
+// Only preselect the origin when the user is plausibly at a station
+const NEAREST_STATION_MAX_DISTANCE = 2000;
+const DEFAULT_STOPS_BEFORE = 2;
+
+const MetroRouteModal: React.FC<MetroRouteModalProps> = ({
+  visible,
+  currentLocation,
+  onConfirm,
+  onCancel,
+}) => {
+  const stations = useMemo(() => metroService.getStations(), []);
+  const [fromStationId, setFromStationId] = useState(stations[0].id);
+  const [toStationId, setToStationId] = useState(stations[1].id);
+  const [stopsBefore, setStopsBefore] = useState(DEFAULT_STOPS_BEFORE);
+
+  // Preselect the nearest station as origin whenever the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setStopsBefore(DEFAULT_STOPS_BEFORE);
+    if (currentLocation) {
+      const nearest = metroService.findNearestStation(
+        currentLocation,
+        NEAREST_STATION_MAX_DISTANCE,
+      );
+      if (nearest) {
+        setFromStationId(nearest.station.id);
+      }
+    }
+  }, [visible, currentLocation]);
+
+  const { route, routeError } = useMemo(() => {
+    try {
+      return {
+        route: metroService.planRoute(fromStationId, toStationId),
+        routeError: null,
+      };
+    } catch (error) {
+      return {
+        route: null,
+        routeError:
+          error instanceof Error ? error.message : "Unable to plan route",
+      };
+    }
+  }, [fromStationId, toStationId]);
+
+  const maxStopsBefore = route
+    ? Math.min(VALIDATION_CONSTANTS.MAX_STOPS_BEFORE, route.stopCount - 1)
+    : VALIDATION_CONSTANTS.MIN_STOPS_BEFORE;
+  const effectiveStopsBefore = Math.min(stopsBefore, maxStopsBefore);
+  const canConfirm =
+    route !== null &&
+    effectiveStopsBefore >= VALIDATION_CONSTANTS.MIN_STOPS_BEFORE;
+
+  const adjustStopsBefore = (delta: number) => {
+    haptics.selection();
+    setStopsBefore(
+      Math.max(
+        VALIDATION_CONSTANTS.MIN_STOPS_BEFORE,
+        Math.min(maxStopsBefore, effectiveStopsBefore + delta),
+      ),
+    );
+  };
+
+  const handleConfirm = () => {
+    if (!route || !canConfirm) return;
+    haptics.medium();
+    onConfirm(route, effectiveStopsBefore);
+  };
+
+  const renderStationPicker = (
+    label: string,
+    value: string,
+    onChange: (stationId: string) => void,
+  ) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={value}
+          onValueChange={(stationId) => onChange(String(stationId))}
+          style={styles.picker}
+          dropdownIconColor="#fff"
+        >
+          {stations.map((station) => (
+            <Picker.Item
+              key={station.id}
+              label={station.name}
+              value={station.id}
+            />
+          ))}
+        </Picker>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <LinearGradient
+        colors={["rgba(130, 26, 25, 0.8)", "rgba(232, 47, 45, 0.48)"]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 0, y: 1 }}
+        style={styles.gradientContainer}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Metro Alarm</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onCancel}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+              accessibilityHint="Closes the modal"
+              hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={styles.content}
+          >
+            {renderStationPicker("From", fromStationId, setFromStationId)}
+            {renderStationPicker("To", toStationId, setToStationId)}
+
+            {/* Stops-before stepper */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Wake me before</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => adjustStopsBefore(-1)}
+                  disabled={!route}
+                  accessibilityLabel="Fewer stops"
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>
+                  {effectiveStopsBefore} stop
+                  {effectiveStopsBefore === 1 ? "" : "s"}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => adjustStopsBefore(1)}
+                  disabled={!route}
+                  accessibilityLabel="More stops"
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Route summary */}
+            {routeError && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{routeError}</Text>
+              </View>
+            )}
+
+            {route && (
+              <View style={styles.routeCard}>
+                <Text style={styles.routeTitle}>
+                  {route.stopCount} stop{route.stopCount === 1 ? "" : "s"}
+                  {route.transfers.length > 0
+                    ? ` • ${route.transfers.length} change${route.transfers.length > 1 ? "s" : ""}`
+                    : ""}
+                </Text>
+                {route.segments.map((segment, index) => {
+                  const line = metroService.getLine(segment.lineId);
+                  const first = metroService.getStation(segment.stationIds[0]);
+                  const last = metroService.getStation(
+                    segment.stationIds[segment.stationIds.length - 1],
+                  );
+                  return (
+                    <View key={`${segment.lineId}_${index}`}>
+                      {index > 0 && (
+                        <Text style={styles.transferText}>
+                          Change at {first?.name}
+                        </Text>
+                      )}
+                      <View style={styles.segmentRow}>
+                        <View
+                          style={[
+                            styles.lineDot,
+                            { backgroundColor: line?.color || "#fff" },
+                          ]}
+                        />
+                        <Text style={styles.segmentText}>
+                          {line?.name}: {first?.name} → {last?.name} (
+                          {segment.stationIds.length - 1} stop
+                          {segment.stationIds.length === 2 ? "" : "s"})
+                        </Text>
+                      </View>
+                    </View>
+                  );
+                })}
+                {canConfirm && (
+                  <Text style={styles.wakeText}>
+                    Alarm rings at{" "}
+                    {
+                      metroService.getWakeStation(route, effectiveStopsBefore)
+                        .name
+                    }
+                  </Text>
+                )}
+              </View>
+            )}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.confirmButton,
+                !canConfirm && styles.disabledButton,
+              ]}
+              onPress={handleConfirm}
+              disabled={!canConfirm}
+            >
+              <Text style={styles.confirmButtonText}>Set Alarm</Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  gradientContainer: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255,255,255,0.25)",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  closeButton: {
+    minWidth: 44,
+    minHeight: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: "#fff",
+  },
+  scrollArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    borderRadius: 8,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    overflow: "hidden",
+  },
+  picker: {
+    color: "#fff",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    borderRadius: 8,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    padding: 6,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepperButtonText: {
+    fontSize: 22,
+    color: "#fff",
+    fontWeight: "600",
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  routeCard: {
+    backgroundColor: "rgba(255,255,255,0.12)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.25)",
+    borderRadius: 12,
+    padding: 16,
+  },
+  routeTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#fff",
+    marginBottom: 12,
+  },
+  segmentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  lineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  segmentText: {
+    flex: 1,
+    fontSize: 14,
+    color: "rgba(255,255,255,0.9)",
+  },
+  transferText: {
+    fontSize: 13,
+    fontStyle: "italic",
+    color: "rgba(255,255,255,0.7)",
+    marginLeft: 22,
+    marginBottom: 8,
+  },
+  wakeText: {
+    marginTop: 8,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  errorContainer: {
+    backgroundColor: "#ffebee",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ffcdd2",
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.25)",
+    justifyContent: "space-between",
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+  },
+  cancelButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: "#fff",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    color: "#b9221d",
+    fontSize: 16,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  disabledButton: {
+    backgroundColor: "#ccc",
+  },
+});
+
+export default MetroRouteModal;
@@ -0,0 +1,383 @@
+// Schedule modal for arming an alarm on given days and times
+import { LinearGradient } from "expo-linear-gradient";
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { AlarmSchedule, Destination } from "../types";
+import { validateAlarmSchedule } from "../utils";
+import { haptics } from "../utils/Haptics";
+
+export type ScheduleDraft = Pick<
+  AlarmSchedule,
+  "daysOfWeek" | "startTime" | "endTime"
+>;
+
+interface ScheduleAlarmModalProps {
+  visible: boolean;
+  destination: Destination | null;
+  onConfirm: (draft: ScheduleDraft) => void;
+  onCancel: () => void;
+}
+
+const DAY_OPTIONS = [
+  { day: 1, label: "M" },
+  { day: 2, label: "T" },
+  { day: 3, label: "W" },
+  { day: 4, label: "T" },
+  { day: 5, label: "F" },
+  { day: 6, label: "S" },
+  { day: 0, label: "S" },
+];
+const DEFAULT_DAYS = [1, 2, 3, 4, 5];
+const DEFAULT_START_TIME = "08:00";
+const DEFAULT_END_TIME = "10:00";
+
+const ScheduleAlarmModal: React.FC<ScheduleAlarmModalProps> = ({
+  visible,
+  destination,
+  onConfirm,
+  onCancel,
+}) => {
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(DEFAULT_DAYS);
+  const [startTime, setStartTime] = useState(DEFAULT_START_TIME);
+  const [hasEndTime, setHasEndTime] = useState(true);
+  const [endTime, setEndTime] = useState(DEFAULT_END_TIME);
+
+  // Start from a weekday commute whenever the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setDaysOfWeek(DEFAULT_DAYS);
+    setStartTime(DEFAULT_START_TIME);
+    setHasEndTime(true);
+    setEndTime(DEFAULT_END_TIME);
+  }, [visible]);
+
+  const draft: ScheduleDraft = {
+    daysOfWeek,
+    startTime: startTime.trim(),
+    endTime: hasEndTime ? endTime.trim() : undefined,
+  };
+  const validation = validateAlarmSchedule(draft);
+
+  const toggleDay = (day: number) => {
+    haptics.selection();
+    setDaysOfWeek((days) =>
+      days.includes(day) ? days.filter((d) => d !== day) : [...days, day],
+    );
+  };
+
+  const handleConfirm = () => {
+    if (!validation.isValid) return;
+    haptics.medium();
+    onConfirm(draft);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <LinearGradient
+        colors={["rgba(130, 26, 25, 0.8)", "rgba(232, 47, 45, 0.48)"]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 0, y: 1 }}
+        style={styles.gradientContainer}
+      >
+        <SafeAreaView style={styles.safeArea}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Schedule Alarm</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={onCancel}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+              accessibilityHint="Closes the modal"
+              hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={styles.content}
+          >
+            {destination && (
+              <Text style={styles.destinationName}>{destination.name}</Text>
+            )}
+
+            {/* Days */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Repeat on</Text>
+              <View style={styles.dayRow}>
+                {DAY_OPTIONS.map(({ day, label }) => {
+                  const selected = daysOfWeek.includes(day);
+                  return (
+                    <TouchableOpacity
+                      key={day}
+                      style={[styles.dayButton, selected && styles.dayActive]}
+                      onPress={() => toggleDay(day)}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: selected }}
+                    >
+                      <Text
+                        style={[
+                          styles.dayButtonText,
+                          selected && styles.dayActiveText,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Window */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Arm at</Text>
+              <TextInput
+                style={styles.timeInput}
+                value={startTime}
+                onChangeText={setStartTime}
+                placeholder="HH:MM"
+                placeholderTextColor="rgba(255,255,255,0.5)"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.label}>Disarm at</Text>
+                <Text style={styles.hint}>
+                  Cancel the alarm if you have not arrived by then
+                </Text>
+              </View>
+              <Switch
+                value={hasEndTime}
+                onValueChange={setHasEndTime}
+                trackColor={{ false: "rgba(255,255,255,0.3)", true: "#fff" }}
+                thumbColor={hasEndTime ? "#b9221d" : "#f4f3f4"}
+              />
+            </View>
+            {hasEndTime && (
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={styles.timeInput}
+                  value={endTime}
+                  onChangeText={setEndTime}
+                  placeholder="HH:MM"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                />
+              </View>
+            )}
+
+            {!validation.isValid && (
+              <View style={styles.errorContainer}>
+                {validation.errors.map((error) => (
+                  <Text key={error} style={styles.errorText}>
+                    {error}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.confirmButton,
+                !validation.isValid && styles.disabledButton,
+              ]}
+              onPress={handleConfirm}
+              disabled={!validation.isValid}
+            >
+              <Text style={styles.confirmButtonText}>Save Schedule</Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  gradientContainer: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255,255,255,0.25)",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  closeButton: {
+    minWidth: 44,
+    minHeight: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: "#fff",
+  },
+  scrollArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  destinationName: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#fff",
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.65)",
+  },
+  dayRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  dayButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    backgroundColor: "rgba(255,255,255,0.15)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  dayActive: {
+    backgroundColor: "#fff",
+    borderColor: "#fff",
+  },
+  dayButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  dayActiveText: {
+    color: "#b9221d",
+  },
+  timeInput: {
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.4)",
+    borderRadius: 8,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 18,
+    color: "#fff",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  errorContainer: {
+    backgroundColor: "#ffebee",
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ffcdd2",
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.25)",
+    justifyContent: "space-between",
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+  },
+  cancelButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: "#fff",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    color: "#b9221d",
+    fontSize: 16,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  disabledButton: {
+    backgroundColor: "#ccc",
+  },
+});
+
+export default ScheduleAlarmModal;
@@ -0,0 +1,119 @@
+// Slide-to-dismiss control for the full-screen alarm
+import { Ionicons } from "@expo/vector-icons";
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Animated,
+  LayoutChangeEvent,
+  PanResponder,
+  StyleSheet,
+  View,
+} from "react-native";
+
+interface SlideToDismissProps {
+  label: string;
+  onDismiss: () => void;
+}
+
+const KNOB_SIZE = 60;
+const TRACK_PADDING = 4;
+// Fraction of the track the knob must cross to count as a dismiss
+const DISMISS_THRESHOLD = 0.85;
+
+const SlideToDismiss: React.FC<SlideToDismissProps> = ({
+  label,
+  onDismiss,
+}) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const [trackWidth, setTrackWidth] = useState(0);
+  const maxOffset = Math.max(trackWidth - KNOB_SIZE - TRACK_PADDING * 2, 0);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderMove: (_, gesture) => {
+          translateX.setValue(Math.min(Math.max(gesture.dx, 0), maxOffset));
+        },
+        onPanResponderRelease: (_, gesture) => {
+          if (maxOffset > 0 && gesture.dx >= maxOffset * DISMISS_THRESHOLD) {
+            Animated.timing(translateX, {
+              toValue: maxOffset,
+              duration: 100,
+              useNativeDriver: true,
+            }).start(() => onDismiss());
+          } else {
+            // Not far enough: spring back to the start
+            Animated.spring(translateX, {
+              toValue: 0,
+              useNativeDriver: true,
+              tension: 100,
+              friction: 8,
+            }).start();
+          }
+        },
+      }),
+    [translateX, maxOffset, onDismiss],
+  );
+
+  const labelOpacity = translateX.interpolate({
+    inputRange: [0, Math.max(maxOffset, 1)],
+    outputRange: [1, 0],
+    extrapolate: "clamp",
+  });
+
+  return (
+    <View
+      style={styles.track}
+      onLayout={(event: LayoutChangeEvent) =>
+        setTrackWidth(event.nativeEvent.layout.width)
+      }
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={label}
+      accessibilityActions={[{ name: "activate" }]}
+      onAccessibilityAction={onDismiss}
+    >
+      <Animated.Text style={[styles.label, { opacity: labelOpacity }]}>
+        {label}
+      </Animated.Text>
+      <Animated.View
+        style={[styles.knob, { transform: [{ translateX }] }]}
+        {...panResponder.panHandlers}
+      >
+        <Ionicons name="chevron-forward" size={32} color="#b9221d" />
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    height: KNOB_SIZE + TRACK_PADDING * 2,
+    borderRadius: (KNOB_SIZE + TRACK_PADDING * 2) / 2,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.35)",
+    padding: TRACK_PADDING,
+    justifyContent: "center",
+  },
+  label: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    textAlign: "center",
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  knob: {
+    width: KNOB_SIZE,
+    height: KNOB_SIZE,
+    borderRadius: KNOB_SIZE / 2,
+    backgroundColor: "#fff",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
+
+export default SlideToDismiss;
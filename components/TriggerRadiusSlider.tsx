@@ -0,0 +1,91 @@
+// Trigger radius slider
+import Slider from "@react-native-community/slider";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { VALIDATION_CONSTANTS } from "../types";
+import { formatDistance } from "../utils";
+
+interface TriggerRadiusSliderProps {
+  value: number; // meters
+  onValueChange: (radius: number) => void;
+  label?: string;
+  description?: string;
+}
+
+const TriggerRadiusSlider: React.FC<TriggerRadiusSliderProps> = ({
+  value,
+  onValueChange,
+  label = "Trigger Distance",
+  description,
+}) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.value}>{formatDistance(value)}</Text>
+      </View>
+      {description && <Text style={styles.description}>{description}</Text>}
+      <Slider
+        style={styles.slider}
+        value={value}
+        minimumValue={VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS}
+        maximumValue={VALIDATION_CONSTANTS.MAX_TRIGGER_RADIUS}
+        step={VALIDATION_CONSTANTS.TRIGGER_RADIUS_STEP}
+        onValueChange={onValueChange}
+        minimumTrackTintColor="#fff"
+        maximumTrackTintColor="rgba(255,255,255,0.35)"
+        thumbTintColor="#fff"
+        accessibilityLabel={label}
+        accessibilityValue={{ text: formatDistance(value) }}
+      />
+      <View style={styles.rangeLabels}>
+        <Text style={styles.rangeText}>
+          {formatDistance(VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS)}
+        </Text>
+        <Text style={styles.rangeText}>
+          {formatDistance(VALIDATION_CONSTANTS.MAX_TRIGGER_RADIUS)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "rgba(255,255,255,0.9)",
+  },
+  value: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  description: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.65)",
+    marginTop: 4,
+  },
+  slider: {
+    width: "100%",
+    height: 40,
+  },
+  rangeLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  rangeText: {
+    fontSize: 12,
+    color: "rgba(255,255,255,0.6)",
+  },
+});
+
+export default TriggerRadiusSlider;
@@ -0,0 +1,71 @@
+// Escalation profiles for the full-screen alarm
+import { AlarmEscalationProfile } from "../types";
+
+export interface EscalationStep {
+  afterSeconds: number; // applies from this long after the alarm started
+  volume: number; // 0 to 1
+  vibrationPattern: number[]; // wait, vibrate, wait, ... in milliseconds
+}
+
+export interface EscalationProfileDefinition {
+  id: AlarmEscalationProfile;
+  label: string;
+  description: string;
+  steps: readonly EscalationStep[]; // ordered by afterSeconds, first at 0
+}
+
+export const ALARM_ESCALATION_PROFILES: Record<
+  AlarmEscalationProfile,
+  EscalationProfileDefinition
+> = {
+  gentle: {
+    id: "gentle",
+    label: "Gentle",
+    description: "Starts quietly and builds up over a minute and a half",
+    steps: [
+      { afterSeconds: 0, volume: 0.2, vibrationPattern: [0, 200, 1800] },
+      { afterSeconds: 30, volume: 0.5, vibrationPattern: [0, 300, 1200] },
+      { afterSeconds: 60, volume: 0.8, vibrationPattern: [0, 400, 800] },
+      { afterSeconds: 90, volume: 1, vibrationPattern: [0, 500, 500] },
+    ],
+  },
+  standard: {
+    id: "standard",
+    label: "Standard",
+    description: "Reaches full volume after 30 seconds",
+    steps: [
+      { afterSeconds: 0, volume: 0.4, vibrationPattern: [0, 400, 1000] },
+      { afterSeconds: 15, volume: 0.7, vibrationPattern: [0, 500, 500] },
+      { afterSeconds: 30, volume: 1, vibrationPattern: [0, 600, 300] },
+    ],
+  },
+  urgent: {
+    id: "urgent",
+    label: "Urgent",
+    description: "Full volume and vibration straight away",
+    steps: [{ afterSeconds: 0, volume: 1, vibrationPattern: [0, 800, 200] }],
+  },
+};
+
+export const DEFAULT_ESCALATION_PROFILE: AlarmEscalationProfile = "standard";
+
+/**
+ * Step of the alarm's escalation profile that applies after it has been
+ * sounding for elapsedSeconds
+ */
+export function getEscalationStep(
+  profile: AlarmEscalationProfile | undefined,
+  elapsedSeconds: number,
+): EscalationStep {
+  const { steps } =
+    ALARM_ESCALATION_PROFILES[profile ?? DEFAULT_ESCALATION_PROFILE] ??
+    ALARM_ESCALATION_PROFILES[DEFAULT_ESCALATION_PROFILE];
+
+  let current = steps[0];
+  for (const step of steps) {
+    if (elapsedSeconds >= step.afterSeconds) {
+      current = step;
+    }
+  }
+  return current;
+}
@@ -1,37 +1,84 @@
 // Alarm management service for HopOff app
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Alarm, AlarmSettings, Coordinate, Destination } from "../types";
+import {
+  Alarm,
+  AlarmSettings,
+  AlarmType,
+  Coordinate,
+  Destination,
+  TransitAlarmConfig,
+  TripOutcome,
+  VALIDATION_CONSTANTS,
+} from "../types";
 import {
   calculateDistance,
+  createTripFromAlarm,
   generateId,
+  getDistanceToDestination,
+  sanitizeDestinationName,
   validateAlarmSettings as validateAlarmSettingsUtil,
+  validateDestination,
+  validateTransitAlarmConfig,
 } from "../utils";
 import { ErrorHandler, handleAsyncOperation } from "../utils/ErrorHandler";
+import { AlarmChangeEvent, alarmRepository } from "./AlarmRepository";
+import { alarmRinger, RingingAlarm } from "./AlarmRinger";
+import { alarmTriggerPipeline } from "./AlarmTriggerPipeline";
 import { BackgroundLocationManager } from "./BackgroundLocationTask";
-import { locationManager } from "./LocationManager";
-import { notificationManager } from "./NotificationManager";
+import { databaseManager } from "./DatabaseManager";
+import { departureTracker } from "./DepartureTracker";
+import { GeofenceEventType, locationManager } from "./LocationManager";
+import { metroService } from "./MetroService";
+import {
+  AlarmNotificationAction,
+  notificationManager,
+} from "./NotificationManager";
 
 export interface AlarmManager {
   createAlarm(
     destination: Destination,
     settings: AlarmSettings,
+    transit?: TransitAlarmConfig,
+    type?: Exclude<AlarmType, "transit">,
   ): Promise<CreateAlarmResult>;
-  cancelAlarm(alarmId: string): Promise<void>;
+  cancelAlarm(
+    alarmId: string,
+    outcome?: Extract<TripOutcome, "cancelled" | "expired">,
+  ): Promise<void>;
   getActiveAlarms(): Promise<Alarm[]>;
-  triggerAlarm(alarm: Alarm): Promise<void>;
+  triggerAlarm(alarm: Alarm, distanceAtTrigger?: number): Promise<void>;
   updateAlarmSettings(
     alarmId: string,
     settings: Partial<AlarmSettings>,
   ): Promise<void>;
+  updateAlarm(alarmId: string, update: AlarmUpdate): Promise<Alarm>;
+  handleAlarmAction(
+    alarmId: string,
+    action: AlarmNotificationAction,
+  ): Promise<void>;
   hasGeofenceAtLocation(coordinate: Coordinate, radius?: number): boolean;
 }
 
-// Storage key for AsyncStorage
-const STORAGE_KEY = "hopoff_active_alarms";
-
 // Distance threshold in meters to consider coordinates as "same location"
 const DUPLICATE_LOCATION_THRESHOLD = 50;
 
+// Changes that can be made to an alarm while it is active
+export interface AlarmUpdate {
+  destinationName?: string;
+  settings?: Partial<AlarmSettings>;
+}
+
+// Thrown when "still on board" can't re-arm an alarm: the user is already
+// within the smallest radius an alarm can have
+export class AlarmRearmError extends Error {
+  constructor(
+    public distance: number, // meters from the destination
+    message: string,
+  ) {
+    super(message);
+    this.name = "AlarmRearmError";
+  }
+}
+
 // Result type for createAlarm to handle duplicates gracefully
 export interface CreateAlarmResult {
   alarm: Alarm;
@@ -40,30 +87,24 @@ export interface CreateAlarmResult {
 }
 
 export class AlarmManagerImpl implements AlarmManager {
+  // Mirror of the alarm repository for synchronous lookups; kept current by
+  // the repository's change events, including writes from the background task
   private activeAlarms: Map<string, Alarm> = new Map();
   private initialized = false;
 
-  /**
-   * Ensure alarms and nested destinations use serializable ISO strings
-   * for timestamps instead of Date objects.
-   */
-  private normalizeAlarm(alarm: Alarm | null): Alarm | null {
-    if (!alarm) return null;
-
-    const toIsoString = (value: string | Date) =>
-      typeof value === "string" ? value : new Date(value).toISOString();
-
-    return {
-      ...alarm,
-      createdAt: toIsoString(alarm.createdAt),
-      destination: {
-        ...alarm.destination,
-        createdAt: toIsoString(alarm.destination.createdAt),
-      },
-    };
-  }
-
   constructor() {
+    alarmRepository.subscribe((event) => this.handleAlarmsChanged(event));
+    notificationManager.addAlarmActionListener((alarmId, action) => {
+      this.handleAlarmAction(alarmId, action).catch((error) => {
+        if (error instanceof AlarmRearmError) {
+          notificationManager
+            .showInfoNotification("Alarm not re-armed", error.message)
+            .catch((e) => console.warn("Failed to show notification:", e));
+          return;
+        }
+        console.error("Error handling alarm action:", error);
+      });
+    });
     this.initialize();
   }
 
@@ -74,29 +115,21 @@ export class AlarmManagerImpl implements AlarmManager {
     if (this.initialized) return;
 
     try {
-      const alarmsData = await AsyncStorage.getItem(STORAGE_KEY);
-      if (alarmsData) {
-        const parsedAlarms: Alarm[] = JSON.parse(alarmsData);
-        for (const alarm of parsedAlarms) {
-          const normalizedAlarm = this.normalizeAlarm(alarm);
-          if (normalizedAlarm) {
-            this.activeAlarms.set(normalizedAlarm.id, normalizedAlarm);
-          }
-        }
+      const alarms = await alarmRepository.getAlarms();
+      this.activeAlarms = new Map(alarms.map((alarm) => [alarm.id, alarm]));
 
-        // Re-register geofence event handlers for all alarms with geofences
-        this.setupGeofenceEventHandlers();
+      // Re-register geofence event handlers for all alarms with geofences
+      this.setupGeofenceEventHandlers();
 
-        if (__DEV__ && this.activeAlarms.size > 0) {
-          console.log(`Restored ${this.activeAlarms.size} alarms from storage`);
-        }
+      if (__DEV__ && this.activeAlarms.size > 0) {
+        console.log(`Restored ${this.activeAlarms.size} alarms from storage`);
+      }
 
-        // Ensure background location task is running for restored alarms
-        if (this.activeAlarms.size > 0) {
-          BackgroundLocationManager.start().catch((e) =>
-            console.warn("Failed to start background task on restore:", e),
-          );
-        }
+      // Ensure background location task is running for restored alarms
+      if (this.activeAlarms.size > 0) {
+        BackgroundLocationManager.start().catch((e) =>
+          console.warn("Failed to start background task on restore:", e),
+        );
       }
       this.initialized = true;
     } catch (error) {
@@ -107,6 +140,30 @@ export class AlarmManagerImpl implements AlarmManager {
     }
   }
 
+  /**
+   * Keep the mirror in sync and release monitoring for removed alarms,
+   * whichever context removed them
+   */
+  private handleAlarmsChanged(event: AlarmChangeEvent): void {
+    this.activeAlarms = new Map(event.alarms.map((alarm) => [alarm.id, alarm]));
+    if (event.removed.length === 0) return;
+
+    for (const alarm of event.removed) {
+      this.cleanupAlarmMonitoring(alarm);
+    }
+
+    // Stop background task if no alarms remain. A fired alarm that is still
+    // ringing keeps tracking on so moving away can acknowledge it.
+    if (this.activeAlarms.size === 0) {
+      alarmRinger
+        .getRinging()
+        .then((ringing) =>
+          ringing.length === 0 ? BackgroundLocationManager.stop() : undefined,
+        )
+        .catch((e) => console.warn("Failed to stop background task:", e));
+    }
+  }
+
   /**
    * Setup geofence event handlers for all active alarms
    */
@@ -121,10 +178,12 @@ export class AlarmManagerImpl implements AlarmManager {
       if (alarm) {
         if (__DEV__) {
           console.log(
-            `Geofence event matched alarm: ${alarm.id} (${alarm.destination.name})`,
+            `Geofence ${event.eventType} matched alarm: ${alarm.id} (${alarm.destination.name})`,
           );
         }
-        this.handleAlarmTrigger(alarm);
+        this.handleGeofenceEvent(alarm, event.eventType).catch((error) =>
+          console.error("Error handling geofence event:", error),
+        );
       } else {
         console.warn(`No alarm found for geofence: ${event.geofenceId}`);
       }
@@ -179,10 +238,14 @@ export class AlarmManagerImpl implements AlarmManager {
   /**
    * Create a new alarm with the specified destination and settings
    * Returns the existing alarm if one already exists near this location
+   * Passing a transit config creates an alarm that fires a number of
+   * stops before the destination station instead of at a radius
    */
   async createAlarm(
     destination: Destination,
     settings: AlarmSettings,
+    transit?: TransitAlarmConfig,
+    type: Exclude<AlarmType, "transit"> = "radius",
   ): Promise<CreateAlarmResult> {
     const result = await handleAsyncOperation(async () => {
       await this.initialize();
@@ -205,6 +268,15 @@ export class AlarmManagerImpl implements AlarmManager {
         );
       }
 
+      if (transit) {
+        const transitValidation = validateTransitAlarmConfig(transit);
+        if (!transitValidation.isValid) {
+          throw new Error(
+            `Invalid transit alarm: ${transitValidation.errors.join(", ")}`,
+          );
+        }
+      }
+
       // Best-effort notification permission prompt before creating alarms.
       // Do not block alarm creation if user denies or check fails.
       try {
@@ -221,13 +293,25 @@ export class AlarmManagerImpl implements AlarmManager {
         id: generateId("alarm"),
         destination,
         settings,
+        type: transit ? "transit" : type,
+        transit,
         isActive: true,
         createdAt: new Date().toISOString(),
       };
 
-      // Store in memory and persist
-      this.activeAlarms.set(alarm.id, alarm);
-      await this.persistAlarms();
+      // Persist through the repository (updates the in-memory mirror)
+      await alarmRepository.saveAlarm(alarm, "created");
+
+      // Start the trip log entry (best-effort, never blocks the alarm)
+      databaseManager
+        .recordTrip(createTripFromAlarm(alarm))
+        .catch((error) => console.warn("Failed to record trip:", error));
+
+      // Feeds the suggested destinations, however the alarm was armed:
+      // from the map, by a schedule or re-armed from a notification
+      await this.recordArmedUsage(alarm).catch((error) =>
+        console.warn("Failed to record destination usage:", error),
+      );
 
       // Set up location monitoring (geofencing or fallback)
       await this.setupLocationMonitoring(alarm);
@@ -249,14 +333,29 @@ export class AlarmManagerImpl implements AlarmManager {
     return result.data;
   }
 
+  private async recordArmedUsage(alarm: Alarm): Promise<void> {
+    await databaseManager.recordDestinationUsage({
+      destinationName: alarm.destination.name,
+      destinationAddress: alarm.destination.address,
+      coordinate: alarm.destination.coordinate,
+      origin: await locationManager.getLastKnownLocation(),
+      kind: "armed",
+      occurredAt: alarm.createdAt,
+    });
+  }
+
   /**
    * Cancel an existing alarm by ID
    */
-  async cancelAlarm(alarmId: string): Promise<void> {
+  async cancelAlarm(
+    alarmId: string,
+    outcome: Extract<TripOutcome, "cancelled" | "expired"> = "cancelled",
+  ): Promise<void> {
     const result = await handleAsyncOperation(async () => {
       await this.initialize();
 
-      const alarm = this.activeAlarms.get(alarmId);
+      // Monitoring is released by the repository change handler
+      const alarm = await alarmRepository.removeAlarm(alarmId, outcome);
       if (!alarm) {
         if (__DEV__) {
           console.log(`Alarm ${alarmId} already cancelled or doesn't exist`);
@@ -264,20 +363,10 @@ export class AlarmManagerImpl implements AlarmManager {
         return;
       }
 
-      // Clean up location monitoring for this specific alarm
-      await this.cleanupAlarmMonitoring(alarm);
-
-      // Remove alarm from map
-      this.activeAlarms.delete(alarmId);
-      await this.persistAlarms();
-
-      // Update geofence event handlers
-      this.setupGeofenceEventHandlers();
-
-      // Stop background task if no alarms remain
-      if (this.activeAlarms.size === 0) {
-        await BackgroundLocationManager.stop();
+      if (alarm.type === "departure") {
+        await departureTracker.forget([alarmId]);
       }
+      this.closeTrip(alarmId, outcome);
     }, "AlarmManager.cancelAlarm");
 
     if (!result.success) {
@@ -305,57 +394,125 @@ export class AlarmManagerImpl implements AlarmManager {
    */
   async getActiveAlarms(): Promise<Alarm[]> {
     await this.initialize();
-    return Array.from(this.activeAlarms.values()).map(
-      (alarm) => this.normalizeAlarm(alarm)!,
-    );
+    return alarmRepository.getAlarms();
   }
 
   /**
    * Get a specific alarm by ID
    */
   getAlarm(alarmId: string): Alarm | null {
-    const alarm = this.activeAlarms.get(alarmId);
-    return alarm ? this.normalizeAlarm(alarm) : null;
+    return this.activeAlarms.get(alarmId) ?? null;
   }
 
   /**
-   * Trigger an alarm (called when geofence is entered)
+   * Trigger an alarm (called when geofence is entered). Safe to call more
+   * than once: the trigger pipeline rings each alarm only once.
    */
-  async triggerAlarm(alarm: Alarm): Promise<void> {
+  async triggerAlarm(alarm: Alarm, distanceAtTrigger?: number): Promise<void> {
     await this.initialize();
 
-    const activeAlarm = this.activeAlarms.get(alarm.id);
-    if (!activeAlarm) {
-      throw new Error("Cannot trigger alarm: no matching active alarm found");
+    const result = await alarmTriggerPipeline.trigger({
+      alarmId: alarm.id,
+      source: "geofence",
+      distanceAtTrigger,
+    });
+
+    if (__DEV__) {
+      console.log(
+        result.fired
+          ? `Alarm notification triggered for: ${alarm.destination.name}`
+          : `Alarm trigger skipped (${result.skipped}): ${alarm.destination.name}`,
+      );
     }
+  }
 
-    try {
-      // Show alarm notification with sound and haptic feedback
-      await notificationManager.showAlarmNotification(alarm);
+  /**
+   * Respond to an action on a fired alarm's notification: snooze it,
+   * acknowledge it, or re-arm it closer to the destination
+   */
+  async handleAlarmAction(
+    alarmId: string,
+    action: AlarmNotificationAction,
+  ): Promise<void> {
+    // A plain tap opens the full-screen alarm, which handles the rest
+    if (action === "open") return;
 
-      if (__DEV__) {
-        console.log(
-          `Alarm notification triggered for: ${alarm.destination.name}`,
-        );
-      }
-    } catch (error) {
-      console.error("Error showing alarm notification:", error);
-      // Continue to clear alarm even if notification fails
+    if (action === "snooze") {
+      await alarmRinger.snooze(alarmId);
+      return;
     }
 
-    // Clean up this specific alarm's monitoring
-    await this.cleanupAlarmMonitoring(activeAlarm);
+    const ringing = await alarmRinger.acknowledge(alarmId);
+    // Departure alarms have nothing to re-arm nearer to
+    if (action !== "rearm" || !ringing || ringing.alarm.type === "departure") {
+      return;
+    }
 
-    // Remove this alarm
-    this.activeAlarms.delete(alarm.id);
-    await this.persistAlarms();
+    // Still on board: the alarm fired too early, so wake the user again
+    // nearer the destination
+    const { alarm } = ringing;
+    const transit =
+      alarm.transit &&
+      alarm.transit.stopsBefore > VALIDATION_CONSTANTS.MIN_STOPS_BEFORE
+        ? { ...alarm.transit, stopsBefore: alarm.transit.stopsBefore - 1 }
+        : undefined;
+
+    // Halve the radius, or the distance if the user is already inside it,
+    // so the new alarm doesn't fire again straight away. Transit alarms
+    // fire on stops remaining instead.
+    let triggerRadius = Math.max(
+      VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS,
+      Math.round(alarm.settings.triggerRadius / 2),
+    );
+    if (!transit) {
+      const distance = await this.getRearmDistance(ringing);
+      triggerRadius = Math.max(
+        VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS,
+        Math.round(Math.min(alarm.settings.triggerRadius, distance) / 2),
+      );
+      if (triggerRadius >= distance) {
+        throw new AlarmRearmError(
+          distance,
+          `You're already within ${VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS} m of ${alarm.destination.name}, so the alarm can't be moved any closer`,
+        );
+      }
+    }
+    const settings: AlarmSettings = {
+      ...alarm.settings,
+      triggerMode: "radius",
+      triggerRadius,
+    };
 
-    // Update geofence event handlers
-    this.setupGeofenceEventHandlers();
+    // An area would fire again straight away from inside it, so re-arm
+    // around its centre instead
+    const result = await this.createAlarm(
+      { ...alarm.destination, area: undefined },
+      settings,
+      transit,
+    );
+    if (__DEV__) {
+      console.log(
+        `Alarm re-armed at ${settings.triggerRadius}m: ${result.alarm.destination.name}`,
+      );
+    }
+  }
 
-    // Stop background task if no alarms remain
-    if (this.activeAlarms.size === 0) {
-      await BackgroundLocationManager.stop();
+  /**
+   * Distance from a fired alarm's destination centre (re-armed alarms drop
+   * any area) for working out the re-armed radius
+   */
+  private async getRearmDistance(ringing: RingingAlarm): Promise<number> {
+    const { alarm, distanceAtTrigger } = ringing;
+    try {
+      const location = await locationManager.getCurrentLocation();
+      return calculateDistance(location, alarm.destination.coordinate);
+    } catch (error) {
+      console.warn("Failed to get location for re-arming alarm:", error);
+      // Where it fired is the best guess left; an area's distance was
+      // measured to its edge, so fall back to the radius
+      return !alarm.destination.area && distanceAtTrigger !== null
+        ? distanceAtTrigger
+        : alarm.settings.triggerRadius;
     }
   }
 
@@ -366,6 +523,15 @@ export class AlarmManagerImpl implements AlarmManager {
     alarmId: string,
     settings: Partial<AlarmSettings>,
   ): Promise<void> {
+    await this.updateAlarm(alarmId, { settings });
+  }
+
+  /**
+   * Edit an active alarm. The background task reads alarms from the
+   * repository on every check, so changes apply from its next check; a new
+   * radius also replaces the alarm's geofence.
+   */
+  async updateAlarm(alarmId: string, update: AlarmUpdate): Promise<Alarm> {
     await this.initialize();
 
     const alarm = this.activeAlarms.get(alarmId);
@@ -374,7 +540,7 @@ export class AlarmManagerImpl implements AlarmManager {
     }
 
     // Validate new settings
-    const updatedSettings = { ...alarm.settings, ...settings };
+    const updatedSettings = { ...alarm.settings, ...update.settings };
     const updateValidation = validateAlarmSettingsUtil(updatedSettings);
     if (!updateValidation.isValid) {
       throw new Error(
@@ -382,25 +548,53 @@ export class AlarmManagerImpl implements AlarmManager {
       );
     }
 
-    // Update alarm settings
-    alarm.settings = updatedSettings;
-    this.activeAlarms.set(alarmId, alarm);
-    await this.persistAlarms();
+    let destination = alarm.destination;
+    if (update.destinationName !== undefined) {
+      const name = sanitizeDestinationName(update.destinationName);
+      const nameValidation = validateDestination({ ...destination, name });
+      if (!nameValidation.isValid) {
+        throw new Error(
+          `Invalid destination: ${nameValidation.errors.join(", ")}`,
+        );
+      }
+      destination = { ...destination, name };
+    }
+
+    const radiusChanged =
+      updatedSettings.triggerRadius !== alarm.settings.triggerRadius;
+    const updated: Alarm = {
+      ...alarm,
+      destination,
+      settings: updatedSettings,
+      geofenceId: radiusChanged ? undefined : alarm.geofenceId,
+    };
+    await alarmRepository.saveAlarm(updated);
+
+    if (radiusChanged) {
+      if (alarm.geofenceId) {
+        await locationManager.removeGeofence(alarm.geofenceId);
+      }
+      await this.setupLocationMonitoring(updated);
+    }
+
+    return this.activeAlarms.get(alarmId) ?? updated;
   }
 
   /**
-   * Persist all alarms to AsyncStorage
+   * Record how a trip ended in the trip log (best-effort)
    */
-  private async persistAlarms(): Promise<void> {
-    try {
-      const alarms = Array.from(this.activeAlarms.values()).map((alarm) =>
-        this.normalizeAlarm(alarm),
-      );
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(alarms));
-    } catch (error) {
-      console.error("Failed to persist alarms:", error);
-      throw new Error("Failed to save alarm state");
-    }
+  private closeTrip(
+    alarmId: string,
+    outcome: Exclude<TripOutcome, "active">,
+    distanceAtTrigger: number | null = null,
+  ): void {
+    databaseManager
+      .closeTrip(alarmId, {
+        outcome,
+        endedAt: new Date().toISOString(),
+        distanceAtTrigger,
+      })
+      .catch((error) => console.warn("Failed to update trip:", error));
   }
 
   /**
@@ -408,8 +602,7 @@ export class AlarmManagerImpl implements AlarmManager {
    */
   private async clearPersistedState(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEY);
-      this.activeAlarms.clear();
+      await alarmRepository.clear();
     } catch (error) {
       console.error("Failed to clear persisted state:", error);
     }
@@ -419,22 +612,29 @@ export class AlarmManagerImpl implements AlarmManager {
    * Set up location monitoring for an alarm (geofencing as supplementary to background task)
    */
   private async setupLocationMonitoring(alarm: Alarm): Promise<void> {
+    // A circle can't describe a polygon or corridor without firing early,
+    // so area destinations rely on the background task alone
+    if (alarm.destination.area) {
+      return;
+    }
+
     try {
       // Try to set up geofencing as a supplementary trigger.
       // The primary monitoring is done by BackgroundLocationTask, but geofencing
       // provides an additional OS-level trigger that can fire even if the
       // foreground service is killed.
       try {
+        // Departure alarms also listen for entering, to learn the user has
+        // been inside before an exit counts
         const geofenceId = await locationManager.setupGeofence(
-          alarm.destination.coordinate,
+          this.getMonitoredCoordinate(alarm),
           alarm.settings.triggerRadius,
+          alarm.type === "departure" ? ["enter", "exit"] : ["enter"],
         );
 
         const storedAlarm = this.activeAlarms.get(alarm.id);
         if (storedAlarm) {
-          storedAlarm.geofenceId = geofenceId;
-          this.activeAlarms.set(alarm.id, storedAlarm);
-          await this.persistAlarms();
+          await alarmRepository.saveAlarm({ ...storedAlarm, geofenceId });
         }
 
         if (__DEV__) {
@@ -453,6 +653,20 @@ export class AlarmManagerImpl implements AlarmManager {
     }
   }
 
+  /**
+   * Coordinate the geofence is centred on: the destination for radius
+   * alarms, or the station the user should be woken at for transit alarms
+   */
+  private getMonitoredCoordinate(alarm: Alarm): Coordinate {
+    if (alarm.type === "transit" && alarm.transit) {
+      return metroService.getWakeStation(
+        alarm.transit.route,
+        alarm.transit.stopsBefore,
+      ).coordinate;
+    }
+    return alarm.destination.coordinate;
+  }
+
   /**
    * Clean up location monitoring for a specific alarm
    */
@@ -471,6 +685,28 @@ export class AlarmManagerImpl implements AlarmManager {
     }
   }
 
+  /**
+   * Route a geofence event: departure alarms fire on exiting after having
+   * been inside, every other alarm fires on entering
+   */
+  private async handleGeofenceEvent(
+    alarm: Alarm,
+    eventType: GeofenceEventType,
+  ): Promise<void> {
+    if (alarm.type !== "departure") {
+      if (eventType === "enter") {
+        await this.handleAlarmTrigger(alarm);
+      }
+      return;
+    }
+
+    if (eventType === "enter") {
+      await departureTracker.markInside(alarm.id);
+    } else if (await departureTracker.hasBeenInside(alarm.id)) {
+      await this.handleAlarmTrigger(alarm);
+    }
+  }
+
   /**
    * Handle alarm trigger from either geofencing or fallback polling
    */
@@ -481,7 +717,7 @@ export class AlarmManagerImpl implements AlarmManager {
       }
 
       // Trigger the alarm through the normal flow
-      await this.triggerAlarm(alarm);
+      await this.triggerAlarm(alarm, await this.getTriggerDistance(alarm));
     } catch (error) {
       console.error("Error handling alarm trigger:", error);
       const errorInfo = ErrorHandler.processError(error);
@@ -489,6 +725,26 @@ export class AlarmManagerImpl implements AlarmManager {
     }
   }
 
+  /**
+   * Distance from the destination when a geofence fires. Without a fix,
+   * the user is taken to be at the geofence centre, which for a transit
+   * alarm is the wake station stops before the destination.
+   */
+  private async getTriggerDistance(alarm: Alarm): Promise<number | undefined> {
+    try {
+      const location = await locationManager.getCurrentLocation();
+      return getDistanceToDestination(location, alarm.destination);
+    } catch (error) {
+      console.warn("Failed to get location for alarm trigger:", error);
+      return alarm.type === "transit"
+        ? getDistanceToDestination(
+            this.getMonitoredCoordinate(alarm),
+            alarm.destination,
+          )
+        : undefined;
+    }
+  }
+
   /**
    * Get monitoring status for all alarms
    */
@@ -518,14 +774,9 @@ export class AlarmManagerImpl implements AlarmManager {
    * Reset the alarm manager (for testing purposes)
    */
   async reset(): Promise<void> {
-    // Clean up all alarms
-    for (const alarm of this.activeAlarms.values()) {
-      await this.cleanupAlarmMonitoring(alarm);
-    }
-
-    this.activeAlarms.clear();
     this.initialized = false;
     locationManager.removeGeofenceEventHandler();
+    // Clearing the repository releases each alarm's monitoring
     await this.clearPersistedState();
 
     // Stop background location task
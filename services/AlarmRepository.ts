@@ -0,0 +1,239 @@
+// Alarm repository for HopOff app
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Alarm } from "../types";
+
+export type AlarmChangeReason =
+  "created" | "updated" | "fired" | "cancelled" | "expired" | "external"; // written by another JS context, picked up by refresh()
+
+export interface AlarmSnapshot {
+  version: number;
+  alarms: Alarm[];
+}
+
+export interface AlarmChangeEvent extends AlarmSnapshot {
+  reason: AlarmChangeReason;
+  removed: Alarm[]; // alarms this change removed
+}
+
+export type AlarmChangeListener = (event: AlarmChangeEvent) => void;
+
+export interface AlarmRepository {
+  getSnapshot(): Promise<AlarmSnapshot>;
+  getAlarms(): Promise<Alarm[]>;
+  getAlarm(alarmId: string): Promise<Alarm | null>;
+  saveAlarm(alarm: Alarm, reason?: "created" | "updated"): Promise<void>;
+  removeAlarm(
+    alarmId: string,
+    reason: "fired" | "cancelled" | "expired",
+  ): Promise<Alarm | null>;
+  clear(): Promise<void>;
+  refresh(): Promise<void>;
+  subscribe(listener: AlarmChangeListener): () => void;
+}
+
+// Storage key for AsyncStorage
+const STORAGE_KEY = "hopoff_active_alarms";
+
+interface StoredAlarms {
+  version: number;
+  alarms: Alarm[];
+}
+
+// Mutations return the new alarm list and what they removed, or null when
+// there is nothing to change
+type AlarmMutation = (
+  alarms: Alarm[],
+) => { alarms: Alarm[]; removed: Alarm[] } | null;
+
+/**
+ * Ensure alarms and nested destinations use serializable ISO strings
+ * for timestamps instead of Date objects.
+ */
+function normalizeAlarm(alarm: Alarm): Alarm {
+  const toIsoString = (value: string | Date) =>
+    typeof value === "string" ? value : new Date(value).toISOString();
+
+  return {
+    ...alarm,
+    createdAt: toIsoString(alarm.createdAt),
+    destination: {
+      ...alarm.destination,
+      createdAt: toIsoString(alarm.destination.createdAt),
+    },
+  };
+}
+
+/**
+ * Single store for active alarms, shared by AlarmManager in the foreground
+ * and the background location task. Alarms are persisted together with a
+ * version that every write increments; listeners hear about each change,
+ * including alarms fired by the background task.
+ */
+export class AlarmRepositoryImpl implements AlarmRepository {
+  private listeners = new Set<AlarmChangeListener>();
+  private lastKnown: AlarmSnapshot | null = null;
+  // Writes from this JS context run one at a time
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  async getSnapshot(): Promise<AlarmSnapshot> {
+    const snapshot = await this.read();
+    this.reconcile(snapshot);
+    return snapshot;
+  }
+
+  async getAlarms(): Promise<Alarm[]> {
+    return (await this.getSnapshot()).alarms;
+  }
+
+  async getAlarm(alarmId: string): Promise<Alarm | null> {
+    const alarms = await this.getAlarms();
+    return alarms.find((alarm) => alarm.id === alarmId) ?? null;
+  }
+
+  /**
+   * Insert an alarm, or replace the stored alarm with the same id
+   */
+  async saveAlarm(
+    alarm: Alarm,
+    reason: "created" | "updated" = "updated",
+  ): Promise<void> {
+    await this.mutate(reason, (alarms) => {
+      const normalized = normalizeAlarm(alarm);
+      const index = alarms.findIndex((a) => a.id === alarm.id);
+      if (index === -1) {
+        return { alarms: [...alarms, normalized], removed: [] };
+      }
+      const next = [...alarms];
+      next[index] = normalized;
+      return { alarms: next, removed: [] };
+    });
+  }
+
+  /**
+   * Remove an alarm. Resolves with the removed alarm, or null if it was
+   * already gone (e.g. fired or cancelled elsewhere).
+   */
+  async removeAlarm(
+    alarmId: string,
+    reason: "fired" | "cancelled" | "expired",
+  ): Promise<Alarm | null> {
+    const removed = await this.mutate(reason, (alarms) => {
+      const alarm = alarms.find((a) => a.id === alarmId);
+      if (!alarm) return null;
+      return {
+        alarms: alarms.filter((a) => a.id !== alarmId),
+        removed: [alarm],
+      };
+    });
+    return removed[0] ?? null;
+  }
+
+  async clear(): Promise<void> {
+    await this.mutate("cancelled", (alarms) =>
+      alarms.length > 0 ? { alarms: [], removed: alarms } : null,
+    );
+  }
+
+  /**
+   * Re-read storage and notify listeners if another JS context (e.g. a
+   * headless background task) changed the alarms since we last looked
+   */
+  async refresh(): Promise<void> {
+    await this.getSnapshot();
+  }
+
+  /**
+   * Listen for alarm changes. Returns a function that unsubscribes.
+   */
+  subscribe(listener: AlarmChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private mutate(
+    reason: AlarmChangeReason,
+    mutation: AlarmMutation,
+  ): Promise<Alarm[]> {
+    const run = this.writeQueue.then(() =>
+      this.applyMutation(reason, mutation),
+    );
+    // Keep the queue going even if this write fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async applyMutation(
+    reason: AlarmChangeReason,
+    mutation: AlarmMutation,
+  ): Promise<Alarm[]> {
+    // AsyncStorage has no compare-and-set, so writes are only serialized
+    // within this JS context; the version lets other contexts notice them
+    const current = await this.read();
+    this.reconcile(current);
+    const result = mutation(current.alarms);
+    if (!result) return [];
+
+    const next: StoredAlarms = {
+      version: current.version + 1,
+      alarms: result.alarms,
+    };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error("Failed to persist alarms:", error);
+      throw new Error("Failed to save alarm state");
+    }
+
+    this.lastKnown = next;
+    this.emit({ ...next, reason, removed: result.removed });
+    return result.removed;
+  }
+
+  private async read(): Promise<AlarmSnapshot> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!raw) return { version: 0, alarms: [] };
+
+      const parsed = JSON.parse(raw) as StoredAlarms | Alarm[];
+      // Alarms persisted before versioning were a bare array
+      const stored = Array.isArray(parsed)
+        ? { version: 0, alarms: parsed }
+        : parsed;
+      return {
+        version: stored.version,
+        alarms: stored.alarms.map(normalizeAlarm),
+      };
+    } catch (error) {
+      console.error("Failed to read alarms, discarding corrupted data:", error);
+      return { version: this.lastKnown?.version ?? 0, alarms: [] };
+    }
+  }
+
+  private reconcile(snapshot: AlarmSnapshot): void {
+    const previous = this.lastKnown;
+    this.lastKnown = snapshot;
+    if (!previous || previous.version === snapshot.version) return;
+
+    const currentIds = new Set(snapshot.alarms.map((alarm) => alarm.id));
+    this.emit({
+      ...snapshot,
+      reason: "external",
+      removed: previous.alarms.filter((alarm) => !currentIds.has(alarm.id)),
+    });
+  }
+
+  private emit(event: AlarmChangeEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Alarm change listener failed:", error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const alarmRepository = new AlarmRepositoryImpl();
@@ -0,0 +1,221 @@
+// Re-notification of fired alarms for HopOff app
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Alarm, Coordinate } from "../types";
+import { getDistanceToDestination } from "../utils";
+import { metroService } from "./MetroService";
+import { notificationManager } from "./NotificationManager";
+
+export interface RingingAlarm {
+  alarm: Alarm;
+  firedAt: string;
+  distanceAtTrigger: number | null;
+  notificationIds: string[]; // scheduled re-notifications
+  endsAt: string; // when the last re-notification is due
+}
+
+export type AlarmRingListener = (ringing: RingingAlarm) => void;
+
+export interface AlarmRinger {
+  start(alarm: Alarm, distanceAtTrigger: number | null): Promise<void>;
+  snooze(alarmId: string, seconds?: number): Promise<void>;
+  acknowledge(alarmId: string): Promise<RingingAlarm | null>;
+  get(alarmId: string): Promise<RingingAlarm | null>;
+  getRinging(): Promise<RingingAlarm[]>;
+  onRing(listener: AlarmRingListener): () => void;
+  acknowledgeIfMovedAway(coordinate: Coordinate): Promise<number>;
+}
+
+// Storage key for AsyncStorage
+const RINGING_STORAGE_KEY = "hopoff_ringing_alarms";
+
+export const SNOOZE_SECONDS = 60;
+
+// Alarms created before repeat settings existed
+const DEFAULT_REPEAT_COUNT = 3;
+const DEFAULT_REPEAT_INTERVAL_SECONDS = 60;
+
+// An alarm stays ringing at least this long, so the full-screen alarm can
+// show it even when re-notifications are turned off
+const MIN_RINGING_SECONDS = 120;
+
+// Moving this much further from the destination than where the alarm fired
+// means the user is past it or has left; stop re-notifying. Transit alarms
+// fire stops early and keep ringing for as long as the user is on the route.
+const MOVED_AWAY_MARGIN = 500; // meters
+
+/**
+ * Keeps a fired alarm re-notifying until the user acknowledges it (taps the
+ * notification or presses "I'm off") or moves away from the destination.
+ * Re-notifications are scheduled with the OS up front, so they still ring
+ * if the app is killed.
+ */
+export class AlarmRingerImpl implements AlarmRinger {
+  private listeners = new Set<AlarmRingListener>();
+
+  async start(alarm: Alarm, distanceAtTrigger: number | null): Promise<void> {
+    const count = alarm.settings.repeatCount ?? DEFAULT_REPEAT_COUNT;
+    const interval =
+      alarm.settings.repeatIntervalSeconds ?? DEFAULT_REPEAT_INTERVAL_SECONDS;
+    const notificationIds = await notificationManager.scheduleAlarmRepeats(
+      alarm,
+      count,
+      interval,
+    );
+
+    const ringingSeconds = Math.max(count * interval, MIN_RINGING_SECONDS);
+    const entry: RingingAlarm = {
+      alarm,
+      firedAt: new Date().toISOString(),
+      distanceAtTrigger,
+      notificationIds,
+      endsAt: new Date(Date.now() + ringingSeconds * 1000).toISOString(),
+    };
+    const ringing = await this.read();
+    ringing[alarm.id] = entry;
+    await this.write(ringing);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error("Alarm ring listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Silence the alarm for a while, then start re-notifying again
+   */
+  async snooze(
+    alarmId: string,
+    seconds: number = SNOOZE_SECONDS,
+  ): Promise<void> {
+    const ringing = await this.read();
+    const entry = ringing[alarmId];
+    if (!entry) return;
+
+    await notificationManager.cancelAlarmNotifications(entry.notificationIds);
+
+    const count = entry.alarm.settings.repeatCount ?? DEFAULT_REPEAT_COUNT;
+    const interval =
+      entry.alarm.settings.repeatIntervalSeconds ??
+      DEFAULT_REPEAT_INTERVAL_SECONDS;
+    // A snooze always rings again, even if repeats are turned off
+    const repeats = Math.max(count, 1);
+    entry.notificationIds = await notificationManager.scheduleAlarmRepeats(
+      entry.alarm,
+      repeats,
+      interval,
+      seconds,
+    );
+    entry.endsAt = new Date(
+      Date.now() + (seconds + (repeats - 1) * interval) * 1000,
+    ).toISOString();
+    await this.write(ringing);
+  }
+
+  /**
+   * Stop re-notifying. Resolves with the alarm that was ringing, if any.
+   */
+  async acknowledge(alarmId: string): Promise<RingingAlarm | null> {
+    const ringing = await this.read();
+    const entry = ringing[alarmId];
+    if (!entry) {
+      // Nothing scheduled, but clear the alarm notification the user saw
+      await notificationManager.cancelAlarmNotifications([]);
+      return null;
+    }
+
+    await notificationManager.cancelAlarmNotifications(entry.notificationIds);
+    delete ringing[alarmId];
+    await this.write(ringing);
+    return entry;
+  }
+
+  async get(alarmId: string): Promise<RingingAlarm | null> {
+    return (await this.read())[alarmId] ?? null;
+  }
+
+  async getRinging(): Promise<RingingAlarm[]> {
+    return Object.values(await this.read());
+  }
+
+  /**
+   * Listen for alarms that start ringing in this JS context. Returns a
+   * function that unsubscribes.
+   */
+  onRing(listener: AlarmRingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Acknowledge ringing alarms the user has moved away from
+   * @returns Number of alarms still ringing
+   */
+  async acknowledgeIfMovedAway(coordinate: Coordinate): Promise<number> {
+    const ringing = await this.getRinging();
+    let stillRinging = 0;
+
+    for (const entry of ringing) {
+      // Departure alarms fire because the user moved away
+      if (entry.alarm.type === "departure") {
+        stillRinging++;
+        continue;
+      }
+
+      if (this.hasMovedAway(entry, coordinate)) {
+        await this.acknowledge(entry.alarm.id);
+        if (__DEV__) {
+          console.log(
+            `Moved away from ${entry.alarm.destination.name}, alarm acknowledged`,
+          );
+        }
+      } else {
+        stillRinging++;
+      }
+    }
+
+    return stillRinging;
+  }
+
+  private hasMovedAway(entry: RingingAlarm, coordinate: Coordinate): boolean {
+    const { alarm } = entry;
+    // Still riding towards the destination, however many stops are left
+    if (alarm.type === "transit" && alarm.transit) {
+      return !metroService.getRouteProgress(alarm.transit.route, coordinate)
+        .onRoute;
+    }
+
+    const distance = getDistanceToDestination(coordinate, alarm.destination);
+    const firedAt = entry.distanceAtTrigger ?? alarm.settings.triggerRadius;
+    return distance > firedAt + MOVED_AWAY_MARGIN;
+  }
+
+  // Entries whose last re-notification has passed are dropped on read
+  private async read(): Promise<Record<string, RingingAlarm>> {
+    try {
+      const raw = await AsyncStorage.getItem(RINGING_STORAGE_KEY);
+      if (!raw) return {};
+
+      const now = Date.now();
+      const entries = JSON.parse(raw) as Record<string, RingingAlarm>;
+      return Object.fromEntries(
+        Object.entries(entries).filter(
+          ([, entry]) => new Date(entry.endsAt).getTime() > now,
+        ),
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  private async write(ringing: Record<string, RingingAlarm>): Promise<void> {
+    await AsyncStorage.setItem(RINGING_STORAGE_KEY, JSON.stringify(ringing));
+  }
+}
+
+// Export singleton instance
+export const alarmRinger = new AlarmRingerImpl();
@@ -0,0 +1,270 @@
+/**
+ * Alarm Scheduler Service
+ *
+ * Arms recurring alarms for saved destinations on given days and times, e.g.
+ * a weekday commute. Schedules are evaluated when the app starts or returns
+ * to the foreground, and periodically by a background task so they arm
+ * without the app being opened. Location tracking only starts once a
+ * schedule's window opens and its alarm is armed.
+ *
+ * CRITICAL: TaskManager.defineTask MUST be called at module level, so this
+ * file must be imported early in the app lifecycle (e.g., in _layout.tsx).
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as BackgroundTask from "expo-background-task";
+import * as TaskManager from "expo-task-manager";
+import { AppState } from "react-native";
+import { Alarm, AlarmSchedule, VALIDATION_CONSTANTS } from "../types";
+import { getActiveScheduleWindow, validateAlarmSchedule } from "../utils";
+import { alarmManager } from "./AlarmManager";
+import { BackgroundLocationManager } from "./BackgroundLocationTask";
+import { notificationManager } from "./NotificationManager";
+
+export interface ScheduleEvaluationResult {
+  armed: Alarm[];
+  disarmedAlarmIds: string[];
+}
+
+export interface AlarmScheduler {
+  getSchedules(): Promise<AlarmSchedule[]>;
+  saveSchedule(schedule: AlarmSchedule): Promise<AlarmSchedule>;
+  deleteSchedule(id: string): Promise<void>;
+  evaluateSchedules(now?: Date): Promise<ScheduleEvaluationResult>;
+  syncBackgroundTask(): Promise<void>;
+}
+
+const SCHEDULE_TASK = "hopoff-alarm-schedule-task";
+const SCHEDULES_STORAGE_KEY = "hopoff_alarm_schedules";
+const SCHEDULE_TASK_INTERVAL_MINUTES = 15; // shortest interval the OS allows
+
+export class AlarmSchedulerImpl implements AlarmScheduler {
+  // Foreground and background evaluations run one at a time so a window is
+  // never armed twice
+  private evaluation: Promise<ScheduleEvaluationResult> | null = null;
+  // At most one run waits behind the current one, for the latest time asked
+  private queuedEvaluation: Promise<ScheduleEvaluationResult> | null = null;
+  private queuedNow: Date | null = null;
+
+  async getSchedules(): Promise<AlarmSchedule[]> {
+    try {
+      const raw = await AsyncStorage.getItem(SCHEDULES_STORAGE_KEY);
+      if (!raw) return [];
+      return JSON.parse(raw) as AlarmSchedule[];
+    } catch (error) {
+      console.warn("Failed to load alarm schedules:", error);
+      return [];
+    }
+  }
+
+  async saveSchedule(schedule: AlarmSchedule): Promise<AlarmSchedule> {
+    const validation = validateAlarmSchedule(schedule);
+    if (!validation.isValid) {
+      throw new Error(`Invalid schedule: ${validation.errors.join(", ")}`);
+    }
+
+    const schedules = await this.getSchedules();
+    const index = schedules.findIndex((s) => s.id === schedule.id);
+    if (index === -1) {
+      if (schedules.length >= VALIDATION_CONSTANTS.MAX_SCHEDULES) {
+        throw new Error(
+          `You can have at most ${VALIDATION_CONSTANTS.MAX_SCHEDULES} schedules`,
+        );
+      }
+      schedules.push(schedule);
+    } else {
+      schedules[index] = schedule;
+    }
+
+    await this.persistSchedules(schedules);
+    await this.syncBackgroundTask();
+    return schedule;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    const schedules = await this.getSchedules();
+    await this.persistSchedules(schedules.filter((s) => s.id !== id));
+    await this.syncBackgroundTask();
+  }
+
+  /**
+   * Arm schedules whose window has opened and cancel alarms whose window has
+   * closed. Each window is armed at most once, so an alarm the user cancels
+   * stays cancelled until the next occurrence.
+   */
+  evaluateSchedules(now: Date = new Date()): Promise<ScheduleEvaluationResult> {
+    if (!this.evaluation) {
+      this.evaluation = this.runEvaluation(now).finally(() => {
+        this.evaluation = null;
+      });
+      return this.evaluation;
+    }
+
+    // The run in progress may have read the schedules before the change
+    // that prompted this call, so queue one more. Calls made while it waits
+    // share it, and it evaluates for the latest time they asked for.
+    this.queuedNow = now;
+    if (!this.queuedEvaluation) {
+      this.queuedEvaluation = this.evaluation
+        .catch(() => undefined)
+        .then(() => {
+          const queuedNow = this.queuedNow ?? new Date();
+          this.queuedEvaluation = null;
+          this.queuedNow = null;
+          return this.evaluateSchedules(queuedNow);
+        });
+    }
+    return this.queuedEvaluation;
+  }
+
+  /**
+   * Register the periodic background task while any schedule is enabled and
+   * unregister it otherwise. Registrations survive reboots, but this is
+   * also called on launch in case the OS dropped it.
+   */
+  async syncBackgroundTask(): Promise<void> {
+    try {
+      const schedules = await this.getSchedules();
+      const needsTask = schedules.some((s) => s.enabled);
+      const isRegistered =
+        await TaskManager.isTaskRegisteredAsync(SCHEDULE_TASK);
+
+      if (needsTask && !isRegistered) {
+        const status = await BackgroundTask.getStatusAsync();
+        if (status === BackgroundTask.BackgroundTaskStatus.Restricted) {
+          console.warn(
+            "AlarmScheduler: background tasks are restricted — schedules will only arm while the app is open",
+          );
+          return;
+        }
+        await BackgroundTask.registerTaskAsync(SCHEDULE_TASK, {
+          minimumInterval: SCHEDULE_TASK_INTERVAL_MINUTES,
+        });
+      } else if (!needsTask && isRegistered) {
+        await BackgroundTask.unregisterTaskAsync(SCHEDULE_TASK);
+      }
+    } catch (error) {
+      console.warn("AlarmScheduler: failed to update background task:", error);
+    }
+  }
+
+  private async runEvaluation(now: Date): Promise<ScheduleEvaluationResult> {
+    const result: ScheduleEvaluationResult = {
+      armed: [],
+      disarmedAlarmIds: [],
+    };
+    const schedules = await this.getSchedules();
+    if (!schedules.some((s) => s.enabled)) return result;
+
+    const activeAlarmIds = new Set(
+      (await alarmManager.getActiveAlarms()).map((alarm) => alarm.id),
+    );
+    let changed = false;
+
+    for (const schedule of schedules) {
+      if (!schedule.enabled) continue;
+
+      // Forget alarms that already fired or were cancelled by the user
+      if (schedule.armedAlarmId && !activeAlarmIds.has(schedule.armedAlarmId)) {
+        schedule.armedAlarmId = undefined;
+        changed = true;
+      }
+
+      const window = getActiveScheduleWindow(schedule, now);
+      if (!window) {
+        if (schedule.armedAlarmId && schedule.endTime !== undefined) {
+          try {
+            await alarmManager.cancelAlarm(schedule.armedAlarmId, "expired");
+            result.disarmedAlarmIds.push(schedule.armedAlarmId);
+            schedule.armedAlarmId = undefined;
+            changed = true;
+            await notificationManager
+              .showInfoNotification(
+                "Scheduled alarm ended",
+                `Your alarm for ${schedule.destination.name} was turned off at the end of its schedule`,
+              )
+              .catch((error) =>
+                console.warn("AlarmScheduler: failed to notify:", error),
+              );
+          } catch (error) {
+            console.warn("AlarmScheduler: failed to disarm schedule:", error);
+          }
+        }
+        continue;
+      }
+
+      const windowKey = window.start.toISOString();
+      if (schedule.lastArmedWindow === windowKey) continue;
+
+      try {
+        const { alarm, isExisting } = await alarmManager.createAlarm(
+          schedule.destination,
+          schedule.settings,
+        );
+        schedule.lastArmedWindow = windowKey;
+        // An alarm the user armed by hand is left alone when the window closes
+        schedule.armedAlarmId = isExisting ? undefined : alarm.id;
+        changed = true;
+        if (!isExisting) {
+          result.armed.push(alarm);
+        }
+      } catch (error) {
+        // Left unarmed so the next evaluation retries
+        console.warn("AlarmScheduler: failed to arm schedule:", error);
+      }
+    }
+
+    if (changed) {
+      await this.persistSchedules(schedules);
+    }
+
+    await this.ensureTracking(schedules, result.armed);
+    return result;
+  }
+
+  // Android may refuse to start the location foreground service from the
+  // background; ask the user to open the app, which then starts tracking
+  private async ensureTracking(
+    schedules: AlarmSchedule[],
+    armed: Alarm[],
+  ): Promise<void> {
+    if (AppState.currentState === "active") {
+      if (schedules.some((s) => s.enabled && s.armedAlarmId)) {
+        await BackgroundLocationManager.start();
+      }
+      return;
+    }
+
+    if (armed.length > 0 && !(await BackgroundLocationManager.isRunning())) {
+      await notificationManager
+        .showScheduledAlarmNotification(armed[0])
+        .catch((error) =>
+          console.warn("AlarmScheduler: failed to notify:", error),
+        );
+    }
+  }
+
+  private async persistSchedules(schedules: AlarmSchedule[]): Promise<void> {
+    await AsyncStorage.setItem(
+      SCHEDULES_STORAGE_KEY,
+      JSON.stringify(schedules),
+    );
+  }
+}
+
+// Export singleton instance
+export const alarmScheduler = new AlarmSchedulerImpl();
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DEFINE BACKGROUND TASK — must be at module level
+// ═══════════════════════════════════════════════════════════════════════════════
+
+TaskManager.defineTask(SCHEDULE_TASK, async () => {
+  try {
+    await alarmScheduler.evaluateSchedules();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error("AlarmScheduler: background evaluation failed:", error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
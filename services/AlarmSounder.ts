@@ -0,0 +1,105 @@
+// Escalating alarm sound and vibration for HopOff app
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from "expo-audio";
+import { Platform, Vibration } from "react-native";
+import { Alarm } from "../types";
+import { EscalationStep, getEscalationStep } from "./AlarmEscalationPolicy";
+
+export interface AlarmSounder {
+  start(alarm: Alarm): Promise<void>;
+  stop(): void;
+  isSounding(): boolean;
+}
+
+const ALARM_SOUND = require("../assets/sounds/alarm.wav");
+
+// How often the escalation profile is re-checked
+const TICK_MS = 1000;
+
+/**
+ * Plays the looping alarm tone for the full-screen alarm, raising volume
+ * and vibration over time according to the alarm's escalation profile.
+ * Only one alarm sounds at a time.
+ */
+export class AlarmSounderImpl implements AlarmSounder {
+  private player: AudioPlayer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private step: EscalationStep | null = null;
+  private startedAt = 0;
+  private lastVibratedAt = 0;
+
+  async start(alarm: Alarm): Promise<void> {
+    this.stop();
+
+    try {
+      await setAudioModeAsync({
+        playsInSilentMode: true,
+        interruptionMode: "doNotMix",
+        shouldPlayInBackground: true,
+      });
+      this.player = createAudioPlayer(ALARM_SOUND);
+      this.player.loop = true;
+    } catch (error) {
+      // Vibration still escalates without sound
+      console.warn("Alarm sound not available:", error);
+    }
+
+    this.startedAt = Date.now();
+    this.tick(alarm);
+    this.player?.play();
+    this.timer = setInterval(() => this.tick(alarm), TICK_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    Vibration.cancel();
+
+    if (this.player) {
+      try {
+        this.player.pause();
+        this.player.remove();
+      } catch (error) {
+        console.warn("Failed to release alarm sound:", error);
+      }
+      this.player = null;
+    }
+    this.step = null;
+  }
+
+  isSounding(): boolean {
+    return this.timer !== null;
+  }
+
+  private tick(alarm: Alarm): void {
+    const now = Date.now();
+    const step = getEscalationStep(
+      alarm.settings.escalationProfile,
+      (now - this.startedAt) / 1000,
+    );
+
+    if (step !== this.step) {
+      this.step = step;
+      if (this.player) {
+        this.player.volume = step.volume;
+      }
+      // Android repeats the pattern by itself until cancelled
+      if (alarm.settings.vibrationEnabled && Platform.OS === "android") {
+        Vibration.vibrate(step.vibrationPattern, true);
+      }
+    }
+
+    // iOS ignores patterns, so pulse once per pattern length instead
+    if (alarm.settings.vibrationEnabled && Platform.OS !== "android") {
+      const period = step.vibrationPattern.reduce((sum, ms) => sum + ms, 0);
+      if (now - this.lastVibratedAt >= period) {
+        Vibration.vibrate();
+        this.lastVibratedAt = now;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const alarmSounder = new AlarmSounderImpl();
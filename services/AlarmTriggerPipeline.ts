@@ -0,0 +1,257 @@
+// Alarm trigger pipeline for HopOff app
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Alarm } from "../types";
+import { AlarmRepository, alarmRepository } from "./AlarmRepository";
+import { alarmRinger } from "./AlarmRinger";
+import { databaseManager } from "./DatabaseManager";
+import { departureTracker } from "./DepartureTracker";
+import { notificationManager } from "./NotificationManager";
+
+// Where a trigger came from: the OS geofence enter event, or the background
+// location task's own distance check
+export type AlarmTriggerSource = "geofence" | "location";
+
+export interface AlarmTriggerRequest {
+  alarmId: string;
+  source: AlarmTriggerSource;
+  distanceAtTrigger?: number | null; // meters, if the source knows it
+}
+
+export interface AlarmTriggerResult {
+  fired: boolean;
+  skipped?: "already-fired" | "not-active";
+}
+
+export interface FiredAlarmEntry {
+  firedAt: string;
+  source: AlarmTriggerSource;
+  completed?: boolean; // alarm removed and trip closed after ringing
+}
+
+// Record of alarms that have already rung, shared by every trigger source
+export interface FiredAlarmLedger {
+  get(alarmId: string): Promise<FiredAlarmEntry | null>;
+  record(alarmId: string, entry: FiredAlarmEntry): Promise<void>;
+}
+
+export interface AlarmTriggerDependencies {
+  repository: Pick<AlarmRepository, "getAlarm" | "removeAlarm">;
+  ledger: FiredAlarmLedger;
+  notify: (alarm: Alarm) => Promise<void>;
+  startRinging: (
+    alarm: Alarm,
+    distanceAtTrigger: number | null,
+  ) => Promise<void>;
+  closeTrip: (
+    alarmId: string,
+    distanceAtTrigger: number | null,
+  ) => Promise<void>;
+  recordArrival: (alarm: Alarm, firedAt: Date) => Promise<void>;
+  forgetPresence: (alarmId: string) => Promise<void>; // departure alarms
+  now: () => Date;
+}
+
+export interface AlarmTriggerPipeline {
+  trigger(request: AlarmTriggerRequest): Promise<AlarmTriggerResult>;
+}
+
+// Storage key for AsyncStorage
+const LEDGER_STORAGE_KEY = "hopoff_fired_alarms";
+
+// Completed entries are kept this long after firing; duplicate triggers for
+// the same arrival come within minutes
+const LEDGER_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Fired-alarm ledger persisted in AsyncStorage so a trigger in the
+ * background task and one from a geofence event see the same record.
+ * Entries left incomplete by a crash are kept until a later trigger
+ * finishes their clean-up.
+ */
+export class AsyncStorageFiredAlarmLedger implements FiredAlarmLedger {
+  // Records for different alarms can arrive together; write one at a time
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  async get(alarmId: string): Promise<FiredAlarmEntry | null> {
+    const entries = await this.read();
+    return entries[alarmId] ?? null;
+  }
+
+  record(alarmId: string, entry: FiredAlarmEntry): Promise<void> {
+    const run = this.writeQueue.then(() => this.write(alarmId, entry));
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(alarmId: string, entry: FiredAlarmEntry): Promise<void> {
+    const entries = await this.read();
+    const cutoff = new Date(entry.firedAt).getTime() - LEDGER_RETENTION_MS;
+    const kept = Object.fromEntries(
+      Object.entries(entries).filter(
+        ([, e]) => !e.completed || new Date(e.firedAt).getTime() >= cutoff,
+      ),
+    );
+    kept[alarmId] = entry;
+    await AsyncStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(kept));
+  }
+
+  private async read(): Promise<Record<string, FiredAlarmEntry>> {
+    try {
+      const raw = await AsyncStorage.getItem(LEDGER_STORAGE_KEY);
+      if (!raw) return {};
+      return JSON.parse(raw) as Record<string, FiredAlarmEntry>;
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Single path every alarm trigger goes through. Triggers for the same alarm
+ * run one at a time, and the first one claims the alarm in the fired ledger
+ * before ringing, so an alarm rings exactly once no matter how many sources
+ * report it or in which order.
+ */
+export class AlarmTriggerPipelineImpl implements AlarmTriggerPipeline {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly deps: AlarmTriggerDependencies) {}
+
+  trigger(request: AlarmTriggerRequest): Promise<AlarmTriggerResult> {
+    return this.withLock(request.alarmId, () => this.fire(request));
+  }
+
+  private async fire(
+    request: AlarmTriggerRequest,
+  ): Promise<AlarmTriggerResult> {
+    const { repository, ledger, notify, startRinging, now } = this.deps;
+    const distanceAtTrigger = request.distanceAtTrigger ?? null;
+
+    const firedEntry = await ledger.get(request.alarmId);
+    if (firedEntry) {
+      if (!firedEntry.completed) {
+        // A crash after claiming the alarm left its clean-up unfinished;
+        // finish it without ringing again
+        const alarm = await repository.getAlarm(request.alarmId);
+        await this.complete(
+          request.alarmId,
+          alarm,
+          firedEntry,
+          distanceAtTrigger,
+        );
+      }
+      if (__DEV__) {
+        console.log(
+          `Alarm ${request.alarmId} already fired via ${firedEntry.source}, ignoring ${request.source} trigger`,
+        );
+      }
+      return { fired: false, skipped: "already-fired" };
+    }
+
+    const alarm = await repository.getAlarm(request.alarmId);
+    if (!alarm) {
+      return { fired: false, skipped: "not-active" };
+    }
+
+    // Claim before ringing: a crash after this point loses at most one
+    // ring, never repeats it
+    const entry: FiredAlarmEntry = {
+      firedAt: now().toISOString(),
+      source: request.source,
+    };
+    await ledger.record(alarm.id, entry);
+
+    try {
+      await notify(alarm);
+    } catch (error) {
+      console.error("Error showing alarm notification:", error);
+      // Continue to clear alarm even if notification fails
+    }
+
+    // Keep re-notifying until the user acknowledges the alarm
+    await startRinging(alarm, distanceAtTrigger).catch((error) =>
+      console.warn("Failed to schedule alarm repeats:", error),
+    );
+
+    await this.complete(alarm.id, alarm, entry, distanceAtTrigger);
+
+    return { fired: true };
+  }
+
+  /**
+   * Clean up after an alarm has rung: remove it, forget whether the user
+   * was inside it, close its trip and mark the ledger entry completed so
+   * later triggers leave it alone
+   * @param alarm The alarm, or null if it was already removed
+   */
+  private async complete(
+    alarmId: string,
+    alarm: Alarm | null,
+    entry: FiredAlarmEntry,
+    distanceAtTrigger: number | null,
+  ): Promise<void> {
+    const { repository, ledger, closeTrip, recordArrival, forgetPresence } =
+      this.deps;
+
+    if (alarm) {
+      await repository.removeAlarm(alarmId, "fired");
+    }
+    await forgetPresence(alarmId).catch((error) =>
+      console.warn("Failed to forget departure presence:", error),
+    );
+    await closeTrip(alarmId, distanceAtTrigger).catch((error) =>
+      console.warn("Failed to update trip:", error),
+    );
+    if (alarm) {
+      await recordArrival(alarm, new Date(entry.firedAt)).catch((error) =>
+        console.warn("Failed to record destination usage:", error),
+      );
+    }
+    await ledger.record(alarmId, { ...entry, completed: true });
+  }
+
+  // Chain tasks per alarm id so concurrent triggers for one alarm serialize
+  private async withLock<T>(
+    alarmId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const previous = this.locks.get(alarmId) ?? Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.catch(() => undefined);
+    this.locks.set(alarmId, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(alarmId) === tail) {
+        this.locks.delete(alarmId);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const alarmTriggerPipeline = new AlarmTriggerPipelineImpl({
+  repository: alarmRepository,
+  ledger: new AsyncStorageFiredAlarmLedger(),
+  notify: (alarm) => notificationManager.showAlarmNotification(alarm),
+  startRinging: (alarm, distanceAtTrigger) =>
+    alarmRinger.start(alarm, distanceAtTrigger),
+  closeTrip: (alarmId, distanceAtTrigger) =>
+    databaseManager.closeTrip(alarmId, {
+      outcome: "fired",
+      endedAt: new Date().toISOString(),
+      distanceAtTrigger,
+    }),
+  recordArrival: (alarm, firedAt) =>
+    databaseManager.recordDestinationUsage({
+      destinationName: alarm.destination.name,
+      destinationAddress: alarm.destination.address,
+      coordinate: alarm.destination.coordinate,
+      origin: null,
+      kind: "fired",
+      occurredAt: firedAt.toISOString(),
+    }),
+  forgetPresence: (alarmId) => departureTracker.forget([alarmId]),
+  now: () => new Date(),
+});
@@ -15,44 +15,154 @@ import * as Location from "expo-location";
 import * as Notifications from "expo-notifications";
 import * as TaskManager from "expo-task-manager";
 import { AppState } from "react-native";
-import { setCurrentLocation } from "../store/slices/locationSlice";
-import { Alarm } from "../types";
-import { calculateDistance, isWithinRadius } from "../utils";
+import {
+  setCurrentLocation,
+  setCurrentSpeed,
+} from "../store/slices/locationSlice";
+import { Alarm, Coordinate, UserSettings } from "../types";
+import {
+  calculateDistance,
+  getDistanceToDestination,
+  getEffectiveTriggerRadius,
+  calculateEtaSeconds,
+  shouldTriggerAlarm,
+} from "../utils";
+import { alarmRepository } from "./AlarmRepository";
+import { alarmRinger } from "./AlarmRinger";
+import { alarmTriggerPipeline } from "./AlarmTriggerPipeline";
+import { departureTracker } from "./DepartureTracker";
+import { locationManager } from "./LocationManager";
+import {
+  getTrackingTier,
+  selectTrackingTier,
+  TrackingTier,
+  TrackingTierId,
+} from "./LocationTrackingPolicy";
+import { metroService } from "./MetroService";
 import { notificationManager } from "./NotificationManager";
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 const BACKGROUND_LOCATION_TASK = "hopoff-background-location-task";
-const ACTIVE_ALARMS_STORAGE_KEY = "hopoff_active_alarms";
 const SETTINGS_STORAGE_KEY = "user_settings";
 const PERSISTENT_NOTIFICATION_ID = "hop-off-persistent";
+const TRANSIT_PROGRESS_STORAGE_KEY = "hopoff_transit_progress";
+const SPEED_WINDOW_MS = 3 * 60 * 1000; // fixes averaged for the speed estimate
+const MIN_SPEED_WINDOW_MS = 20 * 1000; // shortest span worth averaging over
 
-// ─── Read/write persisted alarms (same key as AlarmManager) ─────────────────
-// These cannot be imported from AlarmManager to avoid a circular dependency
-// (AlarmManager → BackgroundLocationTask → AlarmManager).
+// ─── Read persisted user settings (same key as StorageManager) ──────────────
 
-async function getPersistedAlarms(): Promise<Alarm[]> {
+async function getPersistedSettings(): Promise<Partial<UserSettings>> {
   try {
-    const raw = await AsyncStorage.getItem(ACTIVE_ALARMS_STORAGE_KEY);
-    if (!raw) return [];
-    return JSON.parse(raw) as Alarm[];
+    const raw = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return {};
+    return JSON.parse(raw) as Partial<UserSettings>;
   } catch {
-    return [];
+    return {};
+  }
+}
+
+// ─── Speed estimate ─────────────────────────────────────────────────────────
+// Average over the last few minutes of fixes so a brief stop at a signal or
+// station doesn't swing the ETA. Until there's enough history, prefer the
+// OS-reported speed, then the previous fix.
+
+let recentSamples: { coordinate: Coordinate; timestamp: number }[] = [];
+
+function estimateSpeed(
+  coordinate: Coordinate,
+  reportedSpeed: number | null,
+): number | null {
+  const now = Date.now();
+
+  // Drop fixes outside the window, but always keep the previous one so
+  // sparse sampling on the "far" tier still yields an estimate
+  const previous = recentSamples[recentSamples.length - 1];
+  recentSamples = recentSamples.filter(
+    (sample) => now - sample.timestamp <= SPEED_WINDOW_MS,
+  );
+  if (recentSamples.length === 0 && previous) {
+    recentSamples.push(previous);
+  }
+  recentSamples.push({ coordinate, timestamp: now });
+
+  const oldest = recentSamples[0];
+  const elapsedSeconds = (now - oldest.timestamp) / 1000;
+  // Straight-line displacement rather than summed hops, so GPS jitter while
+  // stationary doesn't read as movement
+  const averageSpeed =
+    elapsedSeconds > 0
+      ? calculateDistance(oldest.coordinate, coordinate) / elapsedSeconds
+      : null;
+
+  if (averageSpeed !== null && elapsedSeconds * 1000 >= MIN_SPEED_WINDOW_MS) {
+    return averageSpeed;
+  }
+  if (reportedSpeed !== null && reportedSpeed >= 0) {
+    return reportedSpeed;
+  }
+  return averageSpeed;
+}
+
+// ─── Distance to the point where an alarm fires ─────────────────────────────
+
+function getDistanceToTrigger(
+  alarm: Alarm,
+  coordinate: Coordinate,
+  speed: number | null,
+): number {
+  if (alarm.type === "transit" && alarm.transit) {
+    // Transit alarms fire on reaching the wake station
+    const wakeStation = metroService.getWakeStation(
+      alarm.transit.route,
+      alarm.transit.stopsBefore,
+    );
+    return calculateDistance(coordinate, wakeStation.coordinate);
   }
+
+  // Departure alarms fire on reaching the edge from inside
+  if (alarm.type === "departure") {
+    return Math.abs(
+      getEffectiveTriggerRadius(alarm) -
+        getDistanceToDestination(coordinate, alarm.destination),
+    );
+  }
+
+  // ETA alarms fire further out the faster we're moving
+  const etaDistance =
+    alarm.settings.triggerMode === "eta" && alarm.settings.etaMinutes && speed
+      ? speed * alarm.settings.etaMinutes * 60
+      : 0;
+
+  return (
+    getDistanceToDestination(coordinate, alarm.destination) -
+    Math.max(getEffectiveTriggerRadius(alarm), etaDistance)
+  );
 }
 
-// ─── Remove a triggered alarm from persisted storage ────────────────────────
+// ─── Last station reached per transit alarm ─────────────────────────────────
+// Persisted so a restarted task doesn't re-announce stations already passed.
+
+async function getTransitProgress(): Promise<Record<string, number>> {
+  try {
+    const raw = await AsyncStorage.getItem(TRANSIT_PROGRESS_STORAGE_KEY);
+    if (!raw) return {};
+    return JSON.parse(raw) as Record<string, number>;
+  } catch {
+    return {};
+  }
+}
 
-async function removePersistedAlarm(alarmId: string): Promise<void> {
+async function saveTransitProgress(
+  progress: Record<string, number>,
+): Promise<void> {
   try {
-    const alarms = await getPersistedAlarms();
-    const remaining = alarms.filter((a) => a.id !== alarmId);
     await AsyncStorage.setItem(
-      ACTIVE_ALARMS_STORAGE_KEY,
-      JSON.stringify(remaining),
+      TRANSIT_PROGRESS_STORAGE_KEY,
+      JSON.stringify(progress),
     );
   } catch (e) {
-    console.error("BackgroundLocationTask: failed to remove alarm", e);
+    console.error("BackgroundLocationTask: failed to save transit progress", e);
   }
 }
 
@@ -60,10 +170,12 @@ async function removePersistedAlarm(alarmId: string): Promise<void> {
 // Core alarm-check logic — used by the task callback AND the immediate first check
 // ═══════════════════════════════════════════════════════════════════════════════
 
-async function performAlarmCheck(currentCoord: {
-  latitude: number;
-  longitude: number;
-}): Promise<void> {
+async function performAlarmCheck(
+  currentCoord: Coordinate,
+  reportedSpeed: number | null = null,
+): Promise<void> {
+  const speed = estimateSpeed(currentCoord, reportedSpeed);
+
   // Sync location to Redux only when the app is in the foreground,
   // so we don't cause needless React re-renders while backgrounded.
   if (AppState.currentState === "active") {
@@ -71,43 +183,133 @@ async function performAlarmCheck(currentCoord: {
       // Import store lazily to avoid circular dependency
       const { store } = await import("../store");
       store.dispatch(setCurrentLocation(currentCoord));
+      store.dispatch(setCurrentSpeed(speed));
     } catch {
       // Store may not be ready yet during early boot — not critical
     }
   }
 
-  // Read active alarms from persistent storage (AlarmManager writes here)
-  const alarms = await getPersistedAlarms();
+  // Read active alarms from the repository shared with AlarmManager. Fired
+  // alarms are removed by the trigger pipeline.
+  const alarms = await alarmRepository.getAlarms();
+
+  // Fired alarms keep ringing until acknowledged or left behind
+  const ringingCount = await alarmRinger.acknowledgeIfMovedAway(currentCoord);
 
   if (alarms.length === 0) {
-    await BackgroundLocationManager.stop();
+    if (ringingCount === 0) {
+      await BackgroundLocationManager.stop();
+    }
     return;
   }
 
   // Check each alarm
   const triggeredAlarmIds: string[] = [];
+  const storedProgress = await getTransitProgress();
+  const transitProgress: Record<string, number> = {};
 
   for (const alarm of alarms) {
-    const dist = calculateDistance(currentCoord, alarm.destination.coordinate);
+    let shouldTrigger: boolean;
+
+    if (alarm.type === "transit" && alarm.transit) {
+      // Transit alarms fire once few enough stops remain on the route.
+      // Away from the route stops can't be counted, so fall back to the
+      // wake station's radius, like its geofence.
+      const progress = metroService.getRouteProgress(
+        alarm.transit.route,
+        currentCoord,
+      );
+      shouldTrigger = progress.onRoute
+        ? progress.stopsRemaining <= alarm.transit.stopsBefore
+        : calculateDistance(
+            currentCoord,
+            metroService.getWakeStation(
+              alarm.transit.route,
+              alarm.transit.stopsBefore,
+            ).coordinate,
+          ) <= alarm.settings.triggerRadius;
+
+      // Only ever move forward along the route so GPS jitter near a
+      // station doesn't announce it twice
+      const lastIndex = storedProgress[alarm.id] ?? 0;
+      if (progress.currentIndex > lastIndex) {
+        transitProgress[alarm.id] = progress.currentIndex;
+
+        // The alarm notification covers the final stretch
+        if (!shouldTrigger) {
+          const station = alarm.transit.route.stations[progress.currentIndex];
+          await notificationManager.showIntermediateStopNotification(
+            station,
+            alarm.transit.route.destination,
+            `Passed ${station.name}, ${progress.stopsRemaining} stop${progress.stopsRemaining === 1 ? "" : "s"} to go`,
+          );
+        }
+      } else {
+        transitProgress[alarm.id] = lastIndex;
+      }
 
-    if (__DEV__) {
-      console.log(
-        `BG check: ${dist.toFixed(0)}m to ${alarm.destination.name} (trigger at ${alarm.settings.triggerRadius}m)`,
+      if (__DEV__) {
+        console.log(
+          progress.onRoute
+            ? `BG check: ${progress.stopsRemaining} stops to ${alarm.destination.name} (trigger at ${alarm.transit.stopsBefore} stops)`
+            : `BG check: off the route to ${alarm.destination.name}`,
+        );
+      }
+    } else if (alarm.type === "departure") {
+      // Departure alarms fire on leaving, but only after having been seen
+      // inside (here or by the geofence)
+      const dist = getDistanceToDestination(currentCoord, alarm.destination);
+      const inside = dist <= getEffectiveTriggerRadius(alarm);
+      if (inside) {
+        await departureTracker.markInside(alarm.id);
+        shouldTrigger = false;
+      } else {
+        shouldTrigger = await departureTracker.hasBeenInside(alarm.id);
+      }
+
+      if (__DEV__) {
+        console.log(
+          `BG check: ${dist.toFixed(0)}m from ${alarm.destination.name} (departure, ${inside ? "inside" : "outside"})`,
+        );
+      }
+    } else {
+      // Area destinations measure to the area's edge and fire on entry
+      const dist = getDistanceToDestination(currentCoord, alarm.destination);
+      shouldTrigger = shouldTriggerAlarm(
+        { ...alarm.settings, triggerRadius: getEffectiveTriggerRadius(alarm) },
+        dist,
+        speed,
       );
+
+      if (__DEV__) {
+        const trigger =
+          alarm.settings.triggerMode === "eta"
+            ? `${alarm.settings.etaMinutes} min before arrival, speed ${speed?.toFixed(1) ?? "?"} m/s`
+            : `${alarm.settings.triggerRadius}m`;
+        console.log(
+          `BG check: ${dist.toFixed(0)}m to ${alarm.destination.name} (trigger at ${trigger})`,
+        );
+      }
     }
 
-    if (
-      isWithinRadius(
-        currentCoord,
-        alarm.destination.coordinate,
-        alarm.settings.triggerRadius,
-      )
-    ) {
+    if (shouldTrigger) {
+      // Dropped from this check whether it rings now or a geofence event
+      // already rang it
       triggeredAlarmIds.push(alarm.id);
-      await notificationManager.showAlarmNotification(alarm);
-      await removePersistedAlarm(alarm.id);
-      if (__DEV__) {
-        console.log(`BG alarm triggered: ${alarm.destination.name}`);
+      try {
+        const result = await alarmTriggerPipeline.trigger({
+          alarmId: alarm.id,
+          source: "location",
+          distanceAtTrigger: getDistanceToDestination(
+            currentCoord,
+            alarm.destination,
+          ),
+        });
+        if (__DEV__ && result.fired) {
+          console.log(`BG alarm triggered: ${alarm.destination.name}`);
+        }
+      } catch (e) {
+        console.error("BackgroundLocationTask: failed to trigger alarm", e);
       }
     }
   }
@@ -115,24 +317,35 @@ async function performAlarmCheck(currentCoord: {
   // Update persistent notification with remaining alarms (only if enabled)
   const remaining = alarms.filter((a) => !triggeredAlarmIds.includes(a.id));
 
-  let persistentEnabled = true;
-  try {
-    const raw = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
-    if (raw) {
-      const settings = JSON.parse(raw);
-      if (settings.persistentNotificationEnabled === false) {
-        persistentEnabled = false;
-      }
-    }
-  } catch {
-    // fall back to showing
+  // Drop progress for triggered or cancelled alarms
+  for (const alarmId of triggeredAlarmIds) {
+    delete transitProgress[alarmId];
   }
-
-  if (persistentEnabled && remaining.length > 0) {
-    const alarmDistances = remaining.map((alarm) => ({
-      alarm,
-      distance: calculateDistance(currentCoord, alarm.destination.coordinate),
-    }));
+  await saveTransitProgress(transitProgress);
+
+  const settings = await getPersistedSettings();
+  const persistentEnabled = settings.persistentNotificationEnabled !== false;
+
+  // Alarms can opt out of the progress notification individually, and
+  // departure alarms have no distance to count down
+  const shownAlarms = remaining.filter(
+    (alarm) =>
+      alarm.settings.persistentNotification !== false &&
+      alarm.type !== "departure",
+  );
+
+  if (persistentEnabled && shownAlarms.length > 0) {
+    const alarmDistances = shownAlarms.map((alarm) => {
+      const distance = getDistanceToDestination(
+        currentCoord,
+        alarm.destination,
+      );
+      return {
+        alarm,
+        distance,
+        etaSeconds: calculateEtaSeconds(distance, speed),
+      };
+    });
     await notificationManager.showMultipleAlarmsPersistentNotification(
       alarmDistances,
     );
@@ -141,8 +354,30 @@ async function performAlarmCheck(currentCoord: {
   }
 
   if (remaining.length === 0) {
-    await BackgroundLocationManager.stop();
+    // Keep tracking while an alarm that just fired is still ringing
+    if ((await alarmRinger.getRinging()).length === 0) {
+      await BackgroundLocationManager.stop();
+    }
+    return;
   }
+
+  // Keep the nearest alarms' geofences registered as we move; the rest are
+  // covered by this check until they rotate in
+  await locationManager.rebalanceGeofences(currentCoord);
+
+  // Adjust GPS sampling to how close the nearest remaining alarm is
+  const distanceToNearestAlarm = Math.min(
+    ...remaining.map((alarm) =>
+      getDistanceToTrigger(alarm, currentCoord, speed),
+    ),
+  );
+  const tier = selectTrackingTier({
+    distanceToNearestAlarm,
+    speed,
+    batteryOptimizationEnabled: settings.batteryOptimizationEnabled !== false,
+    currentTierId: BackgroundLocationManager.currentTierId,
+  });
+  await BackgroundLocationManager.applyTrackingTier(tier);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -161,8 +396,8 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
   if (!locations || locations.length === 0) return;
 
   const latest = locations[locations.length - 1];
-  const { latitude, longitude } = latest.coords;
-  await performAlarmCheck({ latitude, longitude });
+  const { latitude, longitude, speed } = latest.coords;
+  await performAlarmCheck({ latitude, longitude }, speed);
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -171,6 +406,33 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
 
 export class BackgroundLocationManager {
   private static _isRunning = false;
+  private static _currentTierId: TrackingTierId | null = null;
+
+  /**
+   * Tracking tier the location updates are currently configured with.
+   */
+  static get currentTierId(): TrackingTierId | null {
+    return BackgroundLocationManager._currentTierId;
+  }
+
+  private static buildUpdateOptions(
+    tier: TrackingTier,
+  ): Location.LocationTaskOptions {
+    return {
+      accuracy: tier.accuracy,
+      distanceInterval: tier.distanceInterval,
+      timeInterval: tier.timeInterval,
+      deferredUpdatesInterval: tier.timeInterval,
+      showsBackgroundLocationIndicator: true, // iOS blue bar
+      pausesUpdatesAutomatically: false, // never auto-pause
+
+      // Android foreground service — keeps process alive in background
+      foregroundService: {
+        notificationTitle: "",
+        notificationBody: "",
+      },
+    };
+  }
 
   /**
    * Start background location updates with an Android foreground service.
@@ -203,22 +465,15 @@ export class BackgroundLocationManager {
         }
       }
 
-      await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
-        accuracy: Location.Accuracy.Balanced,
-        distanceInterval: 50, // metres — update every 50m moved
-        timeInterval: 15_000, // minimum 15s between updates
-        deferredUpdatesInterval: 10_000,
-        showsBackgroundLocationIndicator: true, // iOS blue bar
-        pausesUpdatesAutomatically: false, // never auto-pause
-
-        // Android foreground service — keeps process alive in background
-        foregroundService: {
-          notificationTitle: "",
-          notificationBody: "",
-        },
-      });
+      // Start precise; the first check relaxes the tier if the alarm is far
+      const initialTier = getTrackingTier("near");
+      await Location.startLocationUpdatesAsync(
+        BACKGROUND_LOCATION_TASK,
+        BackgroundLocationManager.buildUpdateOptions(initialTier),
+      );
 
       BackgroundLocationManager._isRunning = true;
+      BackgroundLocationManager._currentTierId = initialTier.id;
       if (__DEV__) {
         console.log("BackgroundLocationTask: started");
       }
@@ -232,7 +487,7 @@ export class BackgroundLocationManager {
             latitude: loc.coords.latitude,
             longitude: loc.coords.longitude,
           };
-          await performAlarmCheck(coord);
+          await performAlarmCheck(coord, loc.coords.speed);
         }
       } catch {
         // Non-critical — the regular task callback will fire soon
@@ -257,6 +512,8 @@ export class BackgroundLocationManager {
 
       await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
       BackgroundLocationManager._isRunning = false;
+      BackgroundLocationManager._currentTierId = null;
+      recentSamples = [];
 
       // Clear persistent notification when monitoring stops
       await Notifications.dismissNotificationAsync(PERSISTENT_NOTIFICATION_ID);
@@ -268,6 +525,34 @@ export class BackgroundLocationManager {
     }
   }
 
+  /**
+   * Re-register location updates with a new tracking tier. Does nothing if
+   * the tier is unchanged or the task isn't running.
+   */
+  static async applyTrackingTier(tier: TrackingTier): Promise<void> {
+    if (tier.id === BackgroundLocationManager._currentTierId) return;
+
+    try {
+      const isRegistered = await TaskManager.isTaskRegisteredAsync(
+        BACKGROUND_LOCATION_TASK,
+      );
+      if (!isRegistered) return;
+
+      // Starting an already-registered task replaces its options in place
+      await Location.startLocationUpdatesAsync(
+        BACKGROUND_LOCATION_TASK,
+        BackgroundLocationManager.buildUpdateOptions(tier),
+      );
+      BackgroundLocationManager._currentTierId = tier.id;
+
+      if (__DEV__) {
+        console.log(`BackgroundLocationTask: switched to "${tier.id}" tier`);
+      }
+    } catch (e) {
+      console.error("BackgroundLocationTask: failed to apply tracking tier", e);
+    }
+  }
+
   /**
    * Check whether the background task is currently running.
    */
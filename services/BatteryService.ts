@@ -0,0 +1,194 @@
+// Battery monitoring service for HopOff app
+import * as Battery from "expo-battery";
+import { BatteryRecommendation, BatteryState } from "../types";
+
+export interface BatterySnapshot {
+  level: number | null; // 0-1
+  state: BatteryState["state"];
+  isLowPowerMode: boolean;
+}
+
+export type BatteryListener = (snapshot: BatterySnapshot) => void;
+
+export interface BatteryRecommendationInput {
+  snapshot: BatterySnapshot;
+  tripDistance: number | null; // meters to the furthest active alarm
+  batteryOptimizationEnabled: boolean;
+}
+
+export interface BatteryService {
+  getSnapshot(): Promise<BatterySnapshot>;
+  startMonitoring(listener: BatteryListener): Promise<void>;
+  stopMonitoring(): void;
+  getOptimizationLevel(
+    snapshot: BatterySnapshot,
+    batteryOptimizationEnabled: boolean,
+  ): BatteryState["optimizationLevel"];
+  getRecommendations(
+    input: BatteryRecommendationInput,
+  ): BatteryRecommendation[];
+}
+
+// Rough planning figures for background GPS tracking
+const AVERAGE_TRIP_SPEED = 11; // m/s, same as the alarm card ETA
+const TRACKING_DRAIN_PER_HOUR = 0.12; // fraction of battery per hour
+const RESERVE_LEVEL = 0.05; // keep this much for the alarm itself
+const LOW_BATTERY_LEVEL = 0.2;
+const MODERATE_BATTERY_LEVEL = 0.4;
+
+export class BatteryServiceImpl implements BatteryService {
+  private subscriptions: { remove: () => void }[] = [];
+  private lastSnapshot: BatterySnapshot = {
+    level: null,
+    state: "unknown",
+    isLowPowerMode: false,
+  };
+
+  async getSnapshot(): Promise<BatterySnapshot> {
+    const [level, state, isLowPowerMode] = await Promise.all([
+      Battery.getBatteryLevelAsync(),
+      Battery.getBatteryStateAsync(),
+      Battery.isLowPowerModeEnabledAsync(),
+    ]);
+
+    this.lastSnapshot = {
+      // expo-battery reports -1 when the level can't be determined
+      level: level >= 0 ? level : null,
+      state: this.mapBatteryState(state),
+      isLowPowerMode,
+    };
+    return this.lastSnapshot;
+  }
+
+  /**
+   * Subscribe to level, charging and low-power changes. Replaces any
+   * previous listener.
+   */
+  async startMonitoring(listener: BatteryListener): Promise<void> {
+    this.stopMonitoring();
+
+    const emit = (changes: Partial<BatterySnapshot>) => {
+      this.lastSnapshot = { ...this.lastSnapshot, ...changes };
+      listener(this.lastSnapshot);
+    };
+
+    this.subscriptions = [
+      Battery.addBatteryLevelListener(({ batteryLevel }) =>
+        emit({ level: batteryLevel >= 0 ? batteryLevel : null }),
+      ),
+      Battery.addBatteryStateListener(({ batteryState }) =>
+        emit({ state: this.mapBatteryState(batteryState) }),
+      ),
+      Battery.addLowPowerModeListener(({ lowPowerMode }) =>
+        emit({ isLowPowerMode: lowPowerMode }),
+      ),
+    ];
+
+    listener(await this.getSnapshot());
+  }
+
+  stopMonitoring(): void {
+    this.subscriptions.forEach((subscription) => subscription.remove());
+    this.subscriptions = [];
+  }
+
+  /**
+   * How aggressively tracking should save power for the current battery
+   */
+  getOptimizationLevel(
+    snapshot: BatterySnapshot,
+    batteryOptimizationEnabled: boolean,
+  ): BatteryState["optimizationLevel"] {
+    if (!batteryOptimizationEnabled) return "none";
+    if (this.isCharging(snapshot)) return "light";
+    if (
+      snapshot.isLowPowerMode ||
+      (snapshot.level !== null && snapshot.level <= LOW_BATTERY_LEVEL)
+    ) {
+      return "maximum";
+    }
+    if (snapshot.level !== null && snapshot.level <= MODERATE_BATTERY_LEVEL) {
+      return "moderate";
+    }
+    return "light";
+  }
+
+  /**
+   * Build user-facing advice for the current battery and trip
+   */
+  getRecommendations({
+    snapshot,
+    tripDistance,
+    batteryOptimizationEnabled,
+  }: BatteryRecommendationInput): BatteryRecommendation[] {
+    const recommendations: BatteryRecommendation[] = [];
+    const { level } = snapshot;
+
+    if (level === null || this.isCharging(snapshot)) {
+      return recommendations;
+    }
+
+    const percent = Math.round(level * 100);
+
+    if (tripDistance !== null && tripDistance > 0) {
+      const tripHours = tripDistance / AVERAGE_TRIP_SPEED / 3600;
+      const estimatedDrain = tripHours * TRACKING_DRAIN_PER_HOUR;
+
+      if (level - estimatedDrain < RESERVE_LEVEL) {
+        recommendations.push({
+          type: "warning",
+          title: "Battery may not last this trip",
+          message: `You're on ${percent}% with ${(tripDistance / 1000).toFixed(0)} km to go. Tracking could use about ${Math.ceil(estimatedDrain * 100)}% — charge your phone so the alarm can still ring.`,
+        });
+      }
+    }
+
+    if (level <= LOW_BATTERY_LEVEL && recommendations.length === 0) {
+      recommendations.push({
+        type: "warning",
+        title: "Low battery",
+        message: `Battery is at ${percent}%. If your phone dies, your alarm won't ring.`,
+      });
+    }
+
+    if (!batteryOptimizationEnabled && level <= MODERATE_BATTERY_LEVEL) {
+      recommendations.push({
+        type: "suggestion",
+        title: "Turn on Smart Location Tracking",
+        message:
+          "Using less GPS while you're far from your destination will stretch your battery.",
+      });
+    }
+
+    if (snapshot.isLowPowerMode) {
+      recommendations.push({
+        type: "info",
+        title: "Low Power Mode is on",
+        message:
+          "Your phone may delay background location updates, so alarms can fire a little late.",
+      });
+    }
+
+    return recommendations;
+  }
+
+  private isCharging(snapshot: BatterySnapshot): boolean {
+    return snapshot.state === "charging" || snapshot.state === "full";
+  }
+
+  private mapBatteryState(state: Battery.BatteryState): BatteryState["state"] {
+    switch (state) {
+      case Battery.BatteryState.UNPLUGGED:
+        return "unplugged";
+      case Battery.BatteryState.CHARGING:
+        return "charging";
+      case Battery.BatteryState.FULL:
+        return "full";
+      default:
+        return "unknown";
+    }
+  }
+}
+
+// Export singleton instance
+export const batteryService = new BatteryServiceImpl();
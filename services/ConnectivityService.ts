@@ -0,0 +1,106 @@
+// Network connectivity monitoring service for HopOff app
+import NetInfo, {
+  NetInfoState,
+  NetInfoStateType,
+} from "@react-native-community/netinfo";
+import * as Location from "expo-location";
+import { ConnectivityState } from "../types";
+
+export interface ConnectivitySnapshot {
+  isOnline: boolean;
+  connectionType: ConnectivityState["connectionType"];
+}
+
+export type ConnectivityListener = (snapshot: ConnectivitySnapshot) => void;
+
+export interface ConnectivityService {
+  getSnapshot(): Promise<ConnectivitySnapshot>;
+  startMonitoring(listener: ConnectivityListener): Promise<void>;
+  stopMonitoring(): void;
+  isOnline(): boolean;
+  areLocationServicesEnabled(): Promise<boolean>;
+}
+
+export class ConnectivityServiceImpl implements ConnectivityService {
+  private unsubscribe: (() => void) | null = null;
+  // Assume online until told otherwise so nothing is blocked during boot
+  private lastSnapshot: ConnectivitySnapshot = {
+    isOnline: true,
+    connectionType: "unknown",
+  };
+
+  async getSnapshot(): Promise<ConnectivitySnapshot> {
+    const state = await NetInfo.fetch();
+    this.lastSnapshot = this.toSnapshot(state);
+    return this.lastSnapshot;
+  }
+
+  /**
+   * Subscribe to network changes. Replaces any previous listener.
+   */
+  async startMonitoring(listener: ConnectivityListener): Promise<void> {
+    this.stopMonitoring();
+
+    this.unsubscribe = NetInfo.addEventListener((state) => {
+      this.lastSnapshot = this.toSnapshot(state);
+      listener(this.lastSnapshot);
+    });
+
+    listener(await this.getSnapshot());
+  }
+
+  stopMonitoring(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Last known network status, for services that must decide synchronously
+   * whether to hit the network
+   */
+  isOnline(): boolean {
+    return this.lastSnapshot.isOnline;
+  }
+
+  /**
+   * Geofencing only needs GPS, not a network, but it does need location
+   * services switched on
+   */
+  async areLocationServicesEnabled(): Promise<boolean> {
+    try {
+      return await Location.hasServicesEnabledAsync();
+    } catch {
+      return false;
+    }
+  }
+
+  private toSnapshot(state: NetInfoState): ConnectivitySnapshot {
+    return {
+      // isInternetReachable is null until the reachability check completes
+      isOnline:
+        state.isConnected === true && state.isInternetReachable !== false,
+      connectionType: this.mapConnectionType(state.type),
+    };
+  }
+
+  private mapConnectionType(
+    type: NetInfoStateType,
+  ): ConnectivityState["connectionType"] {
+    switch (type) {
+      case NetInfoStateType.none:
+        return "none";
+      case NetInfoStateType.wifi:
+      case NetInfoStateType.ethernet:
+        return "wifi";
+      case NetInfoStateType.cellular:
+        return "cellular";
+      default:
+        return "unknown";
+    }
+  }
+}
+
+// Export singleton instance
+export const connectivityService = new ConnectivityServiceImpl();
@@ -1,6 +1,52 @@
-// SQLite database manager for saved destinations
+// SQLite database manager for saved destinations, trip history, destination
+// usage and the geocoding cache
 import * as SQLite from "expo-sqlite";
-import { Destination } from "../types";
+import {
+  AlarmSettings,
+  Coordinate,
+  Destination,
+  DestinationArea,
+  DestinationFileFormat,
+  DestinationImportResult,
+  DestinationUsageEvent,
+  Trip,
+  TripOutcome,
+  VALIDATION_CONSTANTS,
+} from "../types";
+import {
+  calculateDistance,
+  generateId,
+  parseTagInput,
+  sanitizeAddress,
+  sanitizeDestinationName,
+  validateDestination,
+} from "../utils";
+import {
+  parseDestinations,
+  serializeDestinations,
+} from "../utils/DestinationFormats";
+import { runMigrations } from "./DatabaseMigrations";
+import {
+  buildTrigramMatchQuery,
+  rankDestinationMatches,
+  SEARCH_CANDIDATE_LIMIT,
+} from "./DestinationSearchPolicy";
+
+export type GeocodeCacheKind = "search" | "reverse";
+
+export interface GeocodeCacheEntry {
+  kind: GeocodeCacheKind;
+  key: string;
+  payload: string; // JSON-encoded results
+  createdAt: number; // epoch ms, drives TTL
+  lastAccessedAt: number; // epoch ms, drives LRU eviction
+}
+
+export interface TripCloseUpdate {
+  outcome: Exclude<TripOutcome, "active">;
+  endedAt: string;
+  distanceAtTrigger?: number | null;
+}
 
 export interface DatabaseManager {
   initializeDatabase(): Promise<void>;
@@ -8,7 +54,69 @@ export interface DatabaseManager {
   getSavedDestinations(): Promise<Destination[]>;
   deleteDestination(id: string): Promise<void>;
   updateDestination(id: string, updates: Partial<Destination>): Promise<void>;
-  searchDestinations(query: string): Promise<Destination[]>;
+  reorderDestinations(orderedIds: string[]): Promise<void>;
+  searchDestinations(
+    query: string,
+    near?: Coordinate | null,
+  ): Promise<Destination[]>;
+  exportDestinations(format: DestinationFileFormat): Promise<string>;
+  importDestinations(
+    content: string,
+    format: DestinationFileFormat,
+  ): Promise<DestinationImportResult>;
+  getGeocodeCacheEntries(kind: GeocodeCacheKind): Promise<GeocodeCacheEntry[]>;
+  putGeocodeCacheEntry(
+    entry: GeocodeCacheEntry,
+    maxEntries: number,
+  ): Promise<void>;
+  touchGeocodeCacheEntry(
+    kind: GeocodeCacheKind,
+    key: string,
+    accessedAt: number,
+  ): Promise<void>;
+  pruneGeocodeCache(createdBefore: number): Promise<void>;
+  clearGeocodeCache(): Promise<void>;
+  recordTrip(trip: Trip): Promise<void>;
+  closeTrip(id: string, update: TripCloseUpdate): Promise<void>;
+  getTrips(outcome?: TripOutcome): Promise<Trip[]>;
+  clearTrips(): Promise<void>;
+  recordDestinationUsage(event: DestinationUsageEvent): Promise<void>;
+  getDestinationUsage(since: string): Promise<DestinationUsageEvent[]>;
+  pruneDestinationUsage(occurredBefore: string): Promise<void>;
+}
+
+// Areas are stored as JSON; a corrupt one falls back to the destination's
+// centre point
+function parseArea(value: string | null): DestinationArea | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as DestinationArea;
+  } catch {
+    return undefined;
+  }
+}
+
+// Per-destination alarm settings are stored as JSON
+function parseAlarmSettings(
+  value: string | null,
+): Partial<AlarmSettings> | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as Partial<AlarmSettings>;
+  } catch {
+    return undefined;
+  }
+}
+
+// Tags are stored as a JSON array
+function parseTags(value: string | null): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const tags = JSON.parse(value);
+    return Array.isArray(tags) && tags.length > 0 ? tags : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 class DatabaseManagerImpl implements DatabaseManager {
@@ -51,19 +159,7 @@ class DatabaseManagerImpl implements DatabaseManager {
 
       this.db = await SQLite.openDatabaseAsync("hopoff.db");
 
-      await this.db.execAsync(`
-        CREATE TABLE IF NOT EXISTS destinations (
-          id TEXT PRIMARY KEY,
-          name TEXT NOT NULL,
-          latitude REAL NOT NULL,
-          longitude REAL NOT NULL,
-          address TEXT,
-          createdAt TEXT NOT NULL
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_destinations_name ON destinations(name);
-        CREATE INDEX IF NOT EXISTS idx_destinations_created ON destinations(createdAt);
-      `);
+      await runMigrations(this.db);
 
       this.initialized = true;
     } catch (error) {
@@ -96,14 +192,22 @@ class DatabaseManagerImpl implements DatabaseManager {
     try {
       await db.runAsync(
         `INSERT OR REPLACE INTO destinations 
-         (id, name, latitude, longitude, address, createdAt) 
-         VALUES (?, ?, ?, ?, ?, ?)`,
+         (id, name, latitude, longitude, address, area, category, tags, pinned, sortOrder, alarmSettings, createdAt) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           destination.id,
           destination.name,
           destination.coordinate.latitude,
           destination.coordinate.longitude,
           destination.address || null,
+          destination.area ? JSON.stringify(destination.area) : null,
+          destination.category || null,
+          destination.tags?.length ? JSON.stringify(destination.tags) : null,
+          destination.pinned ? 1 : 0,
+          destination.sortOrder ?? null,
+          destination.alarmSettings
+            ? JSON.stringify(destination.alarmSettings)
+            : null,
           typeof destination.createdAt === "string"
             ? destination.createdAt
             : new Date(destination.createdAt).toISOString(),
@@ -125,7 +229,8 @@ class DatabaseManagerImpl implements DatabaseManager {
 
     try {
       const result = await db.getAllAsync(
-        "SELECT * FROM destinations ORDER BY createdAt DESC",
+        `SELECT * FROM destinations
+         ORDER BY pinned DESC, sortOrder IS NULL, sortOrder, createdAt DESC`,
       );
 
       return result.map(this.mapRowToDestination);
@@ -174,6 +279,32 @@ class DatabaseManagerImpl implements DatabaseManager {
         setParts.push("address = ?");
         values.push(updates.address);
       }
+      if ("area" in updates) {
+        setParts.push("area = ?");
+        values.push(updates.area ? JSON.stringify(updates.area) : null);
+      }
+      if ("category" in updates) {
+        setParts.push("category = ?");
+        values.push(updates.category || null);
+      }
+      if ("tags" in updates) {
+        setParts.push("tags = ?");
+        values.push(updates.tags?.length ? JSON.stringify(updates.tags) : null);
+      }
+      if (updates.pinned !== undefined) {
+        setParts.push("pinned = ?");
+        values.push(updates.pinned ? 1 : 0);
+      }
+      if ("sortOrder" in updates) {
+        setParts.push("sortOrder = ?");
+        values.push(updates.sortOrder ?? null);
+      }
+      if ("alarmSettings" in updates) {
+        setParts.push("alarmSettings = ?");
+        values.push(
+          updates.alarmSettings ? JSON.stringify(updates.alarmSettings) : null,
+        );
+      }
 
       if (setParts.length === 0) {
         return; // No updates to make
@@ -192,19 +323,77 @@ class DatabaseManagerImpl implements DatabaseManager {
     }
   }
 
-  async searchDestinations(query: string): Promise<Destination[]> {
+  /**
+   * Save a custom order: each listed destination takes its position in the
+   * list as its sort order
+   */
+  async reorderDestinations(orderedIds: string[]): Promise<void> {
     const db = await this.ensureDatabase();
 
     try {
-      const searchQuery = `%${query.toLowerCase()}%`;
-      const result = await db.getAllAsync(
-        `SELECT * FROM destinations 
-         WHERE LOWER(name) LIKE ? OR LOWER(address) LIKE ?
-         ORDER BY createdAt DESC`,
-        [searchQuery, searchQuery],
+      await db.withTransactionAsync(async () => {
+        for (const [index, id] of orderedIds.entries()) {
+          await db.runAsync(
+            "UPDATE destinations SET sortOrder = ? WHERE id = ?",
+            [index, id],
+          );
+        }
+      });
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to reorder destinations: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
+    }
+  }
 
-      return result.map(this.mapRowToDestination);
+  /**
+   * Search saved destinations by name, address, category and tags. Typos
+   * are tolerated, and results near `near` or used often rank higher.
+   */
+  async searchDestinations(
+    query: string,
+    near?: Coordinate | null,
+  ): Promise<Destination[]> {
+    const db = await this.ensureDatabase();
+
+    try {
+      const match = buildTrigramMatchQuery(query);
+      let result: unknown[];
+      if (match) {
+        result = await db.getAllAsync(
+          `SELECT d.* FROM destinations_fts f
+           JOIN destinations d ON d.id = f.id
+           WHERE destinations_fts MATCH ?
+           ORDER BY f.rank
+           LIMIT ?`,
+          [match, SEARCH_CANDIDATE_LIMIT],
+        );
+      } else {
+        // Words under three letters are too short for the trigram index
+        const searchQuery = `%${query.toLowerCase()}%`;
+        result = await db.getAllAsync(
+          `SELECT * FROM destinations 
+           WHERE LOWER(name) LIKE ? OR LOWER(address) LIKE ?
+             OR LOWER(category) LIKE ? OR LOWER(tags) LIKE ?
+           LIMIT ?`,
+          [
+            searchQuery,
+            searchQuery,
+            searchQuery,
+            searchQuery,
+            SEARCH_CANDIDATE_LIMIT,
+          ],
+        );
+      }
+
+      const candidates = result.map(this.mapRowToDestination);
+      const usageCounts = await this.getUsageCounts(db, candidates);
+      return rankDestinationMatches(candidates, query, {
+        origin: near,
+        usageCounts,
+      });
     } catch (error) {
       // Reset initialization state on error - database connection might be stale
       this.initialized = false;
@@ -214,6 +403,438 @@ class DatabaseManagerImpl implements DatabaseManager {
     }
   }
 
+  /**
+   * Count the alarms armed for each destination in the usage log, which is
+   * pruned to recent use. Usage doesn't record which saved destination it
+   * came from, so alarms armed nearby are counted.
+   */
+  private async getUsageCounts(
+    db: SQLite.SQLiteDatabase,
+    destinations: Destination[],
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (destinations.length === 0) return counts;
+
+    const places = await db.getAllAsync<{
+      latitude: number;
+      longitude: number;
+      uses: number;
+    }>(
+      `SELECT latitude, longitude, COUNT(*) AS uses FROM destination_usage
+       WHERE kind = 'armed'
+       GROUP BY latitude, longitude`,
+    );
+    for (const destination of destinations) {
+      const uses = places
+        .filter(
+          (place) =>
+            calculateDistance(place, destination.coordinate) <=
+            VALIDATION_CONSTANTS.SAVED_DESTINATION_MATCH_DISTANCE,
+        )
+        .reduce((total, place) => total + place.uses, 0);
+      if (uses > 0) counts.set(destination.id, uses);
+    }
+    return counts;
+  }
+
+  /**
+   * Write every saved destination to a GPX, KML or GeoJSON file
+   */
+  async exportDestinations(format: DestinationFileFormat): Promise<string> {
+    const destinations = await this.getSavedDestinations();
+    // Oldest first, so a re-import keeps the original order
+    return serializeDestinations(
+      [...destinations].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      format,
+    );
+  }
+
+  /**
+   * Save the destinations in a GPX, KML or GeoJSON file. Entries that fail
+   * validation are skipped, as are ones within IMPORT_DUPLICATE_DISTANCE of
+   * a saved destination or of an earlier entry in the same file.
+   */
+  async importDestinations(
+    content: string,
+    format: DestinationFileFormat,
+  ): Promise<DestinationImportResult> {
+    const candidates = parseDestinations(content, format);
+    const known = await this.getSavedDestinations();
+    const result: DestinationImportResult = {
+      imported: [],
+      duplicates: 0,
+      invalid: 0,
+    };
+
+    for (const candidate of candidates) {
+      const createdAt = candidate.createdAt
+        ? new Date(candidate.createdAt)
+        : null;
+      const destination: Destination = {
+        id: generateId("dest"),
+        name: sanitizeDestinationName(candidate.name),
+        coordinate: candidate.coordinate,
+        address: candidate.address
+          ? sanitizeAddress(candidate.address) || undefined
+          : undefined,
+        area: candidate.area,
+        category:
+          candidate.category
+            ?.trim()
+            .substring(0, VALIDATION_CONSTANTS.MAX_CATEGORY_LENGTH) ||
+          undefined,
+        tags: candidate.tags
+          ? parseTagInput(candidate.tags.join(","))
+          : undefined,
+        pinned: candidate.pinned,
+        createdAt:
+          createdAt && !isNaN(createdAt.getTime())
+            ? createdAt.toISOString()
+            : new Date().toISOString(),
+      };
+
+      if (!validateDestination(destination).isValid) {
+        result.invalid++;
+        continue;
+      }
+
+      const isDuplicate = known.some(
+        (existing) =>
+          calculateDistance(existing.coordinate, destination.coordinate) <=
+          VALIDATION_CONSTANTS.IMPORT_DUPLICATE_DISTANCE,
+      );
+      if (isDuplicate) {
+        result.duplicates++;
+        continue;
+      }
+
+      await this.saveDestination(destination);
+      known.push(destination);
+      result.imported.push(destination);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get cached geocoding entries, least recently used first
+   */
+  async getGeocodeCacheEntries(
+    kind: GeocodeCacheKind,
+  ): Promise<GeocodeCacheEntry[]> {
+    const db = await this.ensureDatabase();
+
+    try {
+      return await db.getAllAsync<GeocodeCacheEntry>(
+        `SELECT kind, key, payload, createdAt, lastAccessedAt FROM geocode_cache
+         WHERE kind = ?
+         ORDER BY lastAccessedAt ASC`,
+        [kind],
+      );
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to get geocode cache: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Store a geocoding entry, then evict the least recently used entries of
+   * the same kind beyond maxEntries
+   */
+  async putGeocodeCacheEntry(
+    entry: GeocodeCacheEntry,
+    maxEntries: number,
+  ): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO geocode_cache
+           (kind, key, payload, createdAt, lastAccessedAt)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            entry.kind,
+            entry.key,
+            entry.payload,
+            entry.createdAt,
+            entry.lastAccessedAt,
+          ],
+        );
+        await db.runAsync(
+          `DELETE FROM geocode_cache
+           WHERE kind = ? AND key NOT IN (
+             SELECT key FROM geocode_cache
+             WHERE kind = ?
+             ORDER BY lastAccessedAt DESC
+             LIMIT ?
+           )`,
+          [entry.kind, entry.kind, maxEntries],
+        );
+      });
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to save geocode cache entry: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async touchGeocodeCacheEntry(
+    kind: GeocodeCacheKind,
+    key: string,
+    accessedAt: number,
+  ): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync(
+        "UPDATE geocode_cache SET lastAccessedAt = ? WHERE kind = ? AND key = ?",
+        [accessedAt, kind, key],
+      );
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to update geocode cache entry: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async pruneGeocodeCache(createdBefore: number): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync("DELETE FROM geocode_cache WHERE createdAt < ?", [
+        createdBefore,
+      ]);
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to prune geocode cache: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async clearGeocodeCache(): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync("DELETE FROM geocode_cache");
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to clear geocode cache: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async recordTrip(trip: Trip): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO trips
+         (id, destinationName, destinationAddress, latitude, longitude, alarmType,
+          settings, armedAt, firedAt, endedAt, distanceAtTrigger, outcome)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          trip.id,
+          trip.destinationName,
+          trip.destinationAddress || null,
+          trip.coordinate.latitude,
+          trip.coordinate.longitude,
+          trip.alarmType,
+          JSON.stringify(trip.settings),
+          trip.armedAt,
+          trip.firedAt,
+          trip.endedAt,
+          trip.distanceAtTrigger,
+          trip.outcome,
+        ],
+      );
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to record trip: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Close an active trip. Trips that already have an outcome are left alone,
+   * so a late cancel can't overwrite a trip that fired in the background.
+   */
+  async closeTrip(id: string, update: TripCloseUpdate): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync(
+        `UPDATE trips
+         SET outcome = ?, endedAt = ?, firedAt = ?, distanceAtTrigger = ?
+         WHERE id = ? AND outcome = 'active'`,
+        [
+          update.outcome,
+          update.endedAt,
+          update.outcome === "fired" ? update.endedAt : null,
+          update.distanceAtTrigger ?? null,
+          id,
+        ],
+      );
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to close trip: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async getTrips(outcome?: TripOutcome): Promise<Trip[]> {
+    const db = await this.ensureDatabase();
+
+    try {
+      const result = outcome
+        ? await db.getAllAsync(
+            "SELECT * FROM trips WHERE outcome = ? ORDER BY armedAt DESC",
+            [outcome],
+          )
+        : await db.getAllAsync("SELECT * FROM trips ORDER BY armedAt DESC");
+
+      return result.map(this.mapRowToTrip);
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to get trips: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async clearTrips(): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      // Keep trips that are still running so they can be closed later
+      await db.runAsync("DELETE FROM trips WHERE outcome != 'active'");
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to clear trips: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async recordDestinationUsage(event: DestinationUsageEvent): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync(
+        `INSERT INTO destination_usage
+         (destinationName, destinationAddress, latitude, longitude,
+          originLatitude, originLongitude, kind, occurredAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.destinationName,
+          event.destinationAddress || null,
+          event.coordinate.latitude,
+          event.coordinate.longitude,
+          event.origin?.latitude ?? null,
+          event.origin?.longitude ?? null,
+          event.kind,
+          event.occurredAt,
+        ],
+      );
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to record destination usage: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Get usage events at or after `since` (an ISO timestamp), newest first
+   */
+  async getDestinationUsage(since: string): Promise<DestinationUsageEvent[]> {
+    const db = await this.ensureDatabase();
+
+    try {
+      const result = await db.getAllAsync(
+        "SELECT * FROM destination_usage WHERE occurredAt >= ? ORDER BY occurredAt DESC",
+        [since],
+      );
+      return result.map(this.mapRowToUsageEvent);
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to get destination usage: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  async pruneDestinationUsage(occurredBefore: string): Promise<void> {
+    const db = await this.ensureDatabase();
+
+    try {
+      await db.runAsync("DELETE FROM destination_usage WHERE occurredAt < ?", [
+        occurredBefore,
+      ]);
+    } catch (error) {
+      // Reset initialization state on error - database connection might be stale
+      this.initialized = false;
+      throw new Error(
+        `Failed to prune destination usage: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  private mapRowToTrip(row: any): Trip {
+    return {
+      id: row.id,
+      destinationName: row.destinationName,
+      destinationAddress: row.destinationAddress || undefined,
+      coordinate: {
+        latitude: row.latitude,
+        longitude: row.longitude,
+      },
+      alarmType: row.alarmType,
+      settings: JSON.parse(row.settings),
+      armedAt: row.armedAt,
+      firedAt: row.firedAt ?? null,
+      endedAt: row.endedAt ?? null,
+      distanceAtTrigger: row.distanceAtTrigger ?? null,
+      outcome: row.outcome,
+    };
+  }
+
+  private mapRowToUsageEvent(row: any): DestinationUsageEvent {
+    return {
+      destinationName: row.destinationName,
+      destinationAddress: row.destinationAddress || undefined,
+      coordinate: {
+        latitude: row.latitude,
+        longitude: row.longitude,
+      },
+      origin:
+        row.originLatitude != null && row.originLongitude != null
+          ? { latitude: row.originLatitude, longitude: row.originLongitude }
+          : null,
+      kind: row.kind,
+      occurredAt: row.occurredAt,
+    };
+  }
+
   private mapRowToDestination(row: any): Destination {
     return {
       id: row.id,
@@ -223,6 +844,12 @@ class DatabaseManagerImpl implements DatabaseManager {
         longitude: row.longitude,
       },
       address: row.address || undefined,
+      area: parseArea(row.area),
+      category: row.category || undefined,
+      tags: parseTags(row.tags),
+      pinned: Boolean(row.pinned),
+      sortOrder: row.sortOrder ?? undefined,
+      alarmSettings: parseAlarmSettings(row.alarmSettings),
       createdAt: row.createdAt,
     };
   }
@@ -0,0 +1,282 @@
+// Versioned schema migrations for the HopOff database
+//
+// The schema version lives in SQLite's `PRAGMA user_version` (0 on a new
+// file). Each migration runs in its own transaction together with the
+// version bump, so a failure rolls back to the last good version and the
+// next launch retries from there.
+
+// The part of an expo-sqlite database the migrations use, so the runner can
+// be driven by any SQLite connection
+export interface MigrationDatabase {
+  execAsync(source: string): Promise<void>;
+  getFirstAsync<T>(source: string): Promise<T | null>;
+  getAllAsync<T>(source: string): Promise<T[]>;
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+export interface Migration {
+  version: number; // the user_version after this migration; 1, 2, 3...
+  name: string;
+  up(db: MigrationDatabase): Promise<void>;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    public version: number,
+    message: string,
+    public originalError?: Error,
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Add a column unless the table already has it. Databases created before
+ * versioning started may already have columns that a migration adds.
+ */
+async function addColumnIfMissing(
+  db: MigrationDatabase,
+  table: string,
+  column: string,
+  definition: string,
+): Promise<void> {
+  const columns = await db.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  if (!columns.some((c) => c.name === column)) {
+    await db.execAsync(
+      `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+    );
+  }
+}
+
+// Append new migrations to the end; never edit or reorder shipped ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    // IF NOT EXISTS, as databases from before versioning are at version 0
+    // with these tables already in place
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS destinations (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          latitude REAL NOT NULL,
+          longitude REAL NOT NULL,
+          address TEXT,
+          createdAt TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_destinations_name ON destinations(name);
+        CREATE INDEX IF NOT EXISTS idx_destinations_created ON destinations(createdAt);
+
+        CREATE TABLE IF NOT EXISTS geocode_cache (
+          kind TEXT NOT NULL,
+          key TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          createdAt INTEGER NOT NULL,
+          lastAccessedAt INTEGER NOT NULL,
+          PRIMARY KEY (kind, key)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_geocode_cache_accessed ON geocode_cache(kind, lastAccessedAt);
+
+        CREATE TABLE IF NOT EXISTS trips (
+          id TEXT PRIMARY KEY,
+          destinationName TEXT NOT NULL,
+          destinationAddress TEXT,
+          latitude REAL NOT NULL,
+          longitude REAL NOT NULL,
+          alarmType TEXT NOT NULL,
+          settings TEXT NOT NULL,
+          armedAt TEXT NOT NULL,
+          firedAt TEXT,
+          endedAt TEXT,
+          distanceAtTrigger REAL,
+          outcome TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_trips_armed ON trips(armedAt);
+        CREATE INDEX IF NOT EXISTS idx_trips_outcome ON trips(outcome);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "destination areas",
+    up: async (db) => {
+      await addColumnIfMissing(db, "destinations", "area", "TEXT");
+    },
+  },
+  {
+    version: 3,
+    name: "destination categories, tags and favourites",
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE destinations ADD COLUMN category TEXT;
+        ALTER TABLE destinations ADD COLUMN tags TEXT;
+        ALTER TABLE destinations ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE destinations ADD COLUMN sortOrder INTEGER;
+
+        CREATE INDEX IF NOT EXISTS idx_destinations_category ON destinations(category);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "destination alarm settings",
+    up: async (db) => {
+      await db.execAsync(
+        "ALTER TABLE destinations ADD COLUMN alarmSettings TEXT",
+      );
+    },
+  },
+  {
+    version: 5,
+    name: "destination full-text search",
+    // A trigram index matches substrings and lets search find words with
+    // typos. It keeps its own copy of the text, keyed by destination id,
+    // and triggers keep it in step. The insert trigger clears any old copy
+    // first, as INSERT OR REPLACE doesn't fire delete triggers.
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS destinations_fts USING fts5(
+          id UNINDEXED,
+          name,
+          address,
+          category,
+          tags,
+          tokenize = 'trigram'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS destinations_fts_insert
+        AFTER INSERT ON destinations BEGIN
+          DELETE FROM destinations_fts WHERE id = new.id;
+          INSERT INTO destinations_fts (id, name, address, category, tags)
+          VALUES (new.id, new.name, new.address, new.category, new.tags);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS destinations_fts_update
+        AFTER UPDATE ON destinations BEGIN
+          DELETE FROM destinations_fts WHERE id = old.id;
+          INSERT INTO destinations_fts (id, name, address, category, tags)
+          VALUES (new.id, new.name, new.address, new.category, new.tags);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS destinations_fts_delete
+        AFTER DELETE ON destinations BEGIN
+          DELETE FROM destinations_fts WHERE id = old.id;
+        END;
+
+        INSERT INTO destinations_fts (id, name, address, category, tags)
+        SELECT id, name, address, category, tags FROM destinations;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "destination usage",
+    // Seeded from the trip log so existing users get suggestions straight
+    // away; trips don't know where the user set off from
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS destination_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          destinationName TEXT NOT NULL,
+          destinationAddress TEXT,
+          latitude REAL NOT NULL,
+          longitude REAL NOT NULL,
+          originLatitude REAL,
+          originLongitude REAL,
+          kind TEXT NOT NULL,
+          occurredAt TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_destination_usage_occurred ON destination_usage(occurredAt);
+
+        INSERT INTO destination_usage
+          (destinationName, destinationAddress, latitude, longitude, kind, occurredAt)
+        SELECT destinationName, destinationAddress, latitude, longitude, 'armed', armedAt
+        FROM trips;
+
+        INSERT INTO destination_usage
+          (destinationName, destinationAddress, latitude, longitude, kind, occurredAt)
+        SELECT destinationName, destinationAddress, latitude, longitude, 'fired', firedAt
+        FROM trips WHERE firedAt IS NOT NULL;
+      `);
+    },
+  },
+];
+
+/**
+ * Read the database's schema version
+ */
+export async function getSchemaVersion(db: MigrationDatabase): Promise<number> {
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version",
+  );
+  return row?.user_version ?? 0;
+}
+
+// Versions must start above 0 and strictly increase, or the runner could
+// skip or repeat a migration
+function assertOrdered(migrations: Migration[]): void {
+  migrations.reduce((previous, migration) => {
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new MigrationError(
+        migration.version,
+        `Migration "${migration.name}" has version ${migration.version}, which must be an integer above ${previous}`,
+      );
+    }
+    return migration.version;
+  }, 0);
+}
+
+/**
+ * Bring a database up to the latest schema version, running each pending
+ * migration in order inside its own transaction
+ * @param db Database to migrate
+ * @param migrations Migrations in version order; defaults to MIGRATIONS
+ * @returns The schema version the database is left at
+ * @throws MigrationError if the list is misordered or a migration fails;
+ * the failed migration is rolled back and earlier ones are kept
+ */
+export async function runMigrations(
+  db: MigrationDatabase,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<number> {
+  assertOrdered(migrations);
+
+  let version = await getSchemaVersion(db);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (version > latest) {
+    // Written by a newer app version; its extra schema is left alone
+    console.warn(
+      `Database schema version ${version} is newer than this app's ${latest}`,
+    );
+    return version;
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      throw new MigrationError(
+        migration.version,
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    version = migration.version;
+  }
+
+  return version;
+}
@@ -0,0 +1,62 @@
+// Presence tracking for departure alarms for HopOff app
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export interface DepartureTracker {
+  markInside(alarmId: string): Promise<void>;
+  hasBeenInside(alarmId: string): Promise<boolean>;
+  forget(alarmIds: string[]): Promise<void>;
+}
+
+// Storage key for AsyncStorage
+const DEPARTURE_PRESENCE_STORAGE_KEY = "hopoff_departure_presence";
+
+/**
+ * Remembers which departure alarms the user has been seen inside. A
+ * departure alarm only fires on leaving after it has seen the user inside,
+ * so one armed from elsewhere waits for the first visit, and Android's
+ * initial exit event on registering a geofence from outside is ignored.
+ * Shared by the geofence handler and the background task.
+ */
+export class DepartureTrackerImpl implements DepartureTracker {
+  async markInside(alarmId: string): Promise<void> {
+    const inside = await this.read();
+    if (inside.includes(alarmId)) return;
+    await this.write([...inside, alarmId]);
+  }
+
+  async hasBeenInside(alarmId: string): Promise<boolean> {
+    return (await this.read()).includes(alarmId);
+  }
+
+  async forget(alarmIds: string[]): Promise<void> {
+    if (alarmIds.length === 0) return;
+    const inside = await this.read();
+    const remaining = inside.filter((id) => !alarmIds.includes(id));
+    if (remaining.length !== inside.length) {
+      await this.write(remaining);
+    }
+  }
+
+  private async read(): Promise<string[]> {
+    try {
+      const raw = await AsyncStorage.getItem(DEPARTURE_PRESENCE_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as string[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async write(alarmIds: string[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        DEPARTURE_PRESENCE_STORAGE_KEY,
+        JSON.stringify(alarmIds),
+      );
+    } catch (error) {
+      console.error("Failed to save departure presence:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const departureTracker = new DepartureTrackerImpl();
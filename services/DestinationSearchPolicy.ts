@@ -0,0 +1,170 @@
+// Fuzzy matching and ranking policy for saved destination search
+import { Coordinate, Destination } from "../types";
+import { calculateDistance } from "../utils";
+
+// Most rows pulled from the full-text index before fuzzy ranking
+export const SEARCH_CANDIDATE_LIMIT = 200;
+
+// Text similarity (0-1) a destination needs to count as a match. Catches a
+// dropped or swapped letter ("centrl" for "central") without matching
+// unrelated words that share a trigram or two.
+const MIN_MATCH_SCORE = 0.45;
+
+// Matches in the address, category or tags count for less than in the name
+const SECONDARY_FIELD_WEIGHT = 0.8;
+
+// Nearby destinations get up to this much extra score, fading with distance
+const PROXIMITY_BOOST = 0.5;
+const PROXIMITY_SCALE = 5000; // meters; the boost drops to ~37% at this range
+
+// Frequently used destinations get up to this much extra score, reached at
+// USAGE_SATURATION uses
+const USAGE_BOOST = 0.3;
+const USAGE_SATURATION = 10;
+
+export interface SearchRankingContext {
+  origin?: Coordinate | null; // current location, if known
+  usageCounts?: ReadonlyMap<string, number>; // destination id -> times used
+}
+
+// Lower-case words with accents removed
+function getWords(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[\s,.;:!?()[\]{}"'/\\\-_#&+]+/)
+    .filter(Boolean);
+}
+
+function getTrigrams(word: string): Set<string> {
+  const trigrams = new Set<string>();
+  if (word.length < 3) {
+    trigrams.add(word);
+    return trigrams;
+  }
+  for (let i = 0; i <= word.length - 3; i++) {
+    trigrams.add(word.substring(i, i + 3));
+  }
+  return trigrams;
+}
+
+// 1 when the query word starts the candidate (still typing), otherwise the
+// Dice coefficient of their trigrams
+function getWordSimilarity(queryWord: string, candidate: string): number {
+  if (candidate.startsWith(queryWord)) return 1;
+  if (candidate.includes(queryWord)) return 0.9;
+
+  const a = getTrigrams(queryWord);
+  const b = getTrigrams(candidate);
+  let shared = 0;
+  for (const trigram of a) {
+    if (b.has(trigram)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+function getBestSimilarity(queryWord: string, words: string[]): number {
+  return words.reduce(
+    (best, word) => Math.max(best, getWordSimilarity(queryWord, word)),
+    0,
+  );
+}
+
+/**
+ * Build an FTS5 MATCH expression for a trigram-tokenized index that finds
+ * anything sharing a trigram with the query. Deliberately loose; the
+ * results are narrowed by scoreTextMatch.
+ * @param query Search text
+ * @returns MATCH expression, or null if no word is three letters long
+ */
+export function buildTrigramMatchQuery(query: string): string | null {
+  const trigrams = new Set<string>();
+  for (const word of query.toLowerCase().split(/\s+/)) {
+    if (word.length < 3) continue;
+    for (let i = 0; i <= word.length - 3; i++) {
+      trigrams.add(word.substring(i, i + 3));
+    }
+  }
+  if (trigrams.size === 0) return null;
+
+  return Array.from(
+    trigrams,
+    (trigram) => `"${trigram.replace(/"/g, '""')}"`,
+  ).join(" OR ");
+}
+
+/**
+ * Score how well a destination matches a query, tolerating typos
+ * @param destination Destination to score
+ * @param query Search text
+ * @returns 0 (no match) to 1 (every word matches exactly or as a prefix)
+ */
+export function scoreTextMatch(
+  destination: Destination,
+  query: string,
+): number {
+  const queryWords = getWords(query);
+  if (queryWords.length === 0) return 0;
+
+  const nameWords = getWords(destination.name);
+  const otherWords = [
+    ...getWords(destination.address),
+    ...getWords(destination.category),
+    ...(destination.tags ?? []).flatMap(getWords),
+  ];
+
+  const total = queryWords.reduce(
+    (sum, word) =>
+      sum +
+      Math.max(
+        getBestSimilarity(word, nameWords),
+        SECONDARY_FIELD_WEIGHT * getBestSimilarity(word, otherWords),
+      ),
+    0,
+  );
+  return total / queryWords.length;
+}
+
+/**
+ * Filter destinations to those matching a query and rank them: text match
+ * first, boosted for ones near the user and ones used often
+ * @param destinations Candidate destinations
+ * @param query Search text
+ * @param context Current location and usage counts, when known
+ * @returns Matching destinations, best first
+ */
+export function rankDestinationMatches(
+  destinations: Destination[],
+  query: string,
+  context: SearchRankingContext = {},
+): Destination[] {
+  const { origin, usageCounts } = context;
+
+  return destinations
+    .map((destination) => {
+      const textScore = scoreTextMatch(destination, query);
+
+      let boost = 0;
+      if (origin) {
+        const distance = calculateDistance(origin, destination.coordinate);
+        boost += PROXIMITY_BOOST * Math.exp(-distance / PROXIMITY_SCALE);
+      }
+      const uses = usageCounts?.get(destination.id) ?? 0;
+      if (uses > 0) {
+        boost +=
+          USAGE_BOOST *
+          Math.min(1, Math.log1p(uses) / Math.log1p(USAGE_SATURATION));
+      }
+
+      return { destination, textScore, score: textScore * (1 + boost) };
+    })
+    .filter(({ textScore }) => textScore >= MIN_MATCH_SCORE)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.destination.createdAt.localeCompare(a.destination.createdAt),
+    )
+    .map(({ destination }) => destination);
+}
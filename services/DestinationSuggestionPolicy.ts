@@ -0,0 +1,190 @@
+// Frecency ranking policy for suggested destinations on the map screen
+import {
+  Coordinate,
+  Destination,
+  DestinationUsageEvent,
+  DestinationUsageKind,
+} from "../types";
+import { calculateDistance, findSavedDestination } from "../utils";
+
+// Usage older than this no longer affects suggestions and can be pruned
+export const USAGE_RETENTION_DAYS = 90;
+
+// Suggestions shown at once
+export const MAX_SUGGESTIONS = 5;
+
+// Arriving says the most about where the user goes; a search result they
+// picked but never armed says the least
+const USAGE_KIND_WEIGHTS: Record<DestinationUsageKind, number> = {
+  fired: 1,
+  armed: 0.7,
+  searched: 0.3,
+};
+
+// A use counts half as much after this long
+const FRECENCY_HALF_LIFE_DAYS = 14;
+
+// Places used at this time of day get up to this much extra score. Uses
+// within about TIME_OF_DAY_SPREAD hours of now count as the same time.
+const TIME_OF_DAY_BOOST = 1;
+const TIME_OF_DAY_SPREAD = 1.5; // hours
+// Weekday uses count for less at the weekend, and the other way round
+const DAY_TYPE_MISMATCH_WEIGHT = 0.5;
+
+// Places usually set off for from around here get up to this much extra
+// score, e.g. "Home" when the user is at work
+const ORIGIN_BOOST = 1;
+const ORIGIN_MATCH_DISTANCE = 1000; // meters
+
+// Places the user is already at aren't worth suggesting
+const MIN_SUGGESTION_DISTANCE = 300; // meters
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SuggestionContext {
+  now: Date;
+  origin?: Coordinate | null; // current location, if known
+}
+
+function getHourOfDay(date: Date): number {
+  return date.getHours() + date.getMinutes() / 60;
+}
+
+function isWeekend(date: Date): boolean {
+  return date.getDay() === 0 || date.getDay() === 6;
+}
+
+// 1 for the same time of day, fading to ~0 a few hours either side
+function getTimeOfDayMatch(a: Date, b: Date): number {
+  const difference = Math.abs(getHourOfDay(a) - getHourOfDay(b));
+  const hours = Math.min(difference, 24 - difference);
+  const match = Math.exp(
+    -(hours * hours) / (2 * TIME_OF_DAY_SPREAD * TIME_OF_DAY_SPREAD),
+  );
+  return isWeekend(a) === isWeekend(b)
+    ? match
+    : match * DAY_TYPE_MISMATCH_WEIGHT;
+}
+
+/**
+ * Weight of one use: its kind, halved every FRECENCY_HALF_LIFE_DAYS
+ * @param event Usage event
+ * @param now Time to measure the event's age from
+ * @returns 0 for an unparseable timestamp, otherwise up to 1
+ */
+export function getUsageWeight(
+  event: DestinationUsageEvent,
+  now: Date,
+): number {
+  const occurredAt = Date.parse(event.occurredAt);
+  if (Number.isNaN(occurredAt)) return 0;
+
+  const ageDays = Math.max(0, now.getTime() - occurredAt) / DAY_MS;
+  return (
+    USAGE_KIND_WEIGHTS[event.kind] *
+    Math.pow(0.5, ageDays / FRECENCY_HALF_LIFE_DAYS)
+  );
+}
+
+// Groups uses of (roughly) the same place. Saved destinations are matched
+// by distance; other places by name and a ~100 m grid cell, as map-picked
+// destinations get a fresh id each time.
+function getPlaceKey(
+  event: DestinationUsageEvent,
+  saved: Destination | undefined,
+): string {
+  if (saved) return saved.id;
+  return `${event.destinationName.toLowerCase()}|${event.coordinate.latitude.toFixed(3)}|${event.coordinate.longitude.toFixed(3)}`;
+}
+
+interface PlaceScore {
+  destination: Destination;
+  frecency: number;
+  timeOfDay: number; // frecency-weighted time-of-day matches
+  fromHere: number; // frecency-weighted uses that started near the origin
+  withOrigin: number; // frecency-weighted uses with a known origin
+}
+
+/**
+ * Rank places the user has used by frecency (how often and how recently),
+ * boosted for ones they tend to use at this time of day and from around
+ * where they are now
+ * @param events Usage events, in any order
+ * @param savedDestinations Saved destinations; uses near one are credited
+ * to it and it is suggested in place of the raw event
+ * @param context Current time and location
+ * @param limit Most suggestions to return
+ * @returns Suggested destinations, best first
+ */
+export function rankSuggestedDestinations(
+  events: DestinationUsageEvent[],
+  savedDestinations: Destination[],
+  context: SuggestionContext,
+  limit: number = MAX_SUGGESTIONS,
+): Destination[] {
+  const { now, origin } = context;
+  const places = new Map<string, PlaceScore>();
+  // Newest first, so unsaved places take the latest name and address
+  const sorted = [...events].sort((a, b) =>
+    b.occurredAt.localeCompare(a.occurredAt),
+  );
+
+  for (const event of sorted) {
+    const weight = getUsageWeight(event, now);
+    if (weight === 0) continue;
+
+    const saved = findSavedDestination(savedDestinations, event.coordinate);
+    const key = getPlaceKey(event, saved);
+    let place = places.get(key);
+    if (!place) {
+      place = {
+        destination: saved ?? {
+          id: key,
+          name: event.destinationName,
+          address: event.destinationAddress,
+          coordinate: event.coordinate,
+          createdAt: event.occurredAt,
+        },
+        frecency: 0,
+        timeOfDay: 0,
+        fromHere: 0,
+        withOrigin: 0,
+      };
+      places.set(key, place);
+    }
+
+    place.frecency += weight;
+    place.timeOfDay +=
+      weight * getTimeOfDayMatch(new Date(event.occurredAt), now);
+    if (origin && event.origin) {
+      place.withOrigin += weight;
+      if (calculateDistance(origin, event.origin) <= ORIGIN_MATCH_DISTANCE) {
+        place.fromHere += weight;
+      }
+    }
+  }
+
+  return Array.from(places.values())
+    .filter(
+      ({ destination }) =>
+        !origin ||
+        calculateDistance(origin, destination.coordinate) >=
+          MIN_SUGGESTION_DISTANCE,
+    )
+    .map((place) => {
+      const timeAffinity = place.timeOfDay / place.frecency;
+      const originAffinity =
+        place.withOrigin > 0 ? place.fromHere / place.withOrigin : 0;
+      return {
+        destination: place.destination,
+        score:
+          place.frecency *
+          (1 +
+            TIME_OF_DAY_BOOST * timeAffinity +
+            ORIGIN_BOOST * originAffinity),
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ destination }) => destination);
+}
@@ -0,0 +1,617 @@
+// Geocoding backends used by NominatimService for address search
+import Constants from "expo-constants";
+import {
+  AddressSearchResult,
+  Coordinate,
+  GeocoderApi,
+  GeocoderProviderId,
+  NominatimResult,
+  UserSettings,
+} from "../types";
+
+export interface NominatimSearchOptions {
+  userLocation?: Coordinate;
+  viewbox?: {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+  };
+  bounded?: boolean;
+  countryCodes?: string[];
+  preferredTypes?: string[];
+  acceptLanguage?: string;
+}
+
+export enum NominatimError {
+  NETWORK_ERROR = "NETWORK_ERROR",
+  INVALID_RESPONSE = "INVALID_RESPONSE",
+  NO_RESULTS = "NO_RESULTS",
+  RATE_LIMITED = "RATE_LIMITED",
+  SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
+  INVALID_QUERY = "INVALID_QUERY",
+  OFFLINE = "OFFLINE",
+}
+
+export class NominatimServiceError extends Error {
+  constructor(
+    public code: NominatimError,
+    message: string,
+    public originalError?: Error,
+  ) {
+    super(message);
+    this.name = "NominatimServiceError";
+  }
+}
+
+export interface GeocoderProvider {
+  readonly id: GeocoderProviderId;
+  readonly name: string;
+  search(
+    query: string,
+    limit: number,
+    options: NominatimSearchOptions,
+  ): Promise<AddressSearchResult[]>;
+  reverse(coordinate: Coordinate): Promise<AddressSearchResult | null>;
+  isAvailable(): Promise<boolean>;
+}
+
+export type GeocoderProviderConfig = Pick<
+  UserSettings,
+  "geocoderProvider" | "selfHostedGeocoderUrl" | "selfHostedGeocoderApi"
+>;
+
+export const PUBLIC_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+export const PUBLIC_PHOTON_URL = "https://photon.komoot.io";
+
+interface StructuredSearchQuery {
+  street?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  country?: string;
+  postalcode?: string;
+}
+
+// Subset of the GeoJSON returned by Photon
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    osm_id?: number;
+    osm_type?: string;
+    osm_key?: string;
+    osm_value?: string;
+    type?: string;
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    locality?: string;
+    district?: string;
+    city?: string;
+    county?: string;
+    state?: string;
+    postcode?: string;
+    country?: string;
+    countrycode?: string;
+    extent?: [number, number, number, number]; // [minLon, maxLat, maxLon, minLat]
+  };
+}
+
+interface PhotonResponse {
+  features?: PhotonFeature[];
+}
+
+/**
+ * Shared HTTP plumbing: user agent, timeouts, rate limiting and mapping
+ * HTTP failures onto NominatimError codes so the service can fall back
+ */
+abstract class HttpGeocoderProvider implements GeocoderProvider {
+  abstract readonly id: GeocoderProviderId;
+  abstract readonly name: string;
+
+  protected readonly userAgent = `HopOff/${Constants.expoConfig?.version || "1.0.0"} (mailto:sanyam@sanyamchhabra.in)`;
+  protected readonly requestTimeout = 10000; // 10 seconds
+  private lastRequestTime = 0;
+
+  constructor(
+    protected readonly baseUrl: string,
+    private readonly minRequestInterval: number,
+  ) {}
+
+  abstract search(
+    query: string,
+    limit: number,
+    options: NominatimSearchOptions,
+  ): Promise<AddressSearchResult[]>;
+  abstract reverse(coordinate: Coordinate): Promise<AddressSearchResult | null>;
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+
+      const response = await fetch(`${this.baseUrl}/status`, {
+        method: "GET",
+        headers: {
+          "User-Agent": this.userAgent,
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+      return response.ok;
+    } catch (error) {
+      console.warn(`${this.name} availability check failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Rate-limited GET returning parsed JSON
+   */
+  protected async getJson<T>(
+    path: string,
+    params: URLSearchParams,
+  ): Promise<T> {
+    await this.respectRateLimit();
+
+    let response: Response;
+    try {
+      response = await this.makeRequest(
+        `${this.baseUrl}${path}?${params.toString()}`,
+      );
+    } catch (error) {
+      // A hung server is as good as a down one; let the next provider try
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new NominatimServiceError(
+          NominatimError.SERVICE_UNAVAILABLE,
+          `${this.name} did not respond in time`,
+          error,
+        );
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      if (response.status === 429 || response.status === 509) {
+        throw new NominatimServiceError(
+          NominatimError.RATE_LIMITED,
+          "Too many requests. Please wait a moment and try again.",
+        );
+      }
+      throw new NominatimServiceError(
+        NominatimError.SERVICE_UNAVAILABLE,
+        `${this.name} returned status ${response.status}`,
+      );
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new NominatimServiceError(
+        NominatimError.INVALID_RESPONSE,
+        `Invalid response format from ${this.name}`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  /**
+   * Make HTTP request with proper headers and timeout
+   */
+  private async makeRequest(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
+
+    try {
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          "User-Agent": this.userAgent,
+          Accept: "application/json",
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+      return response;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      throw error;
+    }
+  }
+
+  /**
+   * Space requests out to honour the server's usage policy
+   */
+  private async respectRateLimit(): Promise<void> {
+    const now = Date.now();
+    const timeSinceLastRequest = now - this.lastRequestTime;
+
+    if (timeSinceLastRequest < this.minRequestInterval) {
+      const waitTime = this.minRequestInterval - timeSinceLastRequest;
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+
+    this.lastRequestTime = Date.now();
+  }
+}
+
+export class NominatimProvider extends HttpGeocoderProvider {
+  constructor(
+    readonly id: GeocoderProviderId = "nominatim",
+    readonly name: string = "Nominatim",
+    baseUrl: string = PUBLIC_NOMINATIM_URL,
+    minRequestInterval: number = 1000, // Nominatim rate limit
+  ) {
+    super(baseUrl, minRequestInterval);
+  }
+
+  async search(
+    query: string,
+    limit: number,
+    options: NominatimSearchOptions,
+  ): Promise<AddressSearchResult[]> {
+    const data = await this.getJson<NominatimResult[]>(
+      "/search",
+      this.buildSearchParams(query, limit, options),
+    );
+
+    if (!Array.isArray(data)) {
+      throw new NominatimServiceError(
+        NominatimError.INVALID_RESPONSE,
+        `Invalid response format from ${this.name}`,
+      );
+    }
+
+    return data.map((item, index) => this.convertNominatimResult(item, index));
+  }
+
+  async reverse(coordinate: Coordinate): Promise<AddressSearchResult | null> {
+    const searchParams = new URLSearchParams({
+      lat: coordinate.latitude.toString(),
+      lon: coordinate.longitude.toString(),
+      format: "json",
+      addressdetails: "1",
+      extratags: "1",
+      namedetails: "1",
+      zoom: "18", // High zoom for detailed address
+      "accept-language": "en",
+    });
+
+    const data = await this.getJson<NominatimResult>("/reverse", searchParams);
+
+    if (!data || !data.lat || !data.lon) {
+      return null; // No result found for this coordinate
+    }
+
+    return this.convertNominatimResult(data, 0);
+  }
+
+  private buildSearchParams(
+    query: string,
+    limit: number,
+    options: NominatimSearchOptions,
+  ): URLSearchParams {
+    const countryCodes = (options.countryCodes || [])
+      .map((code) => code.trim().toLowerCase())
+      .filter((code) => /^[a-z]{2}$/.test(code));
+    const structuredQuery = this.parseStructuredQuery(query);
+
+    const searchParams = new URLSearchParams({
+      format: "jsonv2",
+      limit: limit.toString(),
+      addressdetails: "1",
+      extratags: "0",
+      namedetails: "0",
+      dedupe: "1",
+      "accept-language": options.acceptLanguage || "en",
+    });
+
+    if (structuredQuery) {
+      this.applyStructuredQuery(searchParams, structuredQuery);
+    } else {
+      searchParams.set("q", query);
+    }
+
+    if (options.viewbox) {
+      searchParams.set(
+        "viewbox",
+        `${options.viewbox.west},${options.viewbox.north},${options.viewbox.east},${options.viewbox.south}`,
+      );
+      const bounded = options.bounded !== undefined ? options.bounded : true;
+      searchParams.set("bounded", bounded ? "1" : "0");
+    }
+
+    if (countryCodes.length > 0) {
+      searchParams.set("countrycodes", countryCodes.join(","));
+    }
+
+    return searchParams;
+  }
+
+  private applyStructuredQuery(
+    searchParams: URLSearchParams,
+    structuredQuery: StructuredSearchQuery,
+  ): void {
+    const structuredEntries = Object.entries(structuredQuery) as [
+      keyof StructuredSearchQuery,
+      string | undefined,
+    ][];
+
+    for (const [key, value] of structuredEntries) {
+      if (value && value.trim().length > 0) {
+        searchParams.set(key, value.trim());
+      }
+    }
+  }
+
+  private parseStructuredQuery(query: string): StructuredSearchQuery | null {
+    const parts = query
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean);
+
+    if (parts.length < 2) {
+      return null;
+    }
+
+    const postalcodeMatch = query.match(/\b\d{4,6}\b/);
+    const structured: StructuredSearchQuery = {};
+
+    if (this.looksLikeStreet(parts[0])) {
+      structured.street = parts[0];
+      if (parts[1]) {
+        structured.city = parts[1];
+      }
+      if (parts[2]) {
+        structured.state = parts[2];
+      }
+    } else {
+      structured.city = parts[0];
+      if (parts[1]) {
+        structured.state = parts[1];
+      }
+      if (parts[2]) {
+        structured.country = parts[2];
+      }
+    }
+
+    if (parts.length >= 4) {
+      structured.country = parts[parts.length - 1];
+    }
+
+    if (postalcodeMatch) {
+      structured.postalcode = postalcodeMatch[0];
+    }
+
+    const nonEmptyFieldCount = Object.values(structured).filter(Boolean).length;
+    return nonEmptyFieldCount >= 2 ? structured : null;
+  }
+
+  private looksLikeStreet(value: string): boolean {
+    const hasStreetNumber = /\d/.test(value);
+    const hasStreetKeyword =
+      /\b(street|st|road|rd|avenue|ave|lane|ln|boulevard|blvd|marg|nagar|colony)\b/i.test(
+        value,
+      );
+
+    return hasStreetNumber || hasStreetKeyword;
+  }
+
+  /**
+   * Convert Nominatim result to our AddressSearchResult format
+   */
+  private convertNominatimResult(
+    result: NominatimResult,
+    index: number,
+  ): AddressSearchResult {
+    const coordinate: Coordinate = {
+      latitude: parseFloat(result.lat),
+      longitude: parseFloat(result.lon),
+    };
+
+    // Parse bounding box
+    const boundingBox = {
+      south: parseFloat(result.boundingbox[0]),
+      north: parseFloat(result.boundingbox[1]),
+      west: parseFloat(result.boundingbox[2]),
+      east: parseFloat(result.boundingbox[3]),
+    };
+
+    // Generate a readable name from display_name
+    const displayName = this.extractReadableName(result.display_name);
+
+    return {
+      id: `nominatim_${result.place_id}_${index}`,
+      displayName,
+      address: result.display_name,
+      coordinate,
+      importance: result.importance || 0,
+      type: result.type || "unknown",
+      boundingBox,
+    };
+  }
+
+  /**
+   * Extract a readable name from Nominatim's display_name
+   */
+  private extractReadableName(displayName: string): string {
+    // Nominatim display_name format: "Name, Street, City, State, Country"
+    // We want to extract the most relevant part (usually the first 1-2 components)
+    const parts = displayName.split(",").map((part) => part.trim());
+
+    if (parts.length === 1) {
+      return parts[0];
+    }
+
+    // For most cases, take the first two parts (e.g., "Central Park, New York")
+    if (parts.length >= 2) {
+      return `${parts[0]}, ${parts[1]}`;
+    }
+
+    return parts[0];
+  }
+}
+
+export class PhotonProvider extends HttpGeocoderProvider {
+  constructor(
+    readonly id: GeocoderProviderId = "photon",
+    readonly name: string = "Photon",
+    baseUrl: string = PUBLIC_PHOTON_URL,
+    minRequestInterval: number = 500, // komoot asks for fair use
+  ) {
+    super(baseUrl, minRequestInterval);
+  }
+
+  async search(
+    query: string,
+    limit: number,
+    options: NominatimSearchOptions,
+  ): Promise<AddressSearchResult[]> {
+    const searchParams = new URLSearchParams({
+      q: query,
+      limit: limit.toString(),
+    });
+
+    // Photon only supports a handful of languages; let it pick the default
+    // for anything else
+    const language = (options.acceptLanguage || "en").slice(0, 2).toLowerCase();
+    if (["en", "de", "fr", "it"].includes(language)) {
+      searchParams.set("lang", language);
+    }
+
+    // Photon biases towards a point rather than a viewbox
+    if (options.userLocation) {
+      searchParams.set("lat", options.userLocation.latitude.toString());
+      searchParams.set("lon", options.userLocation.longitude.toString());
+    }
+
+    if (options.viewbox && options.bounded !== false) {
+      searchParams.set(
+        "bbox",
+        `${options.viewbox.west},${options.viewbox.south},${options.viewbox.east},${options.viewbox.north}`,
+      );
+    }
+
+    const data = await this.getJson<PhotonResponse>("/api", searchParams);
+
+    if (!data || !Array.isArray(data.features)) {
+      throw new NominatimServiceError(
+        NominatimError.INVALID_RESPONSE,
+        `Invalid response format from ${this.name}`,
+      );
+    }
+
+    const countryCodes = (options.countryCodes || []).map((code) =>
+      code.trim().toLowerCase(),
+    );
+
+    return data.features
+      .filter(
+        (feature) =>
+          countryCodes.length === 0 ||
+          countryCodes.includes(
+            (feature.properties.countrycode || "").toLowerCase(),
+          ),
+      )
+      .map((feature, index) =>
+        this.convertPhotonFeature(feature, index, data.features!.length),
+      );
+  }
+
+  async reverse(coordinate: Coordinate): Promise<AddressSearchResult | null> {
+    const searchParams = new URLSearchParams({
+      lat: coordinate.latitude.toString(),
+      lon: coordinate.longitude.toString(),
+      limit: "1",
+    });
+
+    const data = await this.getJson<PhotonResponse>("/reverse", searchParams);
+    const feature = data?.features?.[0];
+
+    return feature ? this.convertPhotonFeature(feature, 0, 1) : null;
+  }
+
+  /**
+   * Convert a Photon GeoJSON feature to our AddressSearchResult format
+   */
+  private convertPhotonFeature(
+    feature: PhotonFeature,
+    index: number,
+    total: number,
+  ): AddressSearchResult {
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const props = feature.properties;
+
+    const street = [props.housenumber, props.street].filter(Boolean).join(" ");
+    const addressParts = [
+      props.name,
+      street,
+      props.locality || props.district,
+      props.city,
+      props.state,
+      props.postcode,
+      props.country,
+    ].filter((part, i, parts): part is string => {
+      return !!part && parts.indexOf(part) === i;
+    });
+
+    const boundingBox = props.extent
+      ? {
+          west: props.extent[0],
+          north: props.extent[1],
+          east: props.extent[2],
+          south: props.extent[3],
+        }
+      : { north: latitude, south: latitude, east: longitude, west: longitude };
+
+    return {
+      id: `photon_${props.osm_type ?? "X"}${props.osm_id ?? index}_${index}`,
+      displayName: addressParts.slice(0, 2).join(", ") || "Unnamed place",
+      address: addressParts.join(", "),
+      coordinate: { latitude, longitude },
+      // Photon doesn't report importance; results already arrive ranked
+      importance: total > 0 ? 1 - index / total : 0,
+      type: props.osm_value || props.type || "unknown",
+      boundingBox,
+    };
+  }
+}
+
+/**
+ * Build the ordered provider chain for the given settings. The preferred
+ * provider comes first; the public servers follow as fallbacks.
+ */
+export function createGeocoderProviders(
+  config: GeocoderProviderConfig,
+): GeocoderProvider[] {
+  const providers: GeocoderProvider[] = [];
+
+  const selfHostedUrl = config.selfHostedGeocoderUrl.trim().replace(/\/+$/, "");
+  if (config.geocoderProvider === "self-hosted" && selfHostedUrl) {
+    providers.push(
+      createSelfHostedProvider(selfHostedUrl, config.selfHostedGeocoderApi),
+    );
+  }
+
+  const nominatim = new NominatimProvider();
+  const photon = new PhotonProvider();
+  if (config.geocoderProvider === "photon") {
+    providers.push(photon, nominatim);
+  } else {
+    providers.push(nominatim, photon);
+  }
+
+  return providers;
+}
+
+function createSelfHostedProvider(
+  baseUrl: string,
+  api: GeocoderApi,
+): GeocoderProvider {
+  // Our own server: no usage policy to respect
+  return api === "photon"
+    ? new PhotonProvider("self-hosted", "Self-hosted Photon", baseUrl, 0)
+    : new NominatimProvider("self-hosted", "Self-hosted Nominatim", baseUrl, 0);
+}
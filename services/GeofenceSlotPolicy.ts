@@ -0,0 +1,65 @@
+// Geofence slot allocation policy for the OS region limit
+import { Coordinate } from "../types";
+import { calculateDistance } from "../utils";
+
+// The fields of a geofence region the policy needs
+export interface SlotRegion {
+  identifier?: string;
+  latitude: number;
+  longitude: number;
+  radius: number; // meters
+}
+
+// iOS monitors at most 20 regions per app (Android allows 100), so this is
+// the most that can be registered with the OS at once
+export const MAX_OS_GEOFENCES = 20;
+
+// A registered region keeps its slot unless a newcomer is nearer by this
+// much, so regions at similar distances don't keep swapping as GPS jitters
+const SLOT_SWAP_MARGIN = 250; // meters
+
+/**
+ * Pick which regions get one of the OS's geofence slots: the ones whose
+ * edge is nearest to the user. Without a location, the most recently added
+ * regions win. Regions left out are covered by the background location check
+ * until they rotate in.
+ * @param regions Every wanted region, oldest first
+ * @param origin Last known location, if any
+ * @param registeredIds Regions that hold a slot right now
+ * @param limit Number of slots available
+ * @returns Identifiers of the regions to register
+ */
+export function selectGeofenceSlots(
+  regions: SlotRegion[],
+  origin: Coordinate | null,
+  registeredIds: ReadonlySet<string> = new Set(),
+  limit: number = MAX_OS_GEOFENCES,
+): string[] {
+  const identified = regions.filter(
+    (region): region is SlotRegion & { identifier: string } =>
+      Boolean(region.identifier),
+  );
+
+  if (identified.length <= limit) {
+    return identified.map((region) => region.identifier);
+  }
+
+  if (!origin) {
+    return identified.slice(-limit).map((region) => region.identifier);
+  }
+
+  return identified
+    .map((region) => {
+      const edgeDistance = Math.max(
+        0,
+        calculateDistance(origin, region) - region.radius,
+      );
+      const margin = registeredIds.has(region.identifier)
+        ? SLOT_SWAP_MARGIN
+        : 0;
+      return { identifier: region.identifier, score: edgeDistance - margin };
+    })
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((region) => region.identifier);
+}
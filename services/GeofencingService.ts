@@ -3,6 +3,8 @@
  *
  * Simple geofencing service using Expo Location.
  * Provides a clean interface for setting up and managing geofences.
+ * Any number of geofences can be set up; only the nearest ones hold one of
+ * the OS's limited region slots at a time (see GeofenceSlotPolicy).
  */
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -10,6 +12,7 @@ import * as Location from "expo-location";
 import * as TaskManager from "expo-task-manager";
 import { Coordinate } from "../types";
 import { generateId, isValidCoordinate } from "../utils";
+import { selectGeofenceSlots } from "./GeofenceSlotPolicy";
 
 // Task name for geofencing background task
 const GEOFENCING_TASK = "hopoff-geofencing-task";
@@ -17,11 +20,13 @@ const GEOFENCING_TASK = "hopoff-geofencing-task";
 // Storage key for persisting geofence IDs
 const GEOFENCE_STORAGE_KEY = "hopoff_active_geofences";
 
+export type GeofenceEventType = "enter" | "exit";
+
 export interface GeofenceEvent {
   geofenceId: string;
   coordinate: Coordinate;
   radius: number;
-  eventType: "enter" | "exit";
+  eventType: GeofenceEventType;
   timestamp: string;
 }
 
@@ -73,7 +78,7 @@ TaskManager.defineTask(GEOFENCING_TASK, async ({ data, error }) => {
       region: Location.LocationRegion;
     };
 
-    if (eventType === Location.GeofencingEventType.Enter && region.identifier) {
+    if (region.identifier) {
       const event: GeofenceEvent = {
         geofenceId: region.identifier,
         coordinate: {
@@ -81,12 +86,15 @@ TaskManager.defineTask(GEOFENCING_TASK, async ({ data, error }) => {
           longitude: region.longitude,
         },
         radius: region.radius,
-        eventType: "enter",
+        eventType:
+          eventType === Location.GeofencingEventType.Exit ? "exit" : "enter",
         timestamp: new Date().toISOString(),
       };
 
       if (__DEV__) {
-        console.log(`Geofence entered: ${region.identifier}`);
+        console.log(
+          `Geofence ${event.eventType === "exit" ? "exited" : "entered"}: ${region.identifier}`,
+        );
       }
 
       // Call the event handler - AlarmManager will handle cleanup
@@ -98,7 +106,12 @@ TaskManager.defineTask(GEOFENCING_TASK, async ({ data, error }) => {
 });
 
 class GeofencingService {
+  // Every geofence set up, oldest first, whether or not it holds an OS slot
   private activeGeofences: Map<string, Location.LocationRegion> = new Map();
+  // Geofences registered with the OS; null until the first registration
+  // since launch, as the OS may still hold an older set
+  private registeredIds: Set<string> | null = null;
+  private lastKnownLocation: Coordinate | null = null;
   private initialized = false;
 
   /**
@@ -217,12 +230,14 @@ class GeofencingService {
   }
 
   /**
-   * Setup a geofence at the specified location
+   * Setup a geofence at the specified location, reporting the given event
+   * types (entering only, by default)
    */
   async setupGeofence(
     destination: Coordinate,
     radius: number,
     customId?: string,
+    eventTypes: GeofenceEventType[] = ["enter"],
   ): Promise<GeofenceSetupResult> {
     try {
       // Ensure service is initialized
@@ -266,14 +281,6 @@ class GeofencingService {
         );
       }
 
-      // Check geofence limit
-      if (this.activeGeofences.size >= 20) {
-        throw new GeofenceServiceError(
-          GeofenceError.GEOFENCE_LIMIT_EXCEEDED,
-          "Maximum of 20 geofences allowed. Please remove some existing geofences.",
-        );
-      }
-
       // Generate unique ID
       const geofenceId = customId || generateId("geofence");
 
@@ -283,16 +290,18 @@ class GeofencingService {
         latitude: destination.latitude,
         longitude: destination.longitude,
         radius: radius,
-        notifyOnEnter: true,
-        notifyOnExit: false,
+        notifyOnEnter: eventTypes.includes("enter"),
+        notifyOnExit: eventTypes.includes("exit"),
       };
 
-      // Start geofencing with all active regions
-      const allRegions = [...this.activeGeofences.values(), region];
-      await Location.startGeofencingAsync(GEOFENCING_TASK, allRegions);
-
-      // Track the geofence
+      // Track the geofence and give it a slot if it is among the nearest
       this.activeGeofences.set(geofenceId, region);
+      try {
+        await this.applySlots();
+      } catch (registerError) {
+        this.activeGeofences.delete(geofenceId);
+        throw registerError;
+      }
 
       // Persist the updated geofences
       await this.persistGeofences();
@@ -336,34 +345,8 @@ class GeofencingService {
       // Persist the updated state
       await this.persistGeofences();
 
-      // Check if the task is registered before trying to modify it
-      const isTaskRegistered =
-        await TaskManager.isTaskRegisteredAsync(GEOFENCING_TASK);
-
-      if (!isTaskRegistered) {
-        // Task not registered, nothing to stop - geofence is already cleaned from our state
-        if (__DEV__) {
-          console.log(
-            `Geofence ${geofenceId} removed from state (task not active)`,
-          );
-        }
-        return hadGeofence;
-      }
-
-      // Restart geofencing with remaining regions or stop if none left
-      if (this.activeGeofences.size > 0) {
-        const remainingRegions = Array.from(this.activeGeofences.values());
-        await Location.startGeofencingAsync(GEOFENCING_TASK, remainingRegions);
-      } else {
-        try {
-          await Location.stopGeofencingAsync(GEOFENCING_TASK);
-        } catch (stopError) {
-          // Task might already be stopped or not exist - this is okay
-          if (__DEV__) {
-            console.warn("Error stopping geofencing:", stopError);
-          }
-        }
-      }
+      // Hand its slot to the next nearest geofence, if it had one
+      await this.applySlots();
 
       if (__DEV__) {
         console.log(`Geofence removed: ${geofenceId}`);
@@ -389,6 +372,7 @@ class GeofencingService {
 
       // Clear our tracking first
       this.activeGeofences.clear();
+      this.registeredIds = new Set();
       await this.clearPersistedGeofences();
 
       // Check if task is registered before trying to stop
@@ -417,6 +401,57 @@ class GeofencingService {
     }
   }
 
+  /**
+   * Re-pick which geofences hold an OS slot for a new location. Only
+   * re-registers with the OS when the nearest set actually changes.
+   */
+  async rebalance(location: Coordinate): Promise<void> {
+    await this.initialize();
+    this.lastKnownLocation = location;
+    await this.applySlots();
+  }
+
+  /**
+   * Register the nearest geofences with the OS, up to its region limit
+   */
+  private async applySlots(): Promise<void> {
+    const selectedIds = selectGeofenceSlots(
+      Array.from(this.activeGeofences.values()),
+      this.lastKnownLocation,
+      this.registeredIds ?? undefined,
+    );
+
+    const unchanged =
+      this.registeredIds !== null &&
+      selectedIds.length === this.registeredIds.size &&
+      selectedIds.every((id) => this.registeredIds!.has(id));
+    if (unchanged) return;
+
+    if (selectedIds.length > 0) {
+      await Location.startGeofencingAsync(
+        GEOFENCING_TASK,
+        selectedIds.map((id) => this.activeGeofences.get(id)!),
+      );
+    } else if (await TaskManager.isTaskRegisteredAsync(GEOFENCING_TASK)) {
+      try {
+        await Location.stopGeofencingAsync(GEOFENCING_TASK);
+      } catch (stopError) {
+        // Task might already be stopped or not exist - this is okay
+        if (__DEV__) {
+          console.warn("Error stopping geofencing:", stopError);
+        }
+      }
+    }
+
+    this.registeredIds = new Set(selectedIds);
+
+    if (__DEV__ && selectedIds.length < this.activeGeofences.size) {
+      console.log(
+        `Geofence slots: ${selectedIds.length} of ${this.activeGeofences.size} registered`,
+      );
+    }
+  }
+
   /**
    * Set the event handler for geofence events
    */
@@ -439,6 +474,13 @@ class GeofencingService {
     return Array.from(this.activeGeofences.keys());
   }
 
+  /**
+   * Get the IDs of geofences currently holding an OS slot
+   */
+  getRegisteredGeofenceIds(): string[] {
+    return Array.from(this.registeredIds ?? []);
+  }
+
   /**
    * Get active geofence count
    */
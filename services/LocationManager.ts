@@ -13,13 +13,20 @@ import { Coordinate } from "../types";
 import {
   GeofenceEvent,
   GeofenceEventHandler,
+  GeofenceEventType,
   geofencingService,
 } from "./GeofencingService";
 
 export interface LocationManager {
-  setupGeofence(destination: Coordinate, radius: number): Promise<string>;
+  setupGeofence(
+    destination: Coordinate,
+    radius: number,
+    eventTypes?: GeofenceEventType[],
+  ): Promise<string>;
   removeGeofence(geofenceId: string): Promise<void>;
+  rebalanceGeofences(location: Coordinate): Promise<void>;
   getCurrentLocation(): Promise<Coordinate>;
+  getLastKnownLocation(): Promise<Coordinate | null>;
   requestLocationPermissions(): Promise<boolean>;
   getLocationPermissionStatus(): Promise<Location.PermissionStatus>;
   setGeofenceEventHandler(handler: GeofenceEventHandler): void;
@@ -41,7 +48,7 @@ export enum LocationError {
 }
 
 // Re-export geofence event types for convenience
-export { GeofenceEvent, GeofenceEventHandler };
+export { GeofenceEvent, GeofenceEventHandler, GeofenceEventType };
 
 export class LocationManagerError extends Error {
   constructor(
@@ -191,15 +198,39 @@ export class LocationManagerImpl implements LocationManager {
     }
   }
 
+  /**
+   * Get the location the OS last reported, without waiting for a fix or
+   * prompting for anything
+   * @returns null if there is none or it can't be read
+   */
+  async getLastKnownLocation(): Promise<Coordinate | null> {
+    try {
+      const location = await Location.getLastKnownPositionAsync();
+      if (!location) return null;
+      return {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+      };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Setup a geofence at the destination
    */
   async setupGeofence(
     destination: Coordinate,
     radius: number,
+    eventTypes?: GeofenceEventType[],
   ): Promise<string> {
     try {
-      const result = await geofencingService.setupGeofence(destination, radius);
+      const result = await geofencingService.setupGeofence(
+        destination,
+        radius,
+        undefined,
+        eventTypes,
+      );
       return result.geofenceId;
     } catch (error) {
       if (error instanceof LocationManagerError) {
@@ -230,6 +261,18 @@ export class LocationManagerImpl implements LocationManager {
     }
   }
 
+  /**
+   * Rotate the nearest geofences into the OS's limited region slots
+   */
+  async rebalanceGeofences(location: Coordinate): Promise<void> {
+    try {
+      await geofencingService.rebalance(location);
+    } catch (error) {
+      // The background location check still covers every alarm
+      console.warn("Failed to rebalance geofences:", error);
+    }
+  }
+
   /**
    * Set geofence event handler
    */
@@ -0,0 +1,125 @@
+// Adaptive GPS sampling policy for background alarm monitoring
+import * as Location from "expo-location";
+
+export type TrackingTierId = "far" | "mid" | "near" | "arrival" | "full";
+
+export interface TrackingTier {
+  id: TrackingTierId;
+  accuracy: Location.Accuracy;
+  distanceInterval: number; // meters
+  timeInterval: number; // milliseconds
+  // The tier applies while the user is further than both of these away
+  minDistance: number; // meters to the nearest trigger boundary
+  minEtaSeconds: number; // seconds to the nearest trigger boundary
+}
+
+export interface TrackingPolicyInput {
+  distanceToNearestAlarm: number | null; // meters to the trigger boundary
+  speed: number | null; // meters per second
+  batteryOptimizationEnabled: boolean;
+  currentTierId?: TrackingTierId | null;
+}
+
+// Ordered from least to most precise
+export const TRACKING_TIERS: readonly TrackingTier[] = [
+  {
+    id: "far",
+    accuracy: Location.Accuracy.Low,
+    distanceInterval: 500,
+    timeInterval: 120_000,
+    minDistance: 10_000,
+    minEtaSeconds: 15 * 60,
+  },
+  {
+    id: "mid",
+    accuracy: Location.Accuracy.Balanced,
+    distanceInterval: 200,
+    timeInterval: 60_000,
+    minDistance: 3_000,
+    minEtaSeconds: 6 * 60,
+  },
+  {
+    id: "near",
+    accuracy: Location.Accuracy.High,
+    distanceInterval: 50,
+    timeInterval: 15_000,
+    minDistance: 1_000,
+    minEtaSeconds: 2 * 60,
+  },
+  {
+    id: "arrival",
+    accuracy: Location.Accuracy.BestForNavigation,
+    distanceInterval: 10,
+    timeInterval: 5_000,
+    minDistance: 0,
+    minEtaSeconds: 0,
+  },
+];
+
+// Used when Smart Location Tracking is switched off: precise all the time
+export const FULL_ACCURACY_TIER: TrackingTier = {
+  id: "full",
+  accuracy: Location.Accuracy.High,
+  distanceInterval: 25,
+  timeInterval: 10_000,
+  minDistance: 0,
+  minEtaSeconds: 0,
+};
+
+// Below this the speed estimate is treated as noise (walking pace or stopped)
+const MIN_RELIABLE_SPEED = 1; // m/s
+
+// Relaxing to a less precise tier requires clearing its threshold by this
+// margin, so GPS jitter around a boundary doesn't keep restarting updates
+const RELAX_HYSTERESIS = 1.15;
+
+/**
+ * Pick the tracking tier for the current trip. The tier is chosen from the
+ * distance to the nearest alarm, tightened further when the estimated speed
+ * means the trigger boundary will be reached soon.
+ */
+export function selectTrackingTier({
+  distanceToNearestAlarm,
+  speed,
+  batteryOptimizationEnabled,
+  currentTierId = null,
+}: TrackingPolicyInput): TrackingTier {
+  if (!batteryOptimizationEnabled) {
+    return FULL_ACCURACY_TIER;
+  }
+
+  // Without a distance we can't reason about tiers, so stay reasonably precise
+  if (distanceToNearestAlarm === null) {
+    return getTrackingTier("near");
+  }
+
+  const distance = Math.max(0, distanceToNearestAlarm);
+  const etaSeconds =
+    speed !== null && speed >= MIN_RELIABLE_SPEED ? distance / speed : null;
+  const currentIndex = TRACKING_TIERS.findIndex(
+    (tier) => tier.id === currentTierId,
+  );
+
+  const selectedIndex = TRACKING_TIERS.findIndex((tier, index) => {
+    const margin =
+      currentIndex !== -1 && index < currentIndex ? RELAX_HYSTERESIS : 1;
+    return (
+      distance > tier.minDistance * margin &&
+      (etaSeconds === null || etaSeconds > tier.minEtaSeconds * margin)
+    );
+  });
+
+  return TRACKING_TIERS[
+    selectedIndex === -1 ? TRACKING_TIERS.length - 1 : selectedIndex
+  ];
+}
+
+/**
+ * Look up a tier by id
+ */
+export function getTrackingTier(id: TrackingTierId): TrackingTier {
+  if (id === FULL_ACCURACY_TIER.id) {
+    return FULL_ACCURACY_TIER;
+  }
+  return TRACKING_TIERS.find((tier) => tier.id === id)!;
+}
@@ -0,0 +1,352 @@
+// Offline metro network service for HopOff app
+import metroNetwork from "../assets/data/delhi-metro.json";
+import {
+  Coordinate,
+  MetroLine,
+  MetroRoute,
+  MetroRouteProgress,
+  MetroRouteSegment,
+  MetroStation,
+  MetroTransfer,
+} from "../types";
+import { calculateDistance, distanceToPolyline } from "../utils";
+
+export interface MetroService {
+  getStations(): MetroStation[];
+  getLines(): MetroLine[];
+  getStation(stationId: string): MetroStation | null;
+  getLine(lineId: string): MetroLine | null;
+  searchStations(query: string, limit?: number): MetroStation[];
+  findNearestStation(
+    coordinate: Coordinate,
+    maxDistance?: number,
+  ): { station: MetroStation; distance: number } | null;
+  planRoute(fromStationId: string, toStationId: string): MetroRoute;
+  getRouteProgress(
+    route: MetroRoute,
+    coordinate: Coordinate,
+  ): MetroRouteProgress;
+  getWakeStation(route: MetroRoute, stopsBefore: number): MetroStation;
+}
+
+export enum MetroError {
+  STATION_NOT_FOUND = "STATION_NOT_FOUND",
+  NO_ROUTE = "NO_ROUTE",
+  INVALID_ROUTE = "INVALID_ROUTE",
+}
+
+export class MetroServiceError extends Error {
+  constructor(
+    public code: MetroError,
+    message: string,
+    public originalError?: Error,
+  ) {
+    super(message);
+    this.name = "MetroServiceError";
+  }
+}
+
+interface RawMetroNetwork {
+  network: string;
+  version: number;
+  stations: { id: string; name: string; latitude: number; longitude: number }[];
+  lines: MetroLine[];
+}
+
+// Distance in meters within which the user is considered to be at a station
+const STATION_ARRIVAL_RADIUS = 250;
+
+// Distance in meters from the line through a route's stations beyond which
+// the user isn't riding it yet, so stops along it can't be counted
+const MAX_ROUTE_DISTANCE = 1000;
+
+// Changing lines costs roughly as much time as riding this many stops
+const TRANSFER_PENALTY = 3;
+
+export class MetroServiceImpl implements MetroService {
+  private stations: Map<string, MetroStation> = new Map();
+  private lines: Map<string, MetroLine> = new Map();
+
+  constructor(network: RawMetroNetwork = metroNetwork as RawMetroNetwork) {
+    for (const line of network.lines) {
+      this.lines.set(line.id, line);
+    }
+
+    for (const raw of network.stations) {
+      this.stations.set(raw.id, {
+        id: raw.id,
+        name: raw.name,
+        coordinate: { latitude: raw.latitude, longitude: raw.longitude },
+        lineIds: network.lines
+          .filter((line) => line.stationIds.includes(raw.id))
+          .map((line) => line.id),
+      });
+    }
+  }
+
+  getStations(): MetroStation[] {
+    return Array.from(this.stations.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  getLines(): MetroLine[] {
+    return Array.from(this.lines.values());
+  }
+
+  getStation(stationId: string): MetroStation | null {
+    return this.stations.get(stationId) || null;
+  }
+
+  getLine(lineId: string): MetroLine | null {
+    return this.lines.get(lineId) || null;
+  }
+
+  /**
+   * Find stations whose name contains the query, prefix matches first
+   */
+  searchStations(query: string, limit: number = 10): MetroStation[] {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    return this.getStations()
+      .filter((station) => station.name.toLowerCase().includes(normalizedQuery))
+      .sort((a, b) => {
+        const aPrefix = a.name.toLowerCase().startsWith(normalizedQuery);
+        const bPrefix = b.name.toLowerCase().startsWith(normalizedQuery);
+        return aPrefix === bPrefix ? 0 : aPrefix ? -1 : 1;
+      })
+      .slice(0, limit);
+  }
+
+  /**
+   * Find the station closest to a coordinate, optionally within a max distance
+   */
+  findNearestStation(
+    coordinate: Coordinate,
+    maxDistance?: number,
+  ): { station: MetroStation; distance: number } | null {
+    let nearest: { station: MetroStation; distance: number } | null = null;
+
+    for (const station of this.stations.values()) {
+      const distance = calculateDistance(coordinate, station.coordinate);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { station, distance };
+      }
+    }
+
+    if (
+      nearest &&
+      maxDistance !== undefined &&
+      nearest.distance > maxDistance
+    ) {
+      return null;
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Plan the route with the fewest stops between two stations, where each
+   * line change counts as TRANSFER_PENALTY stops.
+   */
+  planRoute(fromStationId: string, toStationId: string): MetroRoute {
+    const origin = this.getStation(fromStationId);
+    const destination = this.getStation(toStationId);
+
+    if (!origin || !destination) {
+      throw new MetroServiceError(
+        MetroError.STATION_NOT_FOUND,
+        `Unknown station: ${!origin ? fromStationId : toStationId}`,
+      );
+    }
+
+    if (origin.id === destination.id) {
+      throw new MetroServiceError(
+        MetroError.INVALID_ROUTE,
+        "Origin and destination must be different stations",
+      );
+    }
+
+    // Dijkstra over (station, line) states so line changes can be penalised
+    const stateKey = (stationId: string, lineId: string) =>
+      `${stationId}|${lineId}`;
+    const costs = new Map<string, number>();
+    const previous = new Map<string, string | null>();
+    const visited = new Set<string>();
+
+    for (const lineId of origin.lineIds) {
+      costs.set(stateKey(origin.id, lineId), 0);
+      previous.set(stateKey(origin.id, lineId), null);
+    }
+
+    let finalState: string | null = null;
+
+    while (true) {
+      let current: string | null = null;
+      let currentCost = Infinity;
+      for (const [key, cost] of costs) {
+        if (!visited.has(key) && cost < currentCost) {
+          current = key;
+          currentCost = cost;
+        }
+      }
+
+      if (current === null) break;
+      visited.add(current);
+
+      const [stationId, lineId] = current.split("|");
+      if (stationId === destination.id) {
+        finalState = current;
+        break;
+      }
+
+      const neighbours: { key: string; cost: number }[] = [];
+
+      const line = this.lines.get(lineId)!;
+      const position = line.stationIds.indexOf(stationId);
+      for (const offset of [-1, 1]) {
+        const neighbourId = line.stationIds[position + offset];
+        if (neighbourId) {
+          neighbours.push({ key: stateKey(neighbourId, lineId), cost: 1 });
+        }
+      }
+
+      for (const otherLineId of this.stations.get(stationId)!.lineIds) {
+        if (otherLineId !== lineId) {
+          neighbours.push({
+            key: stateKey(stationId, otherLineId),
+            cost: TRANSFER_PENALTY,
+          });
+        }
+      }
+
+      for (const neighbour of neighbours) {
+        const nextCost = currentCost + neighbour.cost;
+        if (nextCost < (costs.get(neighbour.key) ?? Infinity)) {
+          costs.set(neighbour.key, nextCost);
+          previous.set(neighbour.key, current);
+        }
+      }
+    }
+
+    if (!finalState) {
+      throw new MetroServiceError(
+        MetroError.NO_ROUTE,
+        `No route found from ${origin.name} to ${destination.name}`,
+      );
+    }
+
+    // Walk back through the states and collapse them into line segments
+    const states: [string, string][] = [];
+    for (
+      let key: string | null = finalState;
+      key !== null;
+      key = previous.get(key) ?? null
+    ) {
+      states.unshift(key.split("|") as [string, string]);
+    }
+
+    const segments: MetroRouteSegment[] = [];
+    const transfers: MetroTransfer[] = [];
+
+    for (const [stationId, lineId] of states) {
+      const lastSegment = segments[segments.length - 1];
+      if (!lastSegment || lastSegment.lineId !== lineId) {
+        if (lastSegment) {
+          transfers.push({
+            station: this.stations.get(stationId)!,
+            fromLineId: lastSegment.lineId,
+            toLineId: lineId,
+          });
+        }
+        segments.push({ lineId, stationIds: [stationId] });
+      } else {
+        lastSegment.stationIds.push(stationId);
+      }
+    }
+
+    const stationIds = states
+      .map(([stationId]) => stationId)
+      .filter((stationId, index, all) => all[index - 1] !== stationId);
+
+    return {
+      id: `route_${origin.id}_${destination.id}`,
+      origin,
+      destination,
+      stations: stationIds.map((stationId) => this.stations.get(stationId)!),
+      segments,
+      transfers,
+      stopCount: stationIds.length - 1,
+    };
+  }
+
+  /**
+   * Work out how far along a route a coordinate is. Between stations the
+   * user counts as having reached the station they last passed. Away from
+   * the route the user counts as not having boarded, with every stop still
+   * to go, and onRoute is false.
+   */
+  getRouteProgress(
+    route: MetroRoute,
+    coordinate: Coordinate,
+  ): MetroRouteProgress {
+    const distances = route.stations.map((station) =>
+      calculateDistance(coordinate, station.coordinate),
+    );
+
+    let nearestIndex = 0;
+    for (let i = 1; i < distances.length; i++) {
+      if (distances[i] < distances[nearestIndex]) {
+        nearestIndex = i;
+      }
+    }
+
+    const lastIndex = route.stations.length - 1;
+    const atStation = distances[nearestIndex] <= STATION_ARRIVAL_RADIUS;
+    // Armed from across town, the nearest station may well be the
+    // destination, which would count as arrived
+    const onRoute =
+      distanceToPolyline(
+        coordinate,
+        route.stations.map((station) => station.coordinate),
+      ) <= MAX_ROUTE_DISTANCE;
+
+    let currentIndex = nearestIndex;
+    if (!onRoute) {
+      currentIndex = 0;
+    } else if (!atStation && nearestIndex > 0) {
+      // Between two stations: if the previous station is closer than the
+      // next one we are still approaching the nearest station, otherwise
+      // we have already passed it
+      const nextDistance =
+        nearestIndex < lastIndex ? distances[nearestIndex + 1] : Infinity;
+      currentIndex =
+        distances[nearestIndex - 1] <= nextDistance
+          ? nearestIndex - 1
+          : nearestIndex;
+    }
+
+    return {
+      currentIndex,
+      stopsRemaining: lastIndex - currentIndex,
+      nearestStation: route.stations[nearestIndex],
+      distanceToNearest: distances[nearestIndex],
+      atStation,
+      onRoute,
+    };
+  }
+
+  /**
+   * Station at which a transit alarm should wake the user
+   */
+  getWakeStation(route: MetroRoute, stopsBefore: number): MetroStation {
+    const index = Math.max(0, route.stations.length - 1 - stopsBefore);
+    return route.stations[index];
+  }
+}
+
+// Export singleton instance
+export const metroService = new MetroServiceImpl();
@@ -1,30 +1,30 @@
-// OpenStreetMap Nominatim API service for free geocoding and address search
-import Constants from "expo-constants";
-import { AddressSearchResult, Coordinate, NominatimResult } from "../types";
-import { calculateDistance, isValidCoordinate } from "../utils";
-
-export interface NominatimSearchOptions {
-  userLocation?: Coordinate;
-  viewbox?: {
-    north: number;
-    south: number;
-    east: number;
-    west: number;
-  };
-  bounded?: boolean;
-  countryCodes?: string[];
-  preferredTypes?: string[];
-  acceptLanguage?: string;
-}
-
-interface StructuredSearchQuery {
-  street?: string;
-  city?: string;
-  county?: string;
-  state?: string;
-  country?: string;
-  postalcode?: string;
-}
+// OpenStreetMap geocoding service for free address search. Requests go
+// through a chain of GeocoderProviders (Nominatim, Photon, self-hosted).
+import { AddressSearchResult, Coordinate } from "../types";
+import {
+  calculateDistance,
+  createDefaultUserSettings,
+  isValidCoordinate,
+} from "../utils";
+import { connectivityService } from "./ConnectivityService";
+import { databaseManager, GeocodeCacheKind } from "./DatabaseManager";
+import {
+  createGeocoderProviders,
+  GeocoderProvider,
+  GeocoderProviderConfig,
+  NominatimError,
+  NominatimSearchOptions,
+  NominatimServiceError,
+} from "./GeocoderProviders";
+
+// Re-export geocoder types for convenience
+export {
+  NominatimError,
+  NominatimServiceError,
+  type GeocoderProvider,
+  type GeocoderProviderConfig,
+  type NominatimSearchOptions,
+};
 
 export interface NominatimService {
   searchAddress(
@@ -33,38 +33,20 @@ export interface NominatimService {
     options?: NominatimSearchOptions,
   ): Promise<AddressSearchResult[]>;
   reverseGeocode(coordinate: Coordinate): Promise<AddressSearchResult | null>;
+  searchCachedResults(query: string, limit?: number): AddressSearchResult[];
   isServiceAvailable(): Promise<boolean>;
+  setProviderConfig(config: GeocoderProviderConfig): void;
+  warmCache(): Promise<void>;
   clearCache(): void;
 }
 
-export enum NominatimError {
-  NETWORK_ERROR = "NETWORK_ERROR",
-  INVALID_RESPONSE = "INVALID_RESPONSE",
-  NO_RESULTS = "NO_RESULTS",
-  RATE_LIMITED = "RATE_LIMITED",
-  SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
-  INVALID_QUERY = "INVALID_QUERY",
-}
-
-export class NominatimServiceError extends Error {
-  constructor(
-    public code: NominatimError,
-    message: string,
-    public originalError?: Error,
-  ) {
-    super(message);
-    this.name = "NominatimServiceError";
-  }
-}
-
 export class NominatimServiceImpl implements NominatimService {
-  private readonly baseUrl = "https://nominatim.openstreetmap.org";
-  private readonly userAgent = `HopOff/${Constants.expoConfig?.version || "1.0.0"} (mailto:sanyam@sanyamchhabra.in)`;
-  private readonly requestTimeout = 10000; // 10 seconds
-  private lastRequestTime = 0;
-  private readonly minRequestInterval = 1000; // Nominatim rate limit
+  private providers: GeocoderProvider[] = createGeocoderProviders(
+    createDefaultUserSettings(),
+  );
 
-  // Simple in-memory cache
+  // In-memory cache backed by the geocode_cache SQLite table. Map iteration
+  // order is kept least-recently-used first.
   private searchCache = new Map<
     string,
     { results: AddressSearchResult[]; timestamp: number }
@@ -74,6 +56,9 @@ export class NominatimServiceImpl implements NominatimService {
     { result: AddressSearchResult | null; timestamp: number }
   >();
   private readonly cacheExpiry = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly maxCacheEntries = 500; // per cache
+  private readonly maxStaleAge = 30 * 24 * 60 * 60 * 1000; // expired entries are kept this long for offline use
+  private cacheLoadPromise: Promise<void> | null = null;
 
   /**
    * Search for addresses using Nominatim geocoding API
@@ -95,12 +80,25 @@ export class NominatimServiceImpl implements NominatimService {
       const trimmedQuery = this.normalizeQuery(query);
 
       // Check cache first
+      await this.warmCache();
       const cacheKey = this.buildSearchCacheKey(trimmedQuery, limit, options);
-      const cached = this.searchCache.get(cacheKey);
+      const cached = this.getCacheEntry(this.searchCache, "search", cacheKey);
       if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
         return cached.results;
       }
 
+      // Don't wait out the request timeout when there's no network
+      if (!connectivityService.isOnline()) {
+        const offlineResults = this.searchCachedResults(trimmedQuery, limit);
+        if (offlineResults.length > 0) {
+          return offlineResults;
+        }
+        throw new NominatimServiceError(
+          NominatimError.OFFLINE,
+          "You're offline. Search will be available when you reconnect.",
+        );
+      }
+
       const effectiveViewbox =
         options.viewbox ??
         (options.userLocation
@@ -112,14 +110,8 @@ export class NominatimServiceImpl implements NominatimService {
         viewbox: effectiveViewbox,
       };
 
-      const searchData = await this.fetchSearchResults(
-        trimmedQuery,
-        Math.min(limit, 10),
-        effectiveOptions,
-      );
-
-      const results = searchData.map((item, index) =>
-        this.convertNominatimResult(item, index),
+      const results = await this.withFallback((provider) =>
+        provider.search(trimmedQuery, Math.min(limit, 10), effectiveOptions),
       );
 
       const rankedResults = this.rankSearchResults(
@@ -138,10 +130,13 @@ export class NominatimServiceImpl implements NominatimService {
       const finalResults = rankedResults.slice(0, Math.min(limit, 10));
 
       // Cache the results
-      this.searchCache.set(cacheKey, {
-        results: finalResults,
-        timestamp: Date.now(),
-      });
+      this.setCacheEntry(
+        this.searchCache,
+        "search",
+        cacheKey,
+        { results: finalResults, timestamp: Date.now() },
+        finalResults,
+      );
 
       return finalResults;
     } catch (error) {
@@ -186,58 +181,40 @@ export class NominatimServiceImpl implements NominatimService {
       }
 
       // Check cache first - round to 4 decimal places for cache key (~11m precision)
+      await this.warmCache();
       const cacheKey = `${coordinate.latitude.toFixed(4)}_${coordinate.longitude.toFixed(4)}`;
-      const cached = this.reverseGeocodeCache.get(cacheKey);
+      const cached = this.getCacheEntry(
+        this.reverseGeocodeCache,
+        "reverse",
+        cacheKey,
+      );
       if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
         return cached.result;
       }
 
-      // Respect rate limiting
-      await this.respectRateLimit();
-
-      const searchParams = new URLSearchParams({
-        lat: coordinate.latitude.toString(),
-        lon: coordinate.longitude.toString(),
-        format: "json",
-        addressdetails: "1",
-        extratags: "1",
-        namedetails: "1",
-        zoom: "18", // High zoom for detailed address
-        "accept-language": "en",
-      });
-
-      const url = `${this.baseUrl}/reverse?${searchParams.toString()}`;
-
-      const response = await this.makeRequest(url);
-
-      if (!response.ok) {
-        if (response.status === 429 || response.status === 509) {
-          throw new NominatimServiceError(
-            NominatimError.RATE_LIMITED,
-            "Too many requests. Please wait a moment and try again.",
-          );
+      // Offline: an expired cache entry is better than nothing
+      if (!connectivityService.isOnline()) {
+        if (cached) {
+          return cached.result;
         }
         throw new NominatimServiceError(
-          NominatimError.SERVICE_UNAVAILABLE,
-          `Nominatim service returned status ${response.status}`,
+          NominatimError.OFFLINE,
+          "You're offline. Address lookup will be available when you reconnect.",
         );
       }
 
-      const data: NominatimResult = await response.json();
-
-      if (!data || !data.lat || !data.lon) {
-        // Cache the null result as well to avoid repeated requests for same location
-        this.reverseGeocodeCache.set(cacheKey, {
-          result: null,
-          timestamp: Date.now(),
-        });
-        return null; // No result found for this coordinate
-      }
-
-      const result = this.convertNominatimResult(data, 0);
+      const result = await this.withFallback((provider) =>
+        provider.reverse(coordinate),
+      );
 
-      // Cache the result
-      this.reverseGeocodeCache.set(cacheKey, { result, timestamp: Date.now() });
+      // Cache the result, including null to avoid repeated requests for same location
+      this.setCacheEntry(
+        this.reverseGeocodeCache,
+        "reverse",
+        cacheKey,
+        { result, timestamp: Date.now() },
+        result,
+      );
 
       return result;
     } catch (error) {
@@ -267,67 +244,86 @@ export class NominatimServiceImpl implements NominatimService {
   }
 
   /**
-   * Check if Nominatim service is available
+   * Search previously fetched results, regardless of age. Used when offline.
    */
-  async isServiceAvailable(): Promise<boolean> {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-      const response = await fetch(`${this.baseUrl}/status`, {
-        method: "GET",
-        headers: {
-          "User-Agent": this.userAgent,
-        },
-        signal: controller.signal,
-      });
+  searchCachedResults(query: string, limit: number = 5): AddressSearchResult[] {
+    const queryTokens = this.normalizeQuery(query)
+      .toLowerCase()
+      .split(" ")
+      .filter(Boolean);
+    if (queryTokens.length === 0) {
+      return [];
+    }
 
-      clearTimeout(timeoutId);
-      return response.ok;
-    } catch (error) {
-      console.warn("Nominatim service availability check failed:", error);
-      return false;
+    const matches = new Map<string, AddressSearchResult>();
+    for (const { results } of this.searchCache.values()) {
+      for (const result of results) {
+        const haystack =
+          `${result.displayName} ${result.address}`.toLowerCase();
+        if (queryTokens.every((token) => haystack.includes(token))) {
+          // The same place can be cached under several queries
+          matches.set(
+            `${result.coordinate.latitude.toFixed(5)}_${result.coordinate.longitude.toFixed(5)}`,
+            result,
+          );
+        }
+      }
     }
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.importance - a.importance)
+      .slice(0, limit);
   }
 
   /**
-   * Make HTTP request with proper headers and timeout
+   * Check if any configured geocoding provider is available
    */
-  private async makeRequest(url: string): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-
-    try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          "User-Agent": this.userAgent,
-          Accept: "application/json",
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
+  async isServiceAvailable(): Promise<boolean> {
+    for (const provider of this.providers) {
+      if (await provider.isAvailable()) {
+        return true;
+      }
     }
+    return false;
+  }
+
+  /**
+   * Rebuild the provider chain from user settings. Cached results stay valid
+   * since every provider returns the same AddressSearchResult shape.
+   */
+  setProviderConfig(config: GeocoderProviderConfig): void {
+    this.providers = createGeocoderProviders(config);
   }
 
   /**
-   * Respect Nominatim rate limiting (max 1 request per second per device)
+   * Run a request against each provider in turn, moving on when one is
+   * rate limited or down. Any other error is final.
    */
-  private async respectRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
+  private async withFallback<T>(
+    request: (provider: GeocoderProvider) => Promise<T>,
+  ): Promise<T> {
+    let lastError: unknown = null;
 
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      const waitTime = this.minRequestInterval - timeSinceLastRequest;
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    for (const provider of this.providers) {
+      try {
+        return await request(provider);
+      } catch (error) {
+        if (
+          error instanceof NominatimServiceError &&
+          (error.code === NominatimError.RATE_LIMITED ||
+            error.code === NominatimError.SERVICE_UNAVAILABLE)
+        ) {
+          console.warn(
+            `${provider.name} unavailable (${error.code}), trying next provider`,
+          );
+          lastError = error;
+          continue;
+        }
+        throw error;
+      }
     }
 
-    this.lastRequestTime = Date.now();
+    throw lastError;
   }
 
   /**
@@ -336,6 +332,103 @@ export class NominatimServiceImpl implements NominatimService {
   clearCache(): void {
     this.searchCache.clear();
     this.reverseGeocodeCache.clear();
+    databaseManager
+      .clearGeocodeCache()
+      .catch((error) =>
+        console.warn("Failed to clear persisted geocode cache:", error),
+      );
+  }
+
+  /**
+   * Load the persisted cache into memory. Safe to call repeatedly; the
+   * database is only read once per app launch.
+   */
+  warmCache(): Promise<void> {
+    if (!this.cacheLoadPromise) {
+      this.cacheLoadPromise = this.loadPersistedCache().catch((error) => {
+        console.warn("Failed to load persisted geocode cache:", error);
+      });
+    }
+    return this.cacheLoadPromise;
+  }
+
+  private async loadPersistedCache(): Promise<void> {
+    await databaseManager.pruneGeocodeCache(Date.now() - this.maxStaleAge);
+
+    const [searchEntries, reverseEntries] = await Promise.all([
+      databaseManager.getGeocodeCacheEntries("search"),
+      databaseManager.getGeocodeCacheEntries("reverse"),
+    ]);
+
+    // Rows arrive least recently used first, matching the Map order
+    for (const entry of searchEntries) {
+      if (!this.searchCache.has(entry.key)) {
+        this.searchCache.set(entry.key, {
+          results: JSON.parse(entry.payload),
+          timestamp: entry.createdAt,
+        });
+      }
+    }
+    for (const entry of reverseEntries) {
+      if (!this.reverseGeocodeCache.has(entry.key)) {
+        this.reverseGeocodeCache.set(entry.key, {
+          result: JSON.parse(entry.payload),
+          timestamp: entry.createdAt,
+        });
+      }
+    }
+  }
+
+  private getCacheEntry<E extends { timestamp: number }>(
+    cache: Map<string, E>,
+    kind: GeocodeCacheKind,
+    key: string,
+  ): E | undefined {
+    const entry = cache.get(key);
+    if (entry) {
+      // Move to the most recently used end
+      cache.delete(key);
+      cache.set(key, entry);
+      databaseManager
+        .touchGeocodeCacheEntry(kind, key, Date.now())
+        .catch((error) =>
+          console.warn("Failed to update geocode cache entry:", error),
+        );
+    }
+    return entry;
+  }
+
+  private setCacheEntry<E extends { timestamp: number }>(
+    cache: Map<string, E>,
+    kind: GeocodeCacheKind,
+    key: string,
+    entry: E,
+    value: unknown,
+  ): void {
+    cache.delete(key);
+    cache.set(key, entry);
+
+    // Evict least recently used entries beyond the cap
+    while (cache.size > this.maxCacheEntries) {
+      const oldestKey = cache.keys().next().value;
+      if (oldestKey === undefined) break;
+      cache.delete(oldestKey);
+    }
+
+    databaseManager
+      .putGeocodeCacheEntry(
+        {
+          kind,
+          key,
+          payload: JSON.stringify(value),
+          createdAt: entry.timestamp,
+          lastAccessedAt: Date.now(),
+        },
+        this.maxCacheEntries,
+      )
+      .catch((error) =>
+        console.warn("Failed to persist geocode cache entry:", error),
+      );
   }
 
   private normalizeQuery(query: string): string {
@@ -423,153 +516,6 @@ export class NominatimServiceImpl implements NominatimService {
     });
   }
 
-  private async fetchSearchResults(
-    query: string,
-    limit: number,
-    options: NominatimSearchOptions,
-  ): Promise<NominatimResult[]> {
-    await this.respectRateLimit();
-
-    const searchParams = this.buildSearchParams(query, limit, options);
-    const url = `${this.baseUrl}/search?${searchParams.toString()}`;
-    const response = await this.makeRequest(url);
-
-    if (!response.ok) {
-      if (response.status === 429 || response.status === 509) {
-        throw new NominatimServiceError(
-          NominatimError.RATE_LIMITED,
-          "Too many requests. Please wait a moment and try again.",
-        );
-      }
-      throw new NominatimServiceError(
-        NominatimError.SERVICE_UNAVAILABLE,
-        `Nominatim service returned status ${response.status}`,
-      );
-    }
-
-    const data: NominatimResult[] = await response.json();
-
-    if (!Array.isArray(data)) {
-      throw new NominatimServiceError(
-        NominatimError.INVALID_RESPONSE,
-        "Invalid response format from Nominatim service",
-      );
-    }
-
-    return data;
-  }
-
-  private buildSearchParams(
-    query: string,
-    limit: number,
-    options: NominatimSearchOptions,
-  ): URLSearchParams {
-    const countryCodes = (options.countryCodes || [])
-      .map((code) => code.trim().toLowerCase())
-      .filter((code) => /^[a-z]{2}$/.test(code));
-    const structuredQuery = this.parseStructuredQuery(query);
-
-    const searchParams = new URLSearchParams({
-      format: "jsonv2",
-      limit: limit.toString(),
-      addressdetails: "1",
-      extratags: "0",
-      namedetails: "0",
-      dedupe: "1",
-      "accept-language": options.acceptLanguage || "en",
-    });
-
-    if (structuredQuery) {
-      this.applyStructuredQuery(searchParams, structuredQuery);
-    } else {
-      searchParams.set("q", query);
-    }
-
-    if (options.viewbox) {
-      searchParams.set(
-        "viewbox",
-        `${options.viewbox.west},${options.viewbox.north},${options.viewbox.east},${options.viewbox.south}`,
-      );
-      const bounded = options.bounded !== undefined ? options.bounded : true;
-      searchParams.set("bounded", bounded ? "1" : "0");
-    }
-
-    if (countryCodes.length > 0) {
-      searchParams.set("countrycodes", countryCodes.join(","));
-    }
-
-    return searchParams;
-  }
-
-  private applyStructuredQuery(
-    searchParams: URLSearchParams,
-    structuredQuery: StructuredSearchQuery,
-  ): void {
-    const structuredEntries = Object.entries(structuredQuery) as [
-      keyof StructuredSearchQuery,
-      string | undefined,
-    ][];
-
-    for (const [key, value] of structuredEntries) {
-      if (value && value.trim().length > 0) {
-        searchParams.set(key, value.trim());
-      }
-    }
-  }
-
-  private parseStructuredQuery(query: string): StructuredSearchQuery | null {
-    const parts = query
-      .split(",")
-      .map((part) => part.trim())
-      .filter(Boolean);
-
-    if (parts.length < 2) {
-      return null;
-    }
-
-    const postalcodeMatch = query.match(/\b\d{4,6}\b/);
-    const structured: StructuredSearchQuery = {};
-
-    if (this.looksLikeStreet(parts[0])) {
-      structured.street = parts[0];
-      if (parts[1]) {
-        structured.city = parts[1];
-      }
-      if (parts[2]) {
-        structured.state = parts[2];
-      }
-    } else {
-      structured.city = parts[0];
-      if (parts[1]) {
-        structured.state = parts[1];
-      }
-      if (parts[2]) {
-        structured.country = parts[2];
-      }
-    }
-
-    if (parts.length >= 4) {
-      structured.country = parts[parts.length - 1];
-    }
-
-    if (postalcodeMatch) {
-      structured.postalcode = postalcodeMatch[0];
-    }
-
-    const nonEmptyFieldCount = Object.values(structured).filter(Boolean).length;
-    return nonEmptyFieldCount >= 2 ? structured : null;
-  }
-
-  private looksLikeStreet(value: string): boolean {
-    const hasStreetNumber = /\d/.test(value);
-    const hasStreetKeyword =
-      /\b(street|st|road|rd|avenue|ave|lane|ln|boulevard|blvd|marg|nagar|colony)\b/i.test(
-        value,
-      );
-
-    return hasStreetNumber || hasStreetKeyword;
-  }
-
   private computeResultScore(
     result: AddressSearchResult,
     normalizedQuery: string,
@@ -615,60 +561,6 @@ export class NominatimServiceImpl implements NominatimService {
       importanceScore * 0.1
     );
   }
-
-  /**
-   * Convert Nominatim result to our AddressSearchResult format
-   */
-  private convertNominatimResult(
-    result: NominatimResult,
-    index: number,
-  ): AddressSearchResult {
-    const coordinate: Coordinate = {
-      latitude: parseFloat(result.lat),
-      longitude: parseFloat(result.lon),
-    };
-
-    // Parse bounding box
-    const boundingBox = {
-      south: parseFloat(result.boundingbox[0]),
-      north: parseFloat(result.boundingbox[1]),
-      west: parseFloat(result.boundingbox[2]),
-      east: parseFloat(result.boundingbox[3]),
-    };
-
-    // Generate a readable name from display_name
-    const displayName = this.extractReadableName(result.display_name);
-
-    return {
-      id: `nominatim_${result.place_id}_${index}`,
-      displayName,
-      address: result.display_name,
-      coordinate,
-      importance: result.importance || 0,
-      type: result.type || "unknown",
-      boundingBox,
-    };
-  }
-
-  /**
-   * Extract a readable name from Nominatim's display_name
-   */
-  private extractReadableName(displayName: string): string {
-    // Nominatim display_name format: "Name, Street, City, State, Country"
-    // We want to extract the most relevant part (usually the first 1-2 components)
-    const parts = displayName.split(",").map((part) => part.trim());
-
-    if (parts.length === 1) {
-      return parts[0];
-    }
-
-    // For most cases, take the first two parts (e.g., "Central Park, New York")
-    if (parts.length >= 2) {
-      return `${parts[0]}, ${parts[1]}`;
-    }
-
-    return parts[0];
-  }
 }
 
 // Export singleton instance
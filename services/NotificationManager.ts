@@ -1,29 +1,58 @@
 // Notification management service for HopOff app
 import * as Notifications from "expo-notifications";
 import { Platform, Vibration } from "react-native";
-import { Alarm } from "../types";
-// import { MetroLine, MetroStation } from "../metro/types/metro";
+import { Alarm, MetroStation } from "../types";
+import { formatEta } from "../utils";
+// import { MetroLine } from "../metro/types/metro";
 
 export interface AlarmDistanceInfo {
   alarm: Alarm;
   distance: number;
+  etaSeconds?: number | null; // null while stationary or speed is unknown
+}
+
+// Actions on the "alarm" notification category; "open" is a plain tap
+export type AlarmNotificationAction = "snooze" | "rearm" | "dismiss" | "open";
+
+export type AlarmActionListener = (
+  alarmId: string,
+  action: AlarmNotificationAction,
+) => void;
+
+interface AlarmActionEvent {
+  alarmId: string;
+  action: AlarmNotificationAction;
 }
 
 export interface NotificationManager {
   requestPermissions(): Promise<boolean>;
   showAlarmNotification(alarm: Alarm): Promise<void>;
-  showPersistentNotification(alarm: Alarm, distance: number): Promise<void>;
+  scheduleAlarmRepeats(
+    alarm: Alarm,
+    count: number,
+    intervalSeconds: number,
+    firstDelaySeconds?: number,
+  ): Promise<string[]>;
+  cancelAlarmNotifications(notificationIds: string[]): Promise<void>;
+  addAlarmActionListener(listener: AlarmActionListener): { remove: () => void };
+  showPersistentNotification(
+    alarm: Alarm,
+    distance: number,
+    etaSeconds?: number | null,
+  ): Promise<void>;
   showMultipleAlarmsPersistentNotification(
     alarms: AlarmDistanceInfo[],
   ): Promise<void>;
   clearNotifications(): Promise<void>;
   triggerHapticFeedback(): Promise<void>;
-  // // Metro-specific notifications
-  // showIntermediateStopNotification(
-  //   station: MetroStation,
-  //   destination: MetroStation,
-  //   message: string,
-  // ): Promise<void>;
+  showScheduledAlarmNotification(alarm: Alarm): Promise<void>;
+  showInfoNotification(title: string, body: string): Promise<void>;
+  // Metro-specific notifications
+  showIntermediateStopNotification(
+    station: MetroStation,
+    destination: MetroStation,
+    message: string,
+  ): Promise<void>;
   // showTransferNotification(
   //   station: MetroStation,
   //   fromLine: MetroLine,
@@ -52,11 +81,20 @@ export class NotificationManagerImpl implements NotificationManager {
   private static readonly INTERMEDIATE_NOTIFICATION_ID = "hop-off-intermediate";
   private static readonly TRANSFER_NOTIFICATION_ID = "hop-off-transfer";
   private static readonly METRO_ROUTE_NOTIFICATION_ID = "hop-off-metro-route";
+  private static readonly SCHEDULE_NOTIFICATION_ID = "hop-off-schedule";
+  private static readonly INFO_NOTIFICATION_ID = "hop-off-info";
+  private static readonly ALARM_CATEGORY_ID = "alarm";
+  private static readonly DEPARTURE_CATEGORY_ID = "departure";
   private static readonly ALARM_CHANNEL_ID = "hop-off-alarms";
   private static readonly PERSISTENT_CHANNEL_ID = "hop-off-persistent";
   private static readonly METRO_CHANNEL_ID = "hop-off-metro";
 
   private isInitialized = false;
+  // One native response subscription, fanned out to every action listener
+  private actionListeners = new Set<AlarmActionListener>();
+  private responseSubscription: Notifications.EventSubscription | null = null;
+  // The response that launched the app, read (and cleared) only once
+  private launchAction: Promise<AlarmActionEvent | null> | null = null;
 
   constructor() {
     this.initializeNotificationChannels();
@@ -110,6 +148,47 @@ export class NotificationManagerImpl implements NotificationManager {
       );
     }
 
+    // Buttons on the alarm notification. Every button opens the app: the
+    // press is handled by the alarm action listeners, and nothing in the JS
+    // runtime would receive it from a killed or suspended app otherwise.
+    await Notifications.setNotificationCategoryAsync(
+      NotificationManagerImpl.ALARM_CATEGORY_ID,
+      [
+        {
+          identifier: "snooze",
+          buttonTitle: "Snooze 1 min",
+          options: { opensAppToForeground: true },
+        },
+        {
+          identifier: "rearm",
+          buttonTitle: "Still on board",
+          options: { opensAppToForeground: true },
+        },
+        {
+          identifier: "dismiss",
+          buttonTitle: "I'm off",
+          options: { opensAppToForeground: true, isDestructive: true },
+        },
+      ],
+    );
+
+    // Departure alarms have nothing to re-arm nearer to
+    await Notifications.setNotificationCategoryAsync(
+      NotificationManagerImpl.DEPARTURE_CATEGORY_ID,
+      [
+        {
+          identifier: "snooze",
+          buttonTitle: "Snooze 1 min",
+          options: { opensAppToForeground: true },
+        },
+        {
+          identifier: "dismiss",
+          buttonTitle: "Got it",
+          options: { opensAppToForeground: true, isDestructive: true },
+        },
+      ],
+    );
+
     this.isInitialized = true;
   }
 
@@ -129,29 +208,11 @@ export class NotificationManagerImpl implements NotificationManager {
   async showAlarmNotification(alarm: Alarm): Promise<void> {
     await this.initializeNotificationChannels();
 
-    const notificationContent: Notifications.NotificationContentInput = {
-      title: "HopOff! - Destination Reached",
-      body: `You're approaching ${alarm.destination.name}. Time to get ready!`,
-      data: {
-        alarmId: alarm.id,
-        destinationId: alarm.destination.id,
-        type: "alarm",
-      },
-      sound: alarm.settings.vibrationEnabled ? "default" : false,
-      categoryIdentifier: "alarm",
-    };
-
-    // Build trigger with channelId for Android, null for iOS
-    const trigger =
-      Platform.OS === "android"
-        ? { channelId: NotificationManagerImpl.ALARM_CHANNEL_ID }
-        : null;
-
     // Schedule the notification
     await Notifications.scheduleNotificationAsync({
       identifier: NotificationManagerImpl.ALARM_NOTIFICATION_ID,
-      content: notificationContent,
-      trigger,
+      content: this.buildAlarmContent(alarm),
+      trigger: this.alarmChannelTrigger(),
     });
 
     // Trigger haptic feedback if enabled
@@ -160,9 +221,160 @@ export class NotificationManagerImpl implements NotificationManager {
     }
   }
 
+  /**
+   * Schedule re-notifications for a fired alarm. They are delivered by the
+   * OS, so they still ring if the app is killed. Returns their identifiers
+   * so they can be cancelled once the user acknowledges the alarm.
+   */
+  async scheduleAlarmRepeats(
+    alarm: Alarm,
+    count: number,
+    intervalSeconds: number,
+    firstDelaySeconds: number = intervalSeconds,
+  ): Promise<string[]> {
+    await this.initializeNotificationChannels();
+
+    const content = this.buildAlarmContent(alarm);
+    const channelId =
+      Platform.OS === "android"
+        ? NotificationManagerImpl.ALARM_CHANNEL_ID
+        : undefined;
+
+    const identifiers: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const identifier = `${NotificationManagerImpl.ALARM_NOTIFICATION_ID}-${alarm.id}-${i}`;
+      await Notifications.scheduleNotificationAsync({
+        identifier,
+        content,
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: firstDelaySeconds + i * intervalSeconds,
+          channelId,
+        },
+      });
+      identifiers.push(identifier);
+    }
+    return identifiers;
+  }
+
+  async cancelAlarmNotifications(notificationIds: string[]): Promise<void> {
+    for (const identifier of notificationIds) {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+      await Notifications.dismissNotificationAsync(identifier);
+    }
+    await Notifications.dismissNotificationAsync(
+      NotificationManagerImpl.ALARM_NOTIFICATION_ID,
+    );
+  }
+
+  /**
+   * Listen for taps and button presses on alarm notifications. Every
+   * listener also gets the press that launched the app from a cold start,
+   * however late it registers; that press is read from the OS only once.
+   */
+  addAlarmActionListener(listener: AlarmActionListener): {
+    remove: () => void;
+  } {
+    this.actionListeners.add(listener);
+
+    if (!this.responseSubscription) {
+      this.responseSubscription =
+        Notifications.addNotificationResponseReceivedListener((response) => {
+          const event = this.parseAlarmResponse(response);
+          if (!event) return;
+          this.actionListeners.forEach((l) => l(event.alarmId, event.action));
+        });
+    }
+
+    if (!this.launchAction) {
+      this.launchAction = Notifications.getLastNotificationResponseAsync()
+        .then(async (response) => {
+          if (!response) return null;
+          // Clear it so the same press isn't handled again on the next launch
+          await Notifications.clearLastNotificationResponseAsync();
+          return this.parseAlarmResponse(response);
+        })
+        .catch((error) => {
+          console.warn("Failed to read last notification response:", error);
+          return null;
+        });
+    }
+    this.launchAction.then((event) => {
+      if (event && this.actionListeners.has(listener)) {
+        listener(event.alarmId, event.action);
+      }
+    });
+
+    return {
+      remove: () => {
+        this.actionListeners.delete(listener);
+      },
+    };
+  }
+
+  private parseAlarmResponse(
+    response: Notifications.NotificationResponse,
+  ): AlarmActionEvent | null {
+    const data = response.notification.request.content.data;
+    if (data?.type !== "alarm" || typeof data.alarmId !== "string") {
+      return null;
+    }
+
+    const action: AlarmNotificationAction =
+      (["snooze", "rearm", "dismiss"] as const).find(
+        (a) => a === response.actionIdentifier,
+      ) ?? "open";
+    return { alarmId: data.alarmId, action };
+  }
+
+  private buildAlarmContent(
+    alarm: Alarm,
+  ): Notifications.NotificationContentInput {
+    if (alarm.type === "departure") {
+      return {
+        title: "HopOff! - Leaving",
+        body: `You've left ${alarm.destination.name}.`,
+        data: {
+          alarmId: alarm.id,
+          destinationId: alarm.destination.id,
+          type: "alarm",
+        },
+        sound: alarm.settings.vibrationEnabled ? "default" : false,
+        categoryIdentifier: NotificationManagerImpl.DEPARTURE_CATEGORY_ID,
+      };
+    }
+
+    const body =
+      alarm.type === "transit" && alarm.transit
+        ? `${alarm.transit.stopsBefore} stop${alarm.transit.stopsBefore > 1 ? "s" : ""} to ${alarm.destination.name}. Time to get ready!`
+        : alarm.settings.triggerMode === "eta"
+          ? `About ${alarm.settings.etaMinutes} min to ${alarm.destination.name}. Time to get ready!`
+          : `You're approaching ${alarm.destination.name}. Time to get ready!`;
+
+    return {
+      title: "HopOff! - Destination Reached",
+      body,
+      data: {
+        alarmId: alarm.id,
+        destinationId: alarm.destination.id,
+        type: "alarm",
+      },
+      sound: alarm.settings.vibrationEnabled ? "default" : false,
+      categoryIdentifier: NotificationManagerImpl.ALARM_CATEGORY_ID,
+    };
+  }
+
+  // Build trigger with channelId for Android, null for iOS
+  private alarmChannelTrigger(): Notifications.NotificationTriggerInput {
+    return Platform.OS === "android"
+      ? { channelId: NotificationManagerImpl.ALARM_CHANNEL_ID }
+      : null;
+  }
+
   async showPersistentNotification(
     alarm: Alarm,
     distance: number,
+    etaSeconds: number | null = null,
   ): Promise<void> {
     await this.initializeNotificationChannels();
 
@@ -173,11 +385,12 @@ export class NotificationManagerImpl implements NotificationManager {
 
     const notificationContent: Notifications.NotificationContentInput = {
       title: "HopOff! - Trip Active",
-      body: `${distanceText} to ${alarm.destination.name}`,
+      body: `${distanceText} to ${alarm.destination.name}${etaSeconds !== null ? ` · ~${formatEta(etaSeconds)}` : ""}`,
       data: {
         alarmId: alarm.id,
         destinationId: alarm.destination.id,
         distance,
+        etaSeconds,
         type: "persistent",
       },
       sound: false, // No sound for persistent notifications
@@ -216,6 +429,7 @@ export class NotificationManagerImpl implements NotificationManager {
       await this.showPersistentNotification(
         alarms[0].alarm,
         alarms[0].distance,
+        alarms[0].etaSeconds,
       );
       return;
     }
@@ -237,7 +451,9 @@ export class NotificationManagerImpl implements NotificationManager {
           info.distance >= 1000
             ? `${(info.distance / 1000).toFixed(1)} km`
             : `${Math.round(info.distance)} m`;
-        return `• ${dist} to ${info.alarm.destination.name}`;
+        const eta =
+          info.etaSeconds != null ? ` (~${formatEta(info.etaSeconds)})` : "";
+        return `• ${dist} to ${info.alarm.destination.name}${eta}`;
       })
       .join("\n");
 
@@ -295,41 +511,84 @@ export class NotificationManagerImpl implements NotificationManager {
     }
   }
 
-  //   async showIntermediateStopNotification(
-  //     station: MetroStation,
-  //     destination: MetroStation,
-  //     message: string,
-  //   ): Promise<void> {
-  //     await this.initializeNotificationChannels();
+  async showIntermediateStopNotification(
+    station: MetroStation,
+    destination: MetroStation,
+    message: string,
+  ): Promise<void> {
+    await this.initializeNotificationChannels();
 
-  //     const notificationContent: Notifications.NotificationContentInput = {
-  //       title: "🚇 Metro Alert - Intermediate Stop",
-  //       body: message,
-  //       data: {
-  //         stationId: station.id,
-  //         destinationId: destination.id,
-  //         type: "intermediate",
-  //       },
-  //       sound: "default",
-  //       categoryIdentifier: "metro-intermediate",
-  //     };
+    const notificationContent: Notifications.NotificationContentInput = {
+      title: "🚇 Next Station",
+      body: message,
+      data: {
+        stationId: station.id,
+        destinationId: destination.id,
+        type: "intermediate",
+      },
+      sound: false, // Quiet update — the alarm itself is the loud one
+      categoryIdentifier: "metro-intermediate",
+    };
 
-  //     // Add Android-specific properties
-  //     const androidContent = notificationContent as any;
-  //     if (Platform.OS === "android") {
-  //       androidContent.channelId = NotificationManagerImpl.METRO_CHANNEL_ID;
-  //       androidContent.priority = "default";
-  //     }
+    // Low-importance trip channel so passing a station never buzzes
+    const trigger =
+      Platform.OS === "android"
+        ? { channelId: NotificationManagerImpl.PERSISTENT_CHANNEL_ID }
+        : null;
 
-  //     await Notifications.scheduleNotificationAsync({
-  //       identifier: NotificationManagerImpl.INTERMEDIATE_NOTIFICATION_ID,
-  //       content: notificationContent,
-  //       trigger: null,
-  //     });
+    // Reusing the identifier replaces the previous station update
+    await Notifications.scheduleNotificationAsync({
+      identifier: NotificationManagerImpl.INTERMEDIATE_NOTIFICATION_ID,
+      content: notificationContent,
+      trigger,
+    });
+  }
 
-  //     // Short vibration for intermediate stops
-  //     Vibration.vibrate(100);
-  //   }
+  async showScheduledAlarmNotification(alarm: Alarm): Promise<void> {
+    await this.initializeNotificationChannels();
+
+    const notificationContent: Notifications.NotificationContentInput = {
+      title: "Scheduled Alarm Armed",
+      body: `Your alarm for ${alarm.destination.name} is set. Tap to start tracking.`,
+      data: {
+        alarmId: alarm.id,
+        destinationId: alarm.destination.id,
+        type: "schedule",
+      },
+      sound: false,
+      categoryIdentifier: "schedule",
+    };
+
+    const trigger =
+      Platform.OS === "android"
+        ? { channelId: NotificationManagerImpl.PERSISTENT_CHANNEL_ID }
+        : null;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: NotificationManagerImpl.SCHEDULE_NOTIFICATION_ID,
+      content: notificationContent,
+      trigger,
+    });
+  }
+
+  /**
+   * Show a one-off message, for outcomes of notification actions that have
+   * no screen to report on
+   */
+  async showInfoNotification(title: string, body: string): Promise<void> {
+    await this.initializeNotificationChannels();
+
+    const trigger =
+      Platform.OS === "android"
+        ? { channelId: NotificationManagerImpl.PERSISTENT_CHANNEL_ID }
+        : null;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: NotificationManagerImpl.INFO_NOTIFICATION_ID,
+      content: { title, body, data: { type: "info" }, sound: false },
+      trigger,
+    });
+  }
 
   //   async showTransferNotification(
   //     station: MetroStation,
@@ -1,6 +1,10 @@
 // Storage management service for HopOff app
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Destination, UserSettings, VALIDATION_CONSTANTS } from "../types";
+import {
+  createDefaultUserSettings,
+  getNearestValidTriggerRadius,
+} from "../utils";
 import { databaseManager } from "./DatabaseManager";
 
 export interface StorageManager {
@@ -13,12 +17,7 @@ export interface StorageManager {
 
 const SETTINGS_KEY = "user_settings";
 
-const defaultSettings: UserSettings = {
-  defaultTriggerRadius: 500,
-  vibrationEnabled: true,
-  persistentNotificationEnabled: true,
-  batteryOptimizationEnabled: true,
-};
+const defaultSettings: UserSettings = createDefaultUserSettings();
 
 export class StorageManagerImpl implements StorageManager {
   async saveDestination(destination: Destination): Promise<string> {
@@ -88,11 +87,14 @@ export class StorageManagerImpl implements StorageManager {
 
     // Validate trigger radius
     if (
-      !VALIDATION_CONSTANTS.VALID_TRIGGER_RADII.includes(
-        validated.defaultTriggerRadius as any,
-      )
+      typeof validated.defaultTriggerRadius !== "number" ||
+      isNaN(validated.defaultTriggerRadius)
     ) {
       validated.defaultTriggerRadius = defaultSettings.defaultTriggerRadius;
+    } else {
+      validated.defaultTriggerRadius = getNearestValidTriggerRadius(
+        validated.defaultTriggerRadius,
+      );
     }
 
     // Volume and sound are controlled by system notification settings, no validation needed
@@ -118,6 +120,61 @@ export class StorageManagerImpl implements StorageManager {
       );
     }
 
+    // Validate ETA trigger defaults
+    if (!["radius", "eta"].includes(validated.defaultTriggerMode)) {
+      validated.defaultTriggerMode = defaultSettings.defaultTriggerMode;
+    }
+    if (
+      typeof validated.defaultEtaMinutes !== "number" ||
+      validated.defaultEtaMinutes < VALIDATION_CONSTANTS.MIN_ETA_MINUTES ||
+      validated.defaultEtaMinutes > VALIDATION_CONSTANTS.MAX_ETA_MINUTES
+    ) {
+      validated.defaultEtaMinutes = defaultSettings.defaultEtaMinutes;
+    }
+
+    // Validate re-notification defaults
+    if (
+      !Number.isInteger(validated.alarmRepeatCount) ||
+      validated.alarmRepeatCount < VALIDATION_CONSTANTS.MIN_REPEAT_COUNT ||
+      validated.alarmRepeatCount > VALIDATION_CONSTANTS.MAX_REPEAT_COUNT
+    ) {
+      validated.alarmRepeatCount = defaultSettings.alarmRepeatCount;
+    }
+    if (
+      typeof validated.alarmRepeatIntervalSeconds !== "number" ||
+      validated.alarmRepeatIntervalSeconds <
+        VALIDATION_CONSTANTS.MIN_REPEAT_INTERVAL_SECONDS ||
+      validated.alarmRepeatIntervalSeconds >
+        VALIDATION_CONSTANTS.MAX_REPEAT_INTERVAL_SECONDS
+    ) {
+      validated.alarmRepeatIntervalSeconds =
+        defaultSettings.alarmRepeatIntervalSeconds;
+    }
+    if (
+      !["gentle", "standard", "urgent"].includes(
+        validated.defaultEscalationProfile,
+      )
+    ) {
+      validated.defaultEscalationProfile =
+        defaultSettings.defaultEscalationProfile;
+    }
+
+    // Fall back to the public Nominatim server for unknown providers
+    if (
+      !["nominatim", "photon", "self-hosted"].includes(
+        validated.geocoderProvider,
+      )
+    ) {
+      validated.geocoderProvider = defaultSettings.geocoderProvider;
+    }
+    if (!["nominatim", "photon"].includes(validated.selfHostedGeocoderApi)) {
+      validated.selfHostedGeocoderApi = defaultSettings.selfHostedGeocoderApi;
+    }
+    validated.selfHostedGeocoderUrl =
+      typeof validated.selfHostedGeocoderUrl === "string"
+        ? validated.selfHostedGeocoderUrl.trim()
+        : "";
+
     return validated;
   }
 }
@@ -0,0 +1,85 @@
+import { Alarm } from "../../types";
+import { getDistanceToDestination } from "../../utils";
+import { AlarmRingerImpl } from "../AlarmRinger";
+import { metroService } from "../MetroService";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../NotificationManager", () => ({
+  notificationManager: {
+    scheduleAlarmRepeats: jest.fn(async () => ["repeat_1", "repeat_2"]),
+    cancelAlarmNotifications: jest.fn(async () => {}),
+  },
+}));
+
+// Yellow Line, seven stops; the wake station is three stops early
+const ROUTE = metroService.planRoute("vishwavidyalaya", "rajiv-chowk");
+const WAKE_STATION = metroService.getWakeStation(ROUTE, 3);
+
+const TRANSIT_ALARM: Alarm = {
+  id: "alarm_transit",
+  type: "transit",
+  destination: {
+    id: "dest_rajiv_chowk",
+    name: ROUTE.destination.name,
+    coordinate: ROUTE.destination.coordinate,
+    createdAt: "2026-10-19T07:00:00.000Z",
+  },
+  settings: {
+    triggerRadius: 300,
+    vibrationEnabled: true,
+    persistentNotification: true,
+  },
+  transit: { route: ROUTE, stopsBefore: 3 },
+  isActive: true,
+  createdAt: "2026-10-19T07:00:00.000Z",
+};
+
+describe("AlarmRingerImpl.acknowledgeIfMovedAway", () => {
+  let ringer: AlarmRingerImpl;
+
+  beforeEach(() => {
+    ringer = new AlarmRingerImpl();
+  });
+
+  it("keeps a transit alarm fired by its geofence ringing at the wake station", async () => {
+    // The geofence is centred on the wake station, stops from the destination
+    await ringer.start(
+      TRANSIT_ALARM,
+      getDistanceToDestination(
+        WAKE_STATION.coordinate,
+        TRANSIT_ALARM.destination,
+      ),
+    );
+
+    await expect(
+      ringer.acknowledgeIfMovedAway(WAKE_STATION.coordinate),
+    ).resolves.toBe(1);
+    await expect(ringer.get(TRANSIT_ALARM.id)).resolves.not.toBeNull();
+  });
+
+  it("keeps a transit alarm ringing while the user rides on", async () => {
+    await ringer.start(TRANSIT_ALARM, null);
+
+    await expect(
+      ringer.acknowledgeIfMovedAway(WAKE_STATION.coordinate),
+    ).resolves.toBe(1);
+    await expect(
+      ringer.acknowledgeIfMovedAway(ROUTE.stations[5].coordinate),
+    ).resolves.toBe(1);
+  });
+
+  it("acknowledges a transit alarm once the user has left the route", async () => {
+    await ringer.start(TRANSIT_ALARM, null);
+
+    // A few kilometres east of the wake station
+    await expect(
+      ringer.acknowledgeIfMovedAway({
+        latitude: WAKE_STATION.coordinate.latitude,
+        longitude: WAKE_STATION.coordinate.longitude + 0.05,
+      }),
+    ).resolves.toBe(0);
+    await expect(ringer.get(TRANSIT_ALARM.id)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  AlarmSchedulerImpl,
+  ScheduleEvaluationResult,
+} from "../AlarmScheduler";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("expo-background-task", () => ({
+  BackgroundTaskResult: { Success: 1, Failed: 2 },
+}));
+jest.mock("expo-task-manager", () => ({ defineTask: jest.fn() }));
+jest.mock("../AlarmManager", () => ({ alarmManager: {} }));
+jest.mock("../BackgroundLocationTask", () => ({
+  BackgroundLocationManager: {},
+}));
+jest.mock("../NotificationManager", () => ({ notificationManager: {} }));
+
+const EMPTY_RESULT: ScheduleEvaluationResult = {
+  armed: [],
+  disarmedAlarmIds: [],
+};
+
+// Stands in for the evaluation itself, finishing each run when told to
+function stubEvaluation(scheduler: AlarmSchedulerImpl) {
+  const finishers: (() => void)[] = [];
+  const run = jest
+    .spyOn(
+      scheduler as unknown as {
+        runEvaluation(now: Date): Promise<ScheduleEvaluationResult>;
+      },
+      "runEvaluation",
+    )
+    .mockImplementation(
+      () =>
+        new Promise((resolve) => finishers.push(() => resolve(EMPTY_RESULT))),
+    );
+  const finishNext = async () => {
+    finishers.shift()?.();
+    // Let the queued run start
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+  };
+  return { run, finishNext };
+}
+
+describe("AlarmSchedulerImpl.evaluateSchedules", () => {
+  it("queues one follow-up run for the latest time while a run is in progress", async () => {
+    const scheduler = new AlarmSchedulerImpl();
+    const { run, finishNext } = stubEvaluation(scheduler);
+    const first = new Date("2026-10-19T07:00:00.000Z");
+    const second = new Date("2026-10-19T07:01:00.000Z");
+    const third = new Date("2026-10-19T07:02:00.000Z");
+
+    const running = scheduler.evaluateSchedules(first);
+    const queued = scheduler.evaluateSchedules(second);
+    const sharesQueued = scheduler.evaluateSchedules(third);
+    expect(sharesQueued).toBe(queued);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await finishNext();
+    await expect(running).resolves.toEqual(EMPTY_RESULT);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(third);
+
+    await finishNext();
+    await expect(queued).resolves.toEqual(EMPTY_RESULT);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs the follow-up even if the run in progress fails", async () => {
+    const scheduler = new AlarmSchedulerImpl();
+    const { run, finishNext } = stubEvaluation(scheduler);
+    run.mockRejectedValueOnce(new Error("storage unavailable"));
+
+    const failing = scheduler.evaluateSchedules();
+    const queued = scheduler.evaluateSchedules();
+
+    await expect(failing).rejects.toThrow("storage unavailable");
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+    expect(run).toHaveBeenCalledTimes(2);
+    await finishNext();
+    await expect(queued).resolves.toEqual(EMPTY_RESULT);
+  });
+});
@@ -0,0 +1,256 @@
+import { Alarm } from "../../types";
+import {
+  AlarmTriggerDependencies,
+  AlarmTriggerPipelineImpl,
+  FiredAlarmEntry,
+  FiredAlarmLedger,
+} from "../AlarmTriggerPipeline";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+// Yield to other pending work, like real storage does, so concurrent
+// triggers interleave
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+class FakeLedger implements FiredAlarmLedger {
+  entries = new Map<string, FiredAlarmEntry>();
+
+  async get(alarmId: string): Promise<FiredAlarmEntry | null> {
+    await tick();
+    return this.entries.get(alarmId) ?? null;
+  }
+
+  async record(alarmId: string, entry: FiredAlarmEntry): Promise<void> {
+    await tick();
+    this.entries.set(alarmId, { ...entry });
+  }
+}
+
+const ALARM: Alarm = {
+  id: "alarm_1",
+  destination: {
+    id: "dest_1",
+    name: "Central Station",
+    coordinate: { latitude: 51.5, longitude: -0.1 },
+    createdAt: "2026-10-19T07:00:00.000Z",
+  },
+  settings: {
+    triggerRadius: 200,
+    vibrationEnabled: true,
+    persistentNotification: true,
+  },
+  isActive: true,
+  createdAt: "2026-10-19T07:00:00.000Z",
+};
+
+const FIRED_AT = "2026-10-19T08:00:00.000Z";
+
+function createHarness(alarms: Alarm[] = [ALARM]) {
+  const stored = new Map(alarms.map((alarm) => [alarm.id, alarm]));
+  const ledger = new FakeLedger();
+  const deps = {
+    repository: {
+      getAlarm: jest.fn(async (alarmId: string) => {
+        await tick();
+        return stored.get(alarmId) ?? null;
+      }),
+      removeAlarm: jest.fn(async (alarmId: string) => {
+        await tick();
+        const alarm = stored.get(alarmId) ?? null;
+        stored.delete(alarmId);
+        return alarm;
+      }),
+    },
+    ledger,
+    notify: jest.fn(async () => {}),
+    startRinging: jest.fn(async () => {}),
+    closeTrip: jest.fn(async () => {}),
+    recordArrival: jest.fn(async () => {}),
+    forgetPresence: jest.fn(async () => {}),
+    now: () => new Date(FIRED_AT),
+  } satisfies AlarmTriggerDependencies;
+
+  return {
+    ...deps,
+    pipeline: new AlarmTriggerPipelineImpl(deps),
+    isStored: (alarmId: string) => stored.has(alarmId),
+  };
+}
+
+type Harness = ReturnType<typeof createHarness>;
+
+function expectRangOnce(harness: Harness) {
+  expect(harness.notify).toHaveBeenCalledTimes(1);
+  expect(harness.startRinging).toHaveBeenCalledTimes(1);
+  expect(harness.repository.removeAlarm).toHaveBeenCalledTimes(1);
+  expect(harness.closeTrip).toHaveBeenCalledTimes(1);
+  expect(harness.recordArrival).toHaveBeenCalledTimes(1);
+  expect(harness.forgetPresence).toHaveBeenCalledWith(ALARM.id);
+  expect(harness.isStored(ALARM.id)).toBe(false);
+  expect(harness.ledger.entries.get(ALARM.id)?.completed).toBe(true);
+}
+
+describe("AlarmTriggerPipelineImpl", () => {
+  beforeEach(() => {
+    // Duplicate triggers are logged in development builds
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rings once when the geofence reports before the location task", async () => {
+    const harness = createHarness();
+
+    await expect(
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+    ).resolves.toEqual({ fired: true });
+    await expect(
+      harness.pipeline.trigger({
+        alarmId: ALARM.id,
+        source: "location",
+        distanceAtTrigger: 150,
+      }),
+    ).resolves.toEqual({ fired: false, skipped: "already-fired" });
+
+    expectRangOnce(harness);
+    expect(harness.closeTrip).toHaveBeenCalledWith(ALARM.id, null);
+    expect(harness.ledger.entries.get(ALARM.id)?.source).toBe("geofence");
+  });
+
+  it("rings once when the location task reports before the geofence", async () => {
+    const harness = createHarness();
+
+    await expect(
+      harness.pipeline.trigger({
+        alarmId: ALARM.id,
+        source: "location",
+        distanceAtTrigger: 150,
+      }),
+    ).resolves.toEqual({ fired: true });
+    await expect(
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+    ).resolves.toEqual({ fired: false, skipped: "already-fired" });
+
+    expectRangOnce(harness);
+    expect(harness.closeTrip).toHaveBeenCalledWith(ALARM.id, 150);
+    expect(harness.recordArrival).toHaveBeenCalledWith(
+      ALARM,
+      new Date(FIRED_AT),
+    );
+  });
+
+  it("rings once when triggers arrive at the same time", async () => {
+    const harness = createHarness();
+
+    const results = await Promise.all([
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+      harness.pipeline.trigger({
+        alarmId: ALARM.id,
+        source: "location",
+        distanceAtTrigger: 150,
+      }),
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+    ]);
+
+    expect(results.filter((result) => result.fired)).toHaveLength(1);
+    expect(results.filter((result) => !result.fired)).toEqual([
+      { fired: false, skipped: "already-fired" },
+      { fired: false, skipped: "already-fired" },
+    ]);
+    expectRangOnce(harness);
+  });
+
+  it("fires different alarms independently", async () => {
+    const other: Alarm = { ...ALARM, id: "alarm_2" };
+    const harness = createHarness([ALARM, other]);
+
+    const results = await Promise.all([
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+      harness.pipeline.trigger({ alarmId: other.id, source: "geofence" }),
+    ]);
+
+    expect(results).toEqual([{ fired: true }, { fired: true }]);
+    expect(harness.notify).toHaveBeenCalledTimes(2);
+    expect(harness.closeTrip).toHaveBeenCalledTimes(2);
+  });
+
+  it("finishes the clean-up without ringing again after a crash", async () => {
+    // Crashed after claiming the alarm, before removing it and closing the
+    // trip
+    const harness = createHarness();
+    harness.ledger.entries.set(ALARM.id, {
+      firedAt: FIRED_AT,
+      source: "geofence",
+    });
+
+    await expect(
+      harness.pipeline.trigger({
+        alarmId: ALARM.id,
+        source: "location",
+        distanceAtTrigger: 90,
+      }),
+    ).resolves.toEqual({ fired: false, skipped: "already-fired" });
+    await harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" });
+
+    expect(harness.notify).not.toHaveBeenCalled();
+    expect(harness.startRinging).not.toHaveBeenCalled();
+    expect(harness.repository.removeAlarm).toHaveBeenCalledTimes(1);
+    expect(harness.closeTrip).toHaveBeenCalledTimes(1);
+    expect(harness.closeTrip).toHaveBeenCalledWith(ALARM.id, 90);
+    expect(harness.forgetPresence).toHaveBeenCalledTimes(1);
+    expect(harness.recordArrival).toHaveBeenCalledWith(
+      ALARM,
+      new Date(FIRED_AT),
+    );
+    expect(harness.isStored(ALARM.id)).toBe(false);
+    expect(harness.ledger.entries.get(ALARM.id)).toEqual({
+      firedAt: FIRED_AT,
+      source: "geofence",
+      completed: true,
+    });
+  });
+
+  it("closes the trip once when a crash came after removing the alarm", async () => {
+    const harness = createHarness([]);
+    harness.ledger.entries.set(ALARM.id, {
+      firedAt: FIRED_AT,
+      source: "location",
+    });
+
+    await harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" });
+    await harness.pipeline.trigger({ alarmId: ALARM.id, source: "location" });
+
+    expect(harness.notify).not.toHaveBeenCalled();
+    expect(harness.repository.removeAlarm).not.toHaveBeenCalled();
+    expect(harness.closeTrip).toHaveBeenCalledTimes(1);
+    expect(harness.ledger.entries.get(ALARM.id)?.completed).toBe(true);
+  });
+
+  it("ignores a trigger for an alarm that was removed without firing", async () => {
+    const harness = createHarness([]);
+
+    await expect(
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+    ).resolves.toEqual({ fired: false, skipped: "not-active" });
+
+    expect(harness.notify).not.toHaveBeenCalled();
+    expect(harness.closeTrip).not.toHaveBeenCalled();
+    expect(harness.ledger.entries.size).toBe(0);
+  });
+
+  it("still clears the alarm when the notification fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const harness = createHarness();
+    harness.notify.mockRejectedValueOnce(new Error("no permission"));
+
+    await expect(
+      harness.pipeline.trigger({ alarmId: ALARM.id, source: "geofence" }),
+    ).resolves.toEqual({ fired: true });
+
+    expectRangOnce(harness);
+  });
+});
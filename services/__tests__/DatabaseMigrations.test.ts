@@ -0,0 +1,228 @@
+import type { Database } from "node-sqlite3-wasm";
+import { TextDecoder as NodeTextDecoder } from "util";
+import {
+  getSchemaVersion,
+  Migration,
+  MigrationDatabase,
+  MigrationError,
+  MIGRATIONS,
+  runMigrations,
+} from "../DatabaseMigrations";
+
+// node-sqlite3-wasm decodes strings with the TextDecoder it finds on load;
+// jest-expo installs Expo's polyfill, which can't read WebAssembly memory
+globalThis.TextDecoder = NodeTextDecoder as typeof TextDecoder;
+const { Database: SqliteDatabase } =
+  require("node-sqlite3-wasm") as typeof import("node-sqlite3-wasm");
+
+// Drives an in-memory SQLite database through the same interface the app
+// gets from expo-sqlite
+function createMigrationDatabase(sqlite: Database): MigrationDatabase {
+  return {
+    execAsync: async (source) => sqlite.exec(source),
+    getFirstAsync: async <T>(source: string) =>
+      (sqlite.get(source) as T | null) ?? null,
+    getAllAsync: async <T>(source: string) => sqlite.all(source) as T[],
+    withTransactionAsync: async (task) => {
+      sqlite.exec("BEGIN");
+      try {
+        await task();
+        sqlite.exec("COMMIT");
+      } catch (error) {
+        sqlite.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+}
+
+function getTableNames(sqlite: Database): string[] {
+  return sqlite
+    .all("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")
+    .map((row) => row.name as string);
+}
+
+function getColumnNames(sqlite: Database, table: string): string[] {
+  return sqlite
+    .all(`PRAGMA table_info(${table})`)
+    .map((row) => row.name as string);
+}
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+describe("runMigrations", () => {
+  let sqlite: Database;
+  let db: MigrationDatabase;
+
+  beforeEach(() => {
+    sqlite = new SqliteDatabase();
+    db = createMigrationDatabase(sqlite);
+  });
+
+  afterEach(() => {
+    sqlite.close();
+  });
+
+  it("brings a new database up to the latest schema", async () => {
+    await expect(runMigrations(db)).resolves.toBe(LATEST_VERSION);
+    await expect(getSchemaVersion(db)).resolves.toBe(LATEST_VERSION);
+
+    expect(getTableNames(sqlite)).toEqual(
+      expect.arrayContaining([
+        "destinations",
+        "destinations_fts",
+        "destination_usage",
+        "geocode_cache",
+        "trips",
+      ]),
+    );
+    expect(getColumnNames(sqlite, "destinations")).toEqual(
+      expect.arrayContaining([
+        "area",
+        "category",
+        "tags",
+        "pinned",
+        "sortOrder",
+        "alarmSettings",
+      ]),
+    );
+  });
+
+  it("runs pending migrations in version order, once each", async () => {
+    const ran: number[] = [];
+    const migrations: Migration[] = [1, 2, 3].map((version) => ({
+      version,
+      name: `step ${version}`,
+      up: async () => {
+        ran.push(version);
+      },
+    }));
+
+    await runMigrations(db, migrations.slice(0, 2));
+    await expect(runMigrations(db, migrations)).resolves.toBe(3);
+    await runMigrations(db, migrations);
+
+    expect(ran).toEqual([1, 2, 3]);
+  });
+
+  it("rolls back a failed migration and keeps the earlier ones", async () => {
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        name: "create a",
+        up: (m) => m.execAsync("CREATE TABLE a (id INTEGER)"),
+      },
+      {
+        version: 2,
+        name: "create b, then fail",
+        up: async (m) => {
+          await m.execAsync("CREATE TABLE b (id INTEGER)");
+          await m.execAsync("INSERT INTO missing VALUES (1)");
+        },
+      },
+    ];
+
+    const failure = runMigrations(db, migrations);
+    await expect(failure).rejects.toBeInstanceOf(MigrationError);
+    await expect(failure).rejects.toMatchObject({ version: 2 });
+
+    await expect(getSchemaVersion(db)).resolves.toBe(1);
+    expect(getTableNames(sqlite)).toEqual(["a"]);
+
+    // The next run retries from the last good version
+    migrations[1] = {
+      version: 2,
+      name: "create b",
+      up: (m) => m.execAsync("CREATE TABLE b (id INTEGER)"),
+    };
+    await expect(runMigrations(db, migrations)).resolves.toBe(2);
+    expect(getTableNames(sqlite)).toEqual(["a", "b"]);
+  });
+
+  it("throws MigrationError for a misordered list without running it", async () => {
+    const up = jest.fn(async () => {});
+    const migrations: Migration[] = [
+      { version: 2, name: "second", up },
+      { version: 1, name: "first", up },
+    ];
+
+    await expect(runMigrations(db, migrations)).rejects.toBeInstanceOf(
+      MigrationError,
+    );
+    await expect(
+      runMigrations(db, [{ version: 1.5, name: "fractional", up }]),
+    ).rejects.toBeInstanceOf(MigrationError);
+    expect(up).not.toHaveBeenCalled();
+    await expect(getSchemaVersion(db)).resolves.toBe(0);
+  });
+
+  it("upgrades a version 0 database from before versioning", async () => {
+    // The schema as the app created it before migrations existed
+    sqlite.exec(`
+      CREATE TABLE destinations (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        address TEXT,
+        createdAt TEXT NOT NULL,
+        area TEXT
+      );
+      CREATE TABLE geocode_cache (
+        kind TEXT NOT NULL,
+        key TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        createdAt INTEGER NOT NULL,
+        lastAccessedAt INTEGER NOT NULL,
+        PRIMARY KEY (kind, key)
+      );
+      CREATE TABLE trips (
+        id TEXT PRIMARY KEY,
+        destinationName TEXT NOT NULL,
+        destinationAddress TEXT,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        alarmType TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        armedAt TEXT NOT NULL,
+        firedAt TEXT,
+        endedAt TEXT,
+        distanceAtTrigger REAL,
+        outcome TEXT NOT NULL
+      );
+      INSERT INTO destinations (id, name, latitude, longitude, createdAt)
+      VALUES ('dest_1', 'Central Station', 51.5, -0.1, '2026-01-01T00:00:00.000Z');
+      INSERT INTO trips VALUES ('alarm_1', 'Central Station', NULL, 51.5, -0.1,
+        'radius', '{}', '2026-01-02T08:00:00.000Z', '2026-01-02T08:30:00.000Z',
+        '2026-01-02T08:30:00.000Z', 120, 'fired');
+    `);
+
+    await expect(runMigrations(db)).resolves.toBe(LATEST_VERSION);
+
+    expect(sqlite.get("SELECT name, pinned FROM destinations")).toEqual({
+      name: "Central Station",
+      pinned: 0,
+    });
+    // Existing destinations are searchable and trips seed usage
+    expect(
+      sqlite.all(
+        "SELECT id FROM destinations_fts WHERE destinations_fts MATCH 'ntral'",
+      ),
+    ).toEqual([{ id: "dest_1" }]);
+    expect(
+      sqlite.all("SELECT kind FROM destination_usage ORDER BY occurredAt"),
+    ).toEqual([{ kind: "armed" }, { kind: "fired" }]);
+  });
+
+  it("leaves a database from a newer app version untouched", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    sqlite.exec(`PRAGMA user_version = ${LATEST_VERSION + 1}`);
+
+    await expect(runMigrations(db)).resolves.toBe(LATEST_VERSION + 1);
+
+    expect(getTableNames(sqlite)).toEqual([]);
+    await expect(getSchemaVersion(db)).resolves.toBe(LATEST_VERSION + 1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
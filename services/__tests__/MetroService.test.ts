@@ -0,0 +1,51 @@
+import { MetroServiceImpl } from "../MetroService";
+
+// Four stations about 1.1 km apart on a north-south line
+const NETWORK = {
+  network: "Test Metro",
+  version: 1,
+  stations: [
+    { id: "a", name: "Alpha", latitude: 28.6, longitude: 77.2 },
+    { id: "b", name: "Bravo", latitude: 28.61, longitude: 77.2 },
+    { id: "c", name: "Charlie", latitude: 28.62, longitude: 77.2 },
+    { id: "d", name: "Delta", latitude: 28.63, longitude: 77.2 },
+  ],
+  lines: [
+    {
+      id: "yellow",
+      name: "Yellow Line",
+      color: "#FFCC00",
+      stationIds: ["a", "b", "c", "d"],
+    },
+  ],
+};
+
+describe("MetroServiceImpl.getRouteProgress", () => {
+  const metro = new MetroServiceImpl(NETWORK);
+  const route = metro.planRoute("a", "d");
+
+  it("counts stops remaining while riding the route", () => {
+    const progress = metro.getRouteProgress(route, {
+      latitude: 28.61,
+      longitude: 77.2,
+    });
+
+    expect(progress.onRoute).toBe(true);
+    expect(progress.atStation).toBe(true);
+    expect(progress.currentIndex).toBe(1);
+    expect(progress.stopsRemaining).toBe(2);
+  });
+
+  it("counts every stop when far from the route, even nearest the destination", () => {
+    // About 5 km east of the destination, which is the nearest station
+    const progress = metro.getRouteProgress(route, {
+      latitude: 28.63,
+      longitude: 77.25,
+    });
+
+    expect(progress.nearestStation.id).toBe("d");
+    expect(progress.onRoute).toBe(false);
+    expect(progress.currentIndex).toBe(0);
+    expect(progress.stopsRemaining).toBe(3);
+  });
+});
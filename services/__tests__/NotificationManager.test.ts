@@ -0,0 +1,89 @@
+import * as Notifications from "expo-notifications";
+import { NotificationManagerImpl } from "../NotificationManager";
+
+jest.mock("expo-notifications", () => ({
+  setNotificationHandler: jest.fn(),
+  setNotificationChannelAsync: jest.fn(async () => null),
+  setNotificationCategoryAsync: jest.fn(async () => null),
+  addNotificationResponseReceivedListener: jest.fn(() => ({
+    remove: jest.fn(),
+  })),
+  getLastNotificationResponseAsync: jest.fn(async () => null),
+  clearLastNotificationResponseAsync: jest.fn(async () => {}),
+  AndroidImportance: { MAX: 5, LOW: 2, HIGH: 4, DEFAULT: 3 },
+  AndroidNotificationVisibility: { PUBLIC: 1 },
+}));
+
+const mockedNotifications = jest.mocked(Notifications);
+
+function alarmResponse(
+  actionIdentifier: string,
+): Notifications.NotificationResponse {
+  return {
+    actionIdentifier,
+    notification: {
+      request: { content: { data: { type: "alarm", alarmId: "alarm_1" } } },
+    },
+  } as unknown as Notifications.NotificationResponse;
+}
+
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+describe("NotificationManagerImpl.addAlarmActionListener", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("reads the launch response once and gives it to every listener", async () => {
+    mockedNotifications.getLastNotificationResponseAsync.mockResolvedValueOnce(
+      alarmResponse("expo.modules.notifications.actions.DEFAULT"),
+    );
+    const manager = new NotificationManagerImpl();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    manager.addAlarmActionListener(first);
+    await flush();
+    // Registered after the launch response was read, like the root layout
+    manager.addAlarmActionListener(second);
+    await flush();
+
+    expect(
+      mockedNotifications.getLastNotificationResponseAsync,
+    ).toHaveBeenCalledTimes(1);
+    expect(
+      mockedNotifications.clearLastNotificationResponseAsync,
+    ).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith("alarm_1", "open");
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledWith("alarm_1", "open");
+  });
+
+  it("delivers each press to each listener once through one subscription", async () => {
+    const manager = new NotificationManagerImpl();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    manager.addAlarmActionListener(first);
+    const subscription = manager.addAlarmActionListener(second);
+    await flush();
+
+    expect(
+      mockedNotifications.addNotificationResponseReceivedListener,
+    ).toHaveBeenCalledTimes(1);
+    const handleResponse =
+      mockedNotifications.addNotificationResponseReceivedListener.mock
+        .calls[0][0];
+
+    handleResponse(alarmResponse("snooze"));
+    subscription.remove();
+    handleResponse(alarmResponse("dismiss"));
+
+    expect(first.mock.calls).toEqual([
+      ["alarm_1", "snooze"],
+      ["alarm_1", "dismiss"],
+    ]);
+    expect(second.mock.calls).toEqual([["alarm_1", "snooze"]]);
+  });
+});
@@ -1,6 +1,7 @@
 // RTK Query API slice for future API integrations
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
-import type { Destination } from "../../types";
+import { metroService } from "../../services/MetroService";
+import type { Destination, MetroRoute, MetroStation } from "../../types";
 
 // Base API slice for future integrations
 export const apiSlice = createApi({
@@ -23,17 +24,29 @@ export const apiSlice = createApi({
       queryFn: () => ({ data: [] }), // Placeholder implementation
     }),
 
-    // Delhi Metro API integration (future - Phase 2)
-    getMetroStations: builder.query<any[], void>({
+    // Delhi Metro network, served from the bundled offline dataset
+    getMetroStations: builder.query<MetroStation[], void>({
       providesTags: ["MetroStation"],
-      // This will be implemented when Metro integration is added
-      queryFn: () => ({ data: [] }), // Placeholder implementation
+      queryFn: () => ({ data: metroService.getStations() }),
     }),
 
-    getMetroRoute: builder.query<any, { from: string; to: string }>({
+    getMetroRoute: builder.query<
+      MetroRoute | null,
+      { from: string; to: string }
+    >({
       providesTags: ["Route"],
-      // This will be implemented when Metro integration is added
-      queryFn: () => ({ data: null }), // Placeholder implementation
+      queryFn: ({ from, to }) => {
+        try {
+          return { data: metroService.planRoute(from, to) };
+        } catch (error) {
+          return {
+            error: {
+              status: "CUSTOM_ERROR",
+              error: error instanceof Error ? error.message : "Route not found",
+            },
+          };
+        }
+      },
     }),
 
     // Sync saved destinations to cloud (future)
@@ -13,6 +13,12 @@ export const useDestinationState = () =>
   useAppSelector((state) => state.destinations);
 export const useSettingsState = () => useAppSelector((state) => state.settings);
 export const useUIState = () => useAppSelector((state) => state.ui);
+export const useBatteryState = () => useAppSelector((state) => state.battery);
+export const useConnectivityState = () =>
+  useAppSelector((state) => state.connectivity);
+export const useHistoryState = () => useAppSelector((state) => state.history);
+export const useScheduleState = () =>
+  useAppSelector((state) => state.schedules);
 
 // Specific selectors for common use cases
 export const useActiveAlarms = () =>
@@ -25,6 +31,8 @@ export const useActiveAlarmCount = () =>
   useAppSelector((state) => state.alarm.activeAlarms.length);
 export const useCurrentLocation = () =>
   useAppSelector((state) => state.location.currentLocation);
+export const useCurrentSpeed = () =>
+  useAppSelector((state) => state.location.speed);
 export const useLocationPermission = () =>
   useAppSelector((state) => state.location.locationPermission);
 export const useSavedDestinations = () =>
@@ -37,6 +45,10 @@ export const useSelectedDestination = () =>
   useAppSelector((state) => state.ui.selectedDestination);
 export const useMapRegion = () => useAppSelector((state) => state.ui.mapRegion);
 export const useUserSettings = () => useAppSelector((state) => state.settings);
+export const useIsOnline = () =>
+  useAppSelector((state) => state.connectivity.isOnline);
+export const useBatteryRecommendations = () =>
+  useAppSelector((state) => state.battery.recommendations);
 
 // Loading state selectors
 export const useIsAlarmLoading = () =>
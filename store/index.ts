@@ -3,8 +3,12 @@ import { configureStore } from "@reduxjs/toolkit";
 import { setupListeners } from "@reduxjs/toolkit/query";
 import { apiSlice } from "./api/apiSlice";
 import alarmSlice from "./slices/alarmSlice";
+import batterySlice from "./slices/batterySlice";
+import connectivitySlice from "./slices/connectivitySlice";
 import destinationSlice from "./slices/destinationSlice";
+import historySlice from "./slices/historySlice";
 import locationSlice from "./slices/locationSlice";
+import scheduleSlice from "./slices/scheduleSlice";
 import settingsSlice from "./slices/settingsSlice";
 import uiSlice from "./slices/uiSlice";
 
@@ -15,6 +19,10 @@ export const store = configureStore({
     destinations: destinationSlice,
     settings: settingsSlice,
     ui: uiSlice,
+    battery: batterySlice,
+    connectivity: connectivitySlice,
+    history: historySlice,
+    schedules: scheduleSlice,
     api: apiSlice.reducer,
   },
   middleware: (getDefaultMiddleware) =>
@@ -1,7 +1,22 @@
 // Alarm state slice for Redux store
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
-import { alarmManager, CreateAlarmResult } from "../../services/AlarmManager";
-import { Alarm, AlarmSettings, AlarmState, Destination } from "../../types";
+import { AppState as RNAppState } from "react-native";
+import {
+  alarmManager,
+  AlarmUpdate,
+  CreateAlarmResult,
+} from "../../services/AlarmManager";
+import { alarmRepository } from "../../services/AlarmRepository";
+import {
+  Alarm,
+  AlarmSettings,
+  AlarmState,
+  AlarmType,
+  Destination,
+  TransitAlarmConfig,
+} from "../../types";
+import type { RootState } from "../index";
+import { loadSuggestedDestinations } from "./destinationSlice";
 
 const toIsoString = (value: string | Date) =>
   typeof value === "string" ? value : new Date(value).toISOString();
@@ -32,11 +47,29 @@ const initialState: AlarmState = {
 // Async thunks for alarm lifecycle management
 export const createAlarm = createAsyncThunk<
   CreateAlarmResult,
-  { destination: Destination; settings: AlarmSettings }
->("alarm/create", async ({ destination, settings }) => {
-  const result = await alarmManager.createAlarm(destination, settings);
-  return result;
-});
+  {
+    destination: Destination;
+    settings: AlarmSettings;
+    transit?: TransitAlarmConfig;
+    type?: Exclude<AlarmType, "transit">;
+  },
+  { state: RootState }
+>(
+  "alarm/create",
+  async ({ destination, settings, transit, type }, { dispatch }) => {
+    const result = await alarmManager.createAlarm(
+      destination,
+      settings,
+      transit,
+      type,
+    );
+    // The alarm manager records the usage; refresh what it suggests
+    if (!result.isExisting) {
+      dispatch(loadSuggestedDestinations());
+    }
+    return result;
+  },
+);
 
 export const cancelAlarm = createAsyncThunk(
   "alarm/cancel",
@@ -69,6 +102,14 @@ export const updateAlarmSettings = createAsyncThunk(
   },
 );
 
+export const updateAlarm = createAsyncThunk(
+  "alarm/update",
+  async ({ alarmId, update }: { alarmId: string; update: AlarmUpdate }) => {
+    await alarmManager.updateAlarm(alarmId, update);
+    return await alarmManager.getActiveAlarms();
+  },
+);
+
 // Async thunk to initialize alarm state from persisted storage
 export const initializeAlarmFromStorage = createAsyncThunk(
   "alarm/initializeFromStorage",
@@ -83,6 +124,39 @@ export const cancelAllAlarms = createAsyncThunk("alarm/cancelAll", async () => {
   await alarmManager.cancelAllAlarms();
 });
 
+// Repository and app-state subscriptions kept while alarm sync is running
+let alarmSyncSubscriptions: { remove: () => void }[] = [];
+
+// Async thunks to mirror the alarm repository into the store, so alarms
+// fired or expired by the background task never linger in the Alarm tab
+export const startAlarmSync = createAsyncThunk(
+  "alarm/startSync",
+  async (_, { dispatch }) => {
+    alarmSyncSubscriptions.forEach((subscription) => subscription.remove());
+
+    const unsubscribe = alarmRepository.subscribe((event) => {
+      dispatch(setActiveAlarms(event.alarms));
+    });
+    // A headless background task may have written while we were away
+    const appStateSubscription = RNAppState.addEventListener(
+      "change",
+      (nextState) => {
+        if (nextState === "active") {
+          alarmRepository.refresh();
+        }
+      },
+    );
+    alarmSyncSubscriptions = [{ remove: unsubscribe }, appStateSubscription];
+
+    await alarmRepository.refresh();
+  },
+);
+
+export const stopAlarmSync = createAsyncThunk("alarm/stopSync", async () => {
+  alarmSyncSubscriptions.forEach((subscription) => subscription.remove());
+  alarmSyncSubscriptions = [];
+});
+
 const alarmSlice = createSlice({
   name: "alarm",
   initialState,
@@ -130,7 +204,12 @@ const alarmSlice = createSlice({
         const { alarm, isExisting } = action.payload;
         const sanitized = sanitizeAlarm(alarm);
         // Only add to state if it's a new alarm (not an existing duplicate)
-        if (sanitized && !isExisting) {
+        // that the repository sync hasn't added already
+        if (
+          sanitized &&
+          !isExisting &&
+          !state.activeAlarms.some((a) => a.id === sanitized.id)
+        ) {
           state.activeAlarms.push(sanitized);
         }
         state.error = null;
@@ -196,6 +275,20 @@ const alarmSlice = createSlice({
         state.isLoading = false;
         state.error = action.error.message || "Failed to update alarm settings";
       })
+      // Edit alarm
+      .addCase(updateAlarm.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(updateAlarm.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.activeAlarms = sanitizeAlarms(action.payload);
+        state.error = null;
+      })
+      .addCase(updateAlarm.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || "Failed to update alarm";
+      })
       // Initialize alarm from storage
       .addCase(initializeAlarmFromStorage.pending, (state) => {
         state.isLoading = true;
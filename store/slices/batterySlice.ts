@@ -0,0 +1,129 @@
+// Battery state slice for Redux store
+import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { batteryService, BatterySnapshot } from "../../services/BatteryService";
+import { Alarm, BatteryState, Coordinate } from "../../types";
+import { calculateDistance } from "../../utils";
+
+const initialState: BatteryState = {
+  level: null,
+  state: "unknown",
+  isLowPowerMode: false,
+  isOptimizing: false,
+  optimizationLevel: "none",
+  lastUpdated: null,
+  isMonitoring: false,
+  error: null,
+  recommendations: [],
+};
+
+interface BatteryDependencies {
+  battery: BatteryState;
+  alarm: { activeAlarms: Alarm[] };
+  location: { currentLocation: Coordinate | null };
+  settings: { batteryOptimizationEnabled: boolean };
+}
+
+// Async thunks for battery monitoring
+export const refreshBatteryRecommendations = createAsyncThunk(
+  "battery/refreshRecommendations",
+  async (_, { getState }) => {
+    const state = getState() as BatteryDependencies;
+    const snapshot: BatterySnapshot = {
+      level: state.battery.level,
+      state: state.battery.state,
+      isLowPowerMode: state.battery.isLowPowerMode,
+    };
+    const { currentLocation } = state.location;
+    const { batteryOptimizationEnabled } = state.settings;
+
+    // The furthest active alarm decides how long we need to keep tracking
+    let tripDistance: number | null = null;
+    if (currentLocation) {
+      for (const alarm of state.alarm.activeAlarms) {
+        const distance = calculateDistance(
+          currentLocation,
+          alarm.destination.coordinate,
+        );
+        tripDistance = Math.max(tripDistance ?? 0, distance);
+      }
+    }
+
+    return {
+      optimizationLevel: batteryService.getOptimizationLevel(
+        snapshot,
+        batteryOptimizationEnabled,
+      ),
+      recommendations: batteryService.getRecommendations({
+        snapshot,
+        tripDistance,
+        batteryOptimizationEnabled,
+      }),
+    };
+  },
+);
+
+export const startBatteryMonitoring = createAsyncThunk(
+  "battery/startMonitoring",
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      await batteryService.startMonitoring((snapshot) => {
+        dispatch(batteryStatusUpdated(snapshot));
+        dispatch(refreshBatteryRecommendations());
+      });
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to start battery monitoring",
+      );
+    }
+  },
+);
+
+export const stopBatteryMonitoring = createAsyncThunk(
+  "battery/stopMonitoring",
+  async () => {
+    batteryService.stopMonitoring();
+  },
+);
+
+const batterySlice = createSlice({
+  name: "battery",
+  initialState,
+  reducers: {
+    batteryStatusUpdated: (state, action: PayloadAction<BatterySnapshot>) => {
+      state.level = action.payload.level;
+      state.state = action.payload.state;
+      state.isLowPowerMode = action.payload.isLowPowerMode;
+      state.lastUpdated = new Date().toISOString();
+      state.error = null;
+    },
+    clearBatteryError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Start monitoring
+      .addCase(startBatteryMonitoring.fulfilled, (state) => {
+        state.isMonitoring = true;
+      })
+      .addCase(startBatteryMonitoring.rejected, (state, action) => {
+        state.isMonitoring = false;
+        state.error = action.payload as string;
+      })
+      // Stop monitoring
+      .addCase(stopBatteryMonitoring.fulfilled, (state) => {
+        state.isMonitoring = false;
+      })
+      // Recommendations
+      .addCase(refreshBatteryRecommendations.fulfilled, (state, action) => {
+        state.optimizationLevel = action.payload.optimizationLevel;
+        state.isOptimizing = action.payload.optimizationLevel !== "none";
+        state.recommendations = action.payload.recommendations;
+      });
+  },
+});
+
+export const { batteryStatusUpdated, clearBatteryError } = batterySlice.actions;
+export default batterySlice.reducer;
@@ -0,0 +1,93 @@
+// Connectivity state slice for Redux store
+import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import {
+  connectivityService,
+  ConnectivitySnapshot,
+} from "../../services/ConnectivityService";
+import { ConnectivityState } from "../../types";
+
+const initialState: ConnectivityState = {
+  isOnline: true,
+  connectionType: "unknown",
+  lastChecked: null,
+  isMonitoring: false,
+  canUseGeofencing: true,
+  locationServicesAvailable: true,
+  error: null,
+};
+
+// Async thunks for connectivity monitoring
+export const checkLocationServices = createAsyncThunk(
+  "connectivity/checkLocationServices",
+  async () => {
+    return await connectivityService.areLocationServicesEnabled();
+  },
+);
+
+export const startConnectivityMonitoring = createAsyncThunk(
+  "connectivity/startMonitoring",
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      await connectivityService.startMonitoring((snapshot) => {
+        dispatch(connectivityUpdated(snapshot));
+      });
+      await dispatch(checkLocationServices());
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to start connectivity monitoring",
+      );
+    }
+  },
+);
+
+export const stopConnectivityMonitoring = createAsyncThunk(
+  "connectivity/stopMonitoring",
+  async () => {
+    connectivityService.stopMonitoring();
+  },
+);
+
+const connectivitySlice = createSlice({
+  name: "connectivity",
+  initialState,
+  reducers: {
+    connectivityUpdated: (
+      state,
+      action: PayloadAction<ConnectivitySnapshot>,
+    ) => {
+      state.isOnline = action.payload.isOnline;
+      state.connectionType = action.payload.connectionType;
+      state.lastChecked = new Date().toISOString();
+      state.error = null;
+    },
+    clearConnectivityError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Start monitoring
+      .addCase(startConnectivityMonitoring.fulfilled, (state) => {
+        state.isMonitoring = true;
+      })
+      .addCase(startConnectivityMonitoring.rejected, (state, action) => {
+        state.isMonitoring = false;
+        state.error = action.payload as string;
+      })
+      // Stop monitoring
+      .addCase(stopConnectivityMonitoring.fulfilled, (state) => {
+        state.isMonitoring = false;
+      })
+      // Location services
+      .addCase(checkLocationServices.fulfilled, (state, action) => {
+        state.locationServicesAvailable = action.payload;
+        state.canUseGeofencing = action.payload;
+      });
+  },
+});
+
+export const { connectivityUpdated, clearConnectivityError } =
+  connectivitySlice.actions;
+export default connectivitySlice.reducer;
@@ -1,14 +1,22 @@
 // Destination state slice for Redux store
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { databaseManager } from "../../services/DatabaseManager";
+import {
+  rankSuggestedDestinations,
+  USAGE_RETENTION_DAYS,
+} from "../../services/DestinationSuggestionPolicy";
 import { searchHistoryService } from "../../services/SearchHistoryService";
 import { storageManager } from "../../services/StorageManager";
 import {
   AddressSearchResult,
   Destination,
+  DestinationFileFormat,
   DestinationState,
+  DestinationUsageKind,
   SearchHistoryItem,
 } from "../../types";
 import { generateId } from "../../utils";
+import type { RootState } from "../index";
 
 const initialState: DestinationState = {
   saved: [],
@@ -69,17 +77,77 @@ export const updateDestination = createAsyncThunk(
   },
 );
 
-export const searchDestinations = createAsyncThunk(
-  "destinations/search",
-  async (query: string) => {
-    const destinations = await storageManager.getSavedDestinations();
-    const lowercaseQuery = query.toLowerCase();
+export const reorderDestinations = createAsyncThunk(
+  "destinations/reorder",
+  async (orderedIds: string[]) => {
+    await databaseManager.reorderDestinations(orderedIds);
+    return orderedIds;
+  },
+);
 
-    return destinations.filter(
-      (dest) =>
-        dest.name.toLowerCase().includes(lowercaseQuery) ||
-        (dest.address && dest.address.toLowerCase().includes(lowercaseQuery)),
-    );
+// Results go back to the caller; the slice-wide loading flag is left alone so
+// the list doesn't flicker while the user types
+export const searchDestinations = createAsyncThunk<
+  Destination[],
+  string,
+  { state: RootState }
+>("destinations/search", async (query, { getState }) => {
+  // Rank places near the user higher
+  return await databaseManager.searchDestinations(
+    query,
+    getState().location.currentLocation,
+  );
+});
+
+export const importDestinations = createAsyncThunk(
+  "destinations/import",
+  async ({
+    content,
+    format,
+  }: {
+    content: string;
+    format: DestinationFileFormat;
+  }) => {
+    return await databaseManager.importDestinations(content, format);
+  },
+);
+
+// Usage tracking thunks
+export const loadSuggestedDestinations = createAsyncThunk<
+  Destination[],
+  void,
+  { state: RootState }
+>("destinations/loadSuggested", async (_, { getState }) => {
+  const state = getState();
+  const now = new Date();
+  const cutoff = new Date(
+    now.getTime() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  await databaseManager.pruneDestinationUsage(cutoff);
+  const events = await databaseManager.getDestinationUsage(cutoff);
+  return rankSuggestedDestinations(events, state.destinations.saved, {
+    now,
+    origin: state.location.currentLocation,
+  });
+});
+
+export const recordDestinationUsage = createAsyncThunk<
+  void,
+  { destination: Destination; kind: DestinationUsageKind },
+  { state: RootState }
+>(
+  "destinations/recordUsage",
+  async ({ destination, kind }, { dispatch, getState }) => {
+    await databaseManager.recordDestinationUsage({
+      destinationName: destination.name,
+      destinationAddress: destination.address,
+      coordinate: destination.coordinate,
+      origin: getState().location.currentLocation,
+      kind,
+      occurredAt: new Date().toISOString(),
+    });
+    await dispatch(loadSuggestedDestinations());
   },
 );
 
@@ -249,19 +317,36 @@ const destinationSlice = createSlice({
         state.isLoading = false;
         state.error = action.error.message || "Failed to update destination";
       })
-      // Search destinations
-      .addCase(searchDestinations.pending, (state) => {
+      // Reorder destinations
+      .addCase(reorderDestinations.fulfilled, (state, action) => {
+        action.payload.forEach((id, index) => {
+          const destination = state.saved.find((dest) => dest.id === id);
+          if (destination) {
+            destination.sortOrder = index;
+          }
+        });
+      })
+      .addCase(reorderDestinations.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to reorder destinations";
+      })
+      // Import destinations
+      .addCase(importDestinations.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
-      .addCase(searchDestinations.fulfilled, (state, action) => {
+      .addCase(importDestinations.fulfilled, (state, action) => {
         state.isLoading = false;
-        // Store search results in a separate field or handle in UI
+        state.saved.push(...action.payload.imported);
         state.error = null;
       })
-      .addCase(searchDestinations.rejected, (state, action) => {
+      .addCase(importDestinations.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.error.message || "Failed to search destinations";
+        state.error = action.error.message || "Failed to import destinations";
+      })
+      // Load suggested destinations. A failure keeps the last suggestions
+      // rather than surfacing an error for a convenience feature.
+      .addCase(loadSuggestedDestinations.fulfilled, (state, action) => {
+        state.recent = action.payload;
       })
       // Load search history
       .addCase(loadSearchHistory.pending, (state) => {
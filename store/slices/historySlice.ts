@@ -0,0 +1,76 @@
+// Trip history state slice for Redux store
+import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { databaseManager } from "../../services/DatabaseManager";
+import { HistoryState, TripOutcome } from "../../types";
+
+const initialState: HistoryState = {
+  trips: [],
+  outcomeFilter: "all",
+  isLoading: false,
+  error: null,
+};
+
+// Async thunks for trip history
+export const loadTripHistory = createAsyncThunk(
+  "history/loadTrips",
+  async (_, { rejectWithValue }) => {
+    try {
+      // Load everything and filter in memory so stats always cover all trips
+      return await databaseManager.getTrips();
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to load trip history",
+      );
+    }
+  },
+);
+
+export const clearTripHistory = createAsyncThunk(
+  "history/clearTrips",
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      await databaseManager.clearTrips();
+      await dispatch(loadTripHistory());
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to clear trip history",
+      );
+    }
+  },
+);
+
+const historySlice = createSlice({
+  name: "history",
+  initialState,
+  reducers: {
+    setOutcomeFilter: (state, action: PayloadAction<TripOutcome | "all">) => {
+      state.outcomeFilter = action.payload;
+    },
+    clearHistoryError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Load trips
+      .addCase(loadTripHistory.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadTripHistory.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.trips = action.payload;
+      })
+      .addCase(loadTripHistory.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // Clear trips
+      .addCase(clearTripHistory.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { setOutcomeFilter, clearHistoryError } = historySlice.actions;
+export default historySlice.reducer;
@@ -11,6 +11,7 @@ const initialState: LocationState = {
   isTracking: false,
   lastUpdated: null,
   accuracy: null,
+  speed: null,
   error: null,
 };
 
@@ -40,6 +41,9 @@ const locationSlice = createSlice({
       state.currentLocation = action.payload;
       state.lastUpdated = new Date().toISOString();
     },
+    setCurrentSpeed: (state, action: PayloadAction<number | null>) => {
+      state.speed = action.payload;
+    },
     setLocationPermission: (
       state,
       action: PayloadAction<"granted" | "denied" | "undetermined">,
@@ -91,6 +95,7 @@ const locationSlice = createSlice({
 
 export const {
   setCurrentLocation,
+  setCurrentSpeed,
   setLocationPermission,
   setTracking,
   updateLocationWithAccuracy,
@@ -0,0 +1,121 @@
+// Alarm schedule state slice for Redux store
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+import { alarmScheduler } from "../../services/AlarmScheduler";
+import { AlarmSchedule, ScheduleState } from "../../types";
+
+const initialState: ScheduleState = {
+  schedules: [],
+  isLoading: false,
+  error: null,
+};
+
+// Async thunks for alarm schedules
+export const loadSchedules = createAsyncThunk(
+  "schedules/load",
+  async (_, { rejectWithValue }) => {
+    try {
+      return await alarmScheduler.getSchedules();
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to load schedules",
+      );
+    }
+  },
+);
+
+export const saveSchedule = createAsyncThunk(
+  "schedules/save",
+  async (schedule: AlarmSchedule, { dispatch, rejectWithValue }) => {
+    try {
+      await alarmScheduler.saveSchedule(schedule);
+      // A schedule whose window is already open arms right away
+      await dispatch(evaluateSchedules());
+      return await alarmScheduler.getSchedules();
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save schedule",
+      );
+    }
+  },
+);
+
+export const deleteSchedule = createAsyncThunk(
+  "schedules/delete",
+  async (scheduleId: string, { rejectWithValue }) => {
+    try {
+      await alarmScheduler.deleteSchedule(scheduleId);
+      return scheduleId;
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to delete schedule",
+      );
+    }
+  },
+);
+
+export const evaluateSchedules = createAsyncThunk(
+  "schedules/evaluate",
+  async (_, { rejectWithValue }) => {
+    try {
+      // Armed and disarmed alarms reach the alarm slice via the repository
+      await alarmScheduler.evaluateSchedules();
+      return await alarmScheduler.getSchedules();
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to evaluate schedules",
+      );
+    }
+  },
+);
+
+const scheduleSlice = createSlice({
+  name: "schedules",
+  initialState,
+  reducers: {
+    clearScheduleError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Load schedules
+      .addCase(loadSchedules.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadSchedules.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.schedules = action.payload;
+      })
+      .addCase(loadSchedules.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // Save schedule
+      .addCase(saveSchedule.fulfilled, (state, action) => {
+        state.schedules = action.payload;
+      })
+      .addCase(saveSchedule.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Delete schedule
+      .addCase(deleteSchedule.fulfilled, (state, action) => {
+        state.schedules = state.schedules.filter(
+          (s) => s.id !== action.payload,
+        );
+      })
+      .addCase(deleteSchedule.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Evaluate schedules
+      .addCase(evaluateSchedules.fulfilled, (state, action) => {
+        state.schedules = action.payload;
+      })
+      .addCase(evaluateSchedules.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearScheduleError } = scheduleSlice.actions;
+export default scheduleSlice.reducer;
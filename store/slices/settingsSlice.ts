@@ -1,10 +1,12 @@
 // Settings state slice for Redux store
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { nominatimService } from "../../services/NominatimService";
 import { storageManager } from "../../services/StorageManager";
 import { UserSettings } from "../../types";
 import {
   validateUserSettings,
   createDefaultUserSettings,
+  extractUserSettings,
   getNearestValidTriggerRadius,
 } from "../../utils";
 
@@ -23,6 +25,7 @@ export const loadSettings = createAsyncThunk(
   async (_, { rejectWithValue }) => {
     try {
       const settings = await storageManager.getSettings();
+      nominatimService.setProviderConfig(settings);
       return settings;
     } catch (error) {
       return rejectWithValue(
@@ -40,13 +43,7 @@ export const saveSettings = createAsyncThunk(
       const state = getState() as {
         settings: UserSettings & { isLoading: boolean; error: string | null };
       };
-      const currentSettings: UserSettings = {
-        defaultTriggerRadius: state.settings.defaultTriggerRadius,
-        vibrationEnabled: state.settings.vibrationEnabled,
-        persistentNotificationEnabled:
-          state.settings.persistentNotificationEnabled,
-        batteryOptimizationEnabled: state.settings.batteryOptimizationEnabled,
-      };
+      const currentSettings = extractUserSettings(state.settings);
       const updatedSettings = { ...currentSettings, ...settings };
 
       // Validate settings before saving
@@ -58,6 +55,7 @@ export const saveSettings = createAsyncThunk(
       }
 
       await storageManager.saveSettings(updatedSettings);
+      nominatimService.setProviderConfig(updatedSettings);
       return updatedSettings;
     } catch (error) {
       return rejectWithValue(
@@ -94,7 +92,7 @@ const settingsSlice = createSlice({
       .addCase(loadSettings.fulfilled, (state, action) => {
         state.isLoading = false;
         Object.assign(state, action.payload);
-        // Snap radius to nearest valid option in case a stale/invalid value was persisted
+        // Clamp radius into the allowed range in case a stale/invalid value was persisted
         state.defaultTriggerRadius = getNearestValidTriggerRadius(
           state.defaultTriggerRadius,
         );
@@ -19,39 +19,230 @@ export const VALIDATION_CONSTANTS = {
   MAX_LONGITUDE: 180,
   MIN_TRIGGER_RADIUS: 200, // meters
   MAX_TRIGGER_RADIUS: 2000, // meters
-  VALID_TRIGGER_RADII: [250, 500, 1000] as const, // predefined options
+  TRIGGER_RADIUS_STEP: 50, // meters, slider granularity
   MAX_DESTINATION_NAME_LENGTH: 100,
   MAX_ADDRESS_LENGTH: 200,
+  MIN_STOPS_BEFORE: 1,
+  MAX_STOPS_BEFORE: 5,
+  MIN_ETA_MINUTES: 1,
+  MAX_ETA_MINUTES: 30,
+  VALID_ETA_MINUTES: [2, 5, 10] as const, // predefined options
+  MIN_REPEAT_COUNT: 0,
+  MAX_REPEAT_COUNT: 10,
+  VALID_REPEAT_COUNTS: [0, 3, 5] as const, // predefined options
+  MIN_REPEAT_INTERVAL_SECONDS: 30,
+  MAX_REPEAT_INTERVAL_SECONDS: 600,
+  VALID_REPEAT_INTERVALS_SECONDS: [30, 60, 120] as const, // predefined options
+  MAX_SCHEDULES: 10,
+  MIN_POLYGON_POINTS: 3,
+  MIN_CORRIDOR_POINTS: 2,
+  MAX_AREA_POINTS: 50,
+  MIN_CORRIDOR_WIDTH: 50, // meters
+  MAX_CORRIDOR_WIDTH: 1000, // meters
+  DEFAULT_CORRIDOR_WIDTH: 200, // meters
+  IMPORT_DUPLICATE_DISTANCE: 50, // meters; closer imports count as duplicates
+  SAVED_DESTINATION_MATCH_DISTANCE: 50, // meters; alarms this close use a saved destination's settings
+  MAX_CATEGORY_LENGTH: 30,
+  MAX_TAG_LENGTH: 30,
+  MAX_TAGS: 10,
 } as const;
 
+// Area destinations fire on entering a polygon, or on reaching a stretch of
+// road or track (a polyline widened to a corridor), instead of a circle
+export type DestinationArea =
+  | { kind: "polygon"; points: Coordinate[] }
+  | { kind: "corridor"; points: Coordinate[]; width: number }; // width in meters
+
+// Built-in destination categories; any other non-empty name is a custom one
+export const PRESET_DESTINATION_CATEGORIES = ["Home", "Work", "Station"];
+
 export interface Destination {
   id: string;
   name: string;
-  coordinate: Coordinate;
+  coordinate: Coordinate; // centre of the area for area destinations
   address?: string;
+  area?: DestinationArea;
+  category?: string; // a preset or custom category
+  tags?: string[];
+  pinned?: boolean; // favourites are listed first
+  sortOrder?: number; // position set by reordering; unset sorts after, newest first
+  alarmSettings?: Partial<AlarmSettings>; // overrides the user's defaults for alarms armed here
   createdAt: string;
 }
 
+// File formats saved destinations can be shared in
+export type DestinationFileFormat = "gpx" | "kml" | "geojson";
+
+export interface DestinationImportResult {
+  imported: Destination[];
+  duplicates: number; // skipped as too close to a saved or earlier destination
+  invalid: number; // skipped as unreadable or failing validation
+}
+
+// "radius" fires inside triggerRadius, "eta" fires etaMinutes before the
+// estimated arrival (triggerRadius still applies as a backstop)
+export type AlarmTriggerMode = "radius" | "eta";
+
+// How quickly the full-screen alarm gets louder and vibrates harder
+export type AlarmEscalationProfile = "gentle" | "standard" | "urgent";
+
 export interface AlarmSettings {
   triggerRadius: number; // meters (100, 200, 500)
   vibrationEnabled: boolean;
   persistentNotification: boolean;
+  triggerMode?: AlarmTriggerMode; // missing on alarms created before ETA support
+  etaMinutes?: number; // only used in "eta" mode
+  repeatCount?: number; // re-notifications after firing until acknowledged
+  repeatIntervalSeconds?: number; // gap between re-notifications
+  escalationProfile?: AlarmEscalationProfile; // missing on alarms created before escalation
+}
+
+// "radius" alarms fire inside triggerRadius of the destination,
+// "transit" alarms fire a number of stops before the destination station,
+// "departure" alarms fire on leaving triggerRadius (or the area) after
+// having been inside it
+export type AlarmType = "radius" | "transit" | "departure";
+
+export interface TransitAlarmConfig {
+  route: MetroRoute;
+  stopsBefore: number; // wake this many stops before the destination
 }
 
 export interface Alarm {
   id: string;
   destination: Destination;
   settings: AlarmSettings;
+  type?: AlarmType; // missing on alarms persisted before transit support
+  transit?: TransitAlarmConfig;
   geofenceId?: string;
   isActive: boolean;
   createdAt: string;
 }
 
+// Recurring alarm that arms itself for a saved destination on given days.
+// Times are local "HH:MM"; an endTime earlier than startTime spans midnight.
+export interface AlarmSchedule {
+  id: string;
+  destination: Destination;
+  daysOfWeek: number[]; // 0 = Sunday … 6 = Saturday
+  startTime: string;
+  endTime?: string; // optional window end; the alarm is cancelled after it
+  settings: AlarmSettings;
+  enabled: boolean;
+  armedAlarmId?: string; // alarm armed for the current window, if any
+  lastArmedWindow?: string; // ISO start of the last window that was armed
+  createdAt: string;
+}
+
+export interface ScheduleWindow {
+  start: Date;
+  end: Date | null; // null when the schedule has no endTime
+}
+
+// Trip log: one row per armed alarm, closed when it fires, is cancelled or
+// expires at the end of its schedule window
+export type TripOutcome = "active" | "fired" | "cancelled" | "expired";
+
+export interface Trip {
+  id: string; // id of the alarm the trip was armed with
+  destinationName: string;
+  destinationAddress?: string;
+  coordinate: Coordinate;
+  alarmType: AlarmType;
+  settings: AlarmSettings;
+  armedAt: string;
+  firedAt: string | null;
+  endedAt: string | null; // when the trip stopped being active, for any outcome
+  distanceAtTrigger: number | null; // meters, null if unknown
+  outcome: TripOutcome;
+}
+
+export interface TripDestinationStats {
+  key: string; // groups trips to (roughly) the same place
+  destinationName: string;
+  tripCount: number;
+  firedCount: number;
+  cancelledCount: number;
+  expiredCount: number;
+  averageDurationMs: number | null; // over fired trips only
+  lastTripAt: string;
+}
+
+// A place being armed, picked from search or arrived at; drives the
+// frecency-ranked suggestions on the map screen
+export type DestinationUsageKind = "armed" | "searched" | "fired";
+
+export interface DestinationUsageEvent {
+  destinationName: string;
+  destinationAddress?: string;
+  coordinate: Coordinate;
+  origin: Coordinate | null; // where the user was at the time, if known
+  kind: DestinationUsageKind;
+  occurredAt: string;
+}
+
+// Metro network types for offline transit routing
+export interface MetroStation {
+  id: string;
+  name: string;
+  coordinate: Coordinate;
+  lineIds: string[]; // more than one line means the station is an interchange
+}
+
+export interface MetroLine {
+  id: string;
+  name: string;
+  color: string;
+  stationIds: string[]; // ordered from one terminus to the other
+}
+
+export interface MetroRouteSegment {
+  lineId: string;
+  stationIds: string[];
+}
+
+export interface MetroTransfer {
+  station: MetroStation;
+  fromLineId: string;
+  toLineId: string;
+}
+
+export interface MetroRoute {
+  id: string;
+  origin: MetroStation;
+  destination: MetroStation;
+  stations: MetroStation[]; // full ordered path, origin and destination included
+  segments: MetroRouteSegment[];
+  transfers: MetroTransfer[];
+  stopCount: number;
+}
+
+export interface MetroRouteProgress {
+  currentIndex: number; // index in route.stations of the last station reached
+  stopsRemaining: number;
+  nearestStation: MetroStation;
+  distanceToNearest: number; // meters
+  atStation: boolean;
+  onRoute: boolean; // false when too far from the route to count stops
+}
+
+// Geocoding backends for address search
+export type GeocoderProviderId = "nominatim" | "photon" | "self-hosted";
+export type GeocoderApi = "nominatim" | "photon"; // API spoken by a self-hosted server
+
 export interface UserSettings {
   defaultTriggerRadius: number;
   vibrationEnabled: boolean;
   persistentNotificationEnabled: boolean;
   batteryOptimizationEnabled: boolean;
+  defaultTriggerMode: AlarmTriggerMode;
+  defaultEtaMinutes: number;
+  alarmRepeatCount: number;
+  alarmRepeatIntervalSeconds: number;
+  defaultEscalationProfile: AlarmEscalationProfile;
+  geocoderProvider: GeocoderProviderId;
+  selfHostedGeocoderUrl: string;
+  selfHostedGeocoderApi: GeocoderApi;
 }
 
 // Redux state types
@@ -63,6 +254,21 @@ export interface AppState {
   ui: UIState;
   connectivity: ConnectivityState;
   battery: BatteryState;
+  history: HistoryState;
+  schedules: ScheduleState;
+}
+
+export interface HistoryState {
+  trips: Trip[];
+  outcomeFilter: TripOutcome | "all";
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface ScheduleState {
+  schedules: AlarmSchedule[];
+  isLoading: boolean;
+  error: string | null;
 }
 
 export interface BatteryState {
@@ -109,12 +315,13 @@ export interface LocationState {
   isTracking: boolean;
   lastUpdated: string | null;
   accuracy: number | null;
+  speed: number | null; // m/s, smoothed over recent fixes
   error: string | null;
 }
 
 export interface DestinationState {
   saved: Destination[];
-  recent: Destination[];
+  recent: Destination[]; // suggested places, best first
   searchHistory: SearchHistoryItem[];
   isLoading: boolean;
   error: string | null;
@@ -0,0 +1,13 @@
+// Minimal types for node-sqlite3-wasm, an SQLite build for Node used as an
+// in-memory stand-in for expo-sqlite in tests
+declare module "node-sqlite3-wasm" {
+  type Row = Record<string, unknown>;
+
+  export class Database {
+    constructor(filename?: string);
+    exec(sql: string): void;
+    all(sql: string, values?: unknown[]): Row[];
+    get(sql: string, values?: unknown[]): Row | null;
+    close(): void;
+  }
+}
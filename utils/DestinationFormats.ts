@@ -0,0 +1,370 @@
+// Reading and writing saved destinations as GPX, KML and GeoJSON files
+import {
+  Coordinate,
+  Destination,
+  DestinationArea,
+  DestinationFileFormat,
+  VALIDATION_CONSTANTS,
+} from "../types";
+import { getAreaCenter } from "./index";
+
+// A destination read from a file, before it is validated and given an id
+export type ParsedDestination = Omit<Destination, "id" | "createdAt"> & {
+  createdAt?: string;
+};
+
+export const DESTINATION_FILE_FORMATS: Record<
+  DestinationFileFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  gpx: {
+    label: "GPX",
+    extension: "gpx",
+    mimeType: "application/gpx+xml",
+  },
+  kml: {
+    label: "KML",
+    extension: "kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+  },
+  geojson: {
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+  },
+};
+
+const FALLBACK_NAME = "Imported Location";
+
+// ─── XML helpers ─────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+// Text of the first <tag> inside an XML fragment, ignoring namespace prefixes
+function getTagText(xml: string, tag: string): string | undefined {
+  const match = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`,
+    "i",
+  ).exec(xml);
+  const text = match ? unescapeXml(match[1]) : "";
+  return text || undefined;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(
+    attributes,
+  );
+  return match?.[1];
+}
+
+function getBlocks(
+  xml: string,
+  tag: string,
+): { attributes: string; body: string }[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`,
+    "gi",
+  );
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: match[1] ?? "",
+    body: match[2] ?? "",
+  }));
+}
+
+// ─── Format detection ────────────────────────────────────────────────────────
+
+/**
+ * Work out a file's format from its name, falling back to its contents
+ * @param content File contents
+ * @param fileName Optional file name
+ * @returns The format, or null if it isn't one we read
+ */
+export function detectDestinationFormat(
+  content: string,
+  fileName?: string,
+): DestinationFileFormat | null {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "gpx" || extension === "kml") return extension;
+  if (extension === "geojson" || extension === "json") return "geojson";
+
+  const start = content.trimStart();
+  if (start.startsWith("{")) return "geojson";
+  if (/<gpx\b/i.test(start)) return "gpx";
+  if (/<kml\b/i.test(start)) return "kml";
+  return null;
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+function toGpx(destinations: Destination[]): string {
+  const waypoints = destinations.map((destination) =>
+    [
+      `  <wpt lat="${destination.coordinate.latitude}" lon="${destination.coordinate.longitude}">`,
+      `    <time>${escapeXml(destination.createdAt)}</time>`,
+      `    <name>${escapeXml(destination.name)}</name>`,
+      destination.address
+        ? `    <desc>${escapeXml(destination.address)}</desc>`
+        : null,
+      "  </wpt>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="HopOff" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+function toKml(destinations: Destination[]): string {
+  const placemarks = destinations.map((destination) =>
+    [
+      "    <Placemark>",
+      `      <name>${escapeXml(destination.name)}</name>`,
+      destination.address
+        ? `      <address>${escapeXml(destination.address)}</address>`
+        : null,
+      `      <TimeStamp><when>${escapeXml(destination.createdAt)}</when></TimeStamp>`,
+      `      <Point><coordinates>${destination.coordinate.longitude},${destination.coordinate.latitude}</coordinates></Point>`,
+      "    </Placemark>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    "    <name>HopOff Destinations</name>",
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+const toPosition = (coordinate: Coordinate) => [
+  coordinate.longitude,
+  coordinate.latitude,
+];
+
+function toGeometry(destination: Destination) {
+  const { area } = destination;
+  if (area?.kind === "polygon") {
+    // GeoJSON rings repeat their first position at the end
+    return {
+      type: "Polygon",
+      coordinates: [[...area.points, area.points[0]].map(toPosition)],
+    };
+  }
+  if (area?.kind === "corridor") {
+    return { type: "LineString", coordinates: area.points.map(toPosition) };
+  }
+  return { type: "Point", coordinates: toPosition(destination.coordinate) };
+}
+
+function toGeoJson(destinations: Destination[]): string {
+  return JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: destinations.map((destination) => ({
+        type: "Feature",
+        geometry: toGeometry(destination),
+        properties: {
+          name: destination.name,
+          address: destination.address ?? null,
+          createdAt: destination.createdAt,
+          category: destination.category ?? null,
+          tags: destination.tags ?? [],
+          pinned: Boolean(destination.pinned),
+          ...(destination.area?.kind === "corridor"
+            ? { corridorWidth: destination.area.width }
+            : {}),
+        },
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Write destinations to a file. GPX and KML keep the destination's point
+ * only; GeoJSON also keeps polygon and corridor areas, categories, tags and
+ * favourites.
+ * @param destinations Destinations to write
+ * @param format File format
+ * @returns File contents
+ */
+export function serializeDestinations(
+  destinations: Destination[],
+  format: DestinationFileFormat,
+): string {
+  switch (format) {
+    case "gpx":
+      return toGpx(destinations);
+    case "kml":
+      return toKml(destinations);
+    case "geojson":
+      return toGeoJson(destinations);
+  }
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+
+function fromGpx(content: string): ParsedDestination[] {
+  return getBlocks(content, "wpt").map(({ attributes, body }) => ({
+    name: getTagText(body, "name") ?? FALLBACK_NAME,
+    coordinate: {
+      latitude: Number(getAttribute(attributes, "lat")),
+      longitude: Number(getAttribute(attributes, "lon")),
+    },
+    address: getTagText(body, "desc") ?? getTagText(body, "cmt"),
+    createdAt: getTagText(body, "time"),
+  }));
+}
+
+function fromKml(content: string): ParsedDestination[] {
+  return getBlocks(content, "Placemark").map(({ body }) => {
+    // Only points are read; "lon,lat[,alt]"
+    const point = getBlocks(body, "Point")[0];
+    const [longitude, latitude] = (
+      (point && getTagText(point.body, "coordinates")) ??
+      ""
+    )
+      .split(",")
+      .map(Number);
+
+    return {
+      name: getTagText(body, "name") ?? FALLBACK_NAME,
+      coordinate: { latitude, longitude },
+      address: getTagText(body, "address") ?? getTagText(body, "description"),
+      createdAt: getTagText(body, "when"),
+    };
+  });
+}
+
+const fromPosition = (position: unknown): Coordinate => {
+  const [longitude, latitude] = Array.isArray(position) ? position : [];
+  return { latitude: Number(latitude), longitude: Number(longitude) };
+};
+
+function fromGeoJson(content: string): ParsedDestination[] {
+  const json = JSON.parse(content);
+  const features: any[] =
+    json?.type === "FeatureCollection" && Array.isArray(json.features)
+      ? json.features
+      : json?.type === "Feature"
+        ? [json]
+        : [];
+
+  return features.map((feature) => {
+    const properties = feature?.properties ?? {};
+    const geometry = feature?.geometry ?? {};
+    let area: DestinationArea | undefined;
+    let coordinate: Coordinate;
+
+    if (geometry.type === "Polygon" && Array.isArray(geometry.coordinates)) {
+      // Outer ring only, without the repeated closing position
+      const ring: Coordinate[] = (geometry.coordinates[0] ?? []).map(
+        fromPosition,
+      );
+      area = { kind: "polygon", points: ring.slice(0, -1) };
+      coordinate = getAreaCenter(area.points);
+    } else if (
+      geometry.type === "LineString" &&
+      Array.isArray(geometry.coordinates)
+    ) {
+      area = {
+        kind: "corridor",
+        points: geometry.coordinates.map(fromPosition),
+        width:
+          Number(properties.corridorWidth) ||
+          VALIDATION_CONSTANTS.DEFAULT_CORRIDOR_WIDTH,
+      };
+      coordinate = getAreaCenter(area.points);
+    } else {
+      coordinate = fromPosition(
+        geometry.type === "Point" ? geometry.coordinates : null,
+      );
+    }
+
+    return {
+      name:
+        typeof properties.name === "string" && properties.name
+          ? properties.name
+          : FALLBACK_NAME,
+      coordinate,
+      address:
+        typeof properties.address === "string" ? properties.address : undefined,
+      area,
+      category:
+        typeof properties.category === "string" && properties.category
+          ? properties.category
+          : undefined,
+      tags: Array.isArray(properties.tags)
+        ? properties.tags.filter((tag: unknown) => typeof tag === "string")
+        : undefined,
+      pinned: properties.pinned === true || undefined,
+      createdAt:
+        typeof properties.createdAt === "string"
+          ? properties.createdAt
+          : undefined,
+    };
+  });
+}
+
+/**
+ * Read destinations from a file. Entries are returned as found; callers
+ * validate them before saving.
+ * @param content File contents
+ * @param format File format
+ * @returns Destinations in the file, in file order
+ * @throws Error if the file can't be read as the given format
+ */
+export function parseDestinations(
+  content: string,
+  format: DestinationFileFormat,
+): ParsedDestination[] {
+  try {
+    switch (format) {
+      case "gpx":
+        return fromGpx(content);
+      case "kml":
+        return fromKml(content);
+      case "geojson":
+        return fromGeoJson(content);
+    }
+  } catch (error) {
+    throw new Error(
+      `Not a valid ${DESTINATION_FILE_FORMATS[format].label} file: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
@@ -1,8 +1,16 @@
 // Utility functions for HopOff app
 import {
+  Alarm,
+  AlarmSchedule,
   AlarmSettings,
   Coordinate,
   Destination,
+  DestinationArea,
+  PRESET_DESTINATION_CATEGORIES,
+  ScheduleWindow,
+  TransitAlarmConfig,
+  Trip,
+  TripDestinationStats,
   UserSettings,
   VALIDATION_CONSTANTS,
   ValidationResult,
@@ -45,6 +53,22 @@ export function generateId(prefix?: string): string {
   return prefix ? `${prefix}_${id}` : id;
 }
 
+/**
+ * Format a duration in seconds as a short ETA ("45 sec", "12 min", "1 hr 5 min")
+ * @param seconds Duration in seconds
+ * @returns Formatted duration string
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} sec`;
+
+  const totalMinutes = Math.round(seconds / 60);
+  if (totalMinutes < 60) return `${totalMinutes} min`;
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes > 0 ? `${hours} hr ${minutes} min` : `${hours} hr`;
+}
+
 /**
  * Format distance for display
  * @param distance Distance in meters
@@ -137,6 +161,40 @@ export function validateDestination(
     }
   }
 
+  if (destination.area) {
+    errors.push(...validateDestinationArea(destination.area).errors);
+  }
+
+  if (destination.alarmSettings) {
+    errors.push(...validateAlarmSettings(destination.alarmSettings).errors);
+  }
+
+  if (
+    destination.category &&
+    destination.category.length > VALIDATION_CONSTANTS.MAX_CATEGORY_LENGTH
+  ) {
+    errors.push(
+      `Category cannot exceed ${VALIDATION_CONSTANTS.MAX_CATEGORY_LENGTH} characters`,
+    );
+  }
+
+  if (destination.tags) {
+    if (destination.tags.length > VALIDATION_CONSTANTS.MAX_TAGS) {
+      errors.push(
+        `A destination cannot have more than ${VALIDATION_CONSTANTS.MAX_TAGS} tags`,
+      );
+    }
+    if (
+      destination.tags.some(
+        (tag) => tag.length > VALIDATION_CONSTANTS.MAX_TAG_LENGTH,
+      )
+    ) {
+      errors.push(
+        `Tags cannot exceed ${VALIDATION_CONSTANTS.MAX_TAG_LENGTH} characters`,
+      );
+    }
+  }
+
   // Validate optional fields
   if (
     destination.address &&
@@ -197,6 +255,132 @@ export function validateAlarmSettings(
     errors.push("Persistent notification must be a boolean value");
   }
 
+  // Validate ETA trigger
+  if (
+    settings.triggerMode !== undefined &&
+    !["radius", "eta"].includes(settings.triggerMode)
+  ) {
+    errors.push("Trigger mode must be radius or eta");
+  }
+
+  if (settings.triggerMode === "eta" || settings.etaMinutes !== undefined) {
+    errors.push(...validateEtaMinutes(settings.etaMinutes));
+  }
+
+  if (
+    settings.escalationProfile !== undefined &&
+    !["gentle", "standard", "urgent"].includes(settings.escalationProfile)
+  ) {
+    errors.push("Alarm escalation must be gentle, standard or urgent");
+  }
+
+  // Validate re-notification after firing
+  if (settings.repeatCount !== undefined) {
+    errors.push(...validateRepeatCount(settings.repeatCount));
+  }
+
+  if (settings.repeatIntervalSeconds !== undefined) {
+    errors.push(...validateRepeatInterval(settings.repeatIntervalSeconds));
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validate minutes-before-arrival for ETA alarms
+ * @param etaMinutes Minutes before arrival
+ * @returns List of validation errors (empty if valid)
+ */
+function validateEtaMinutes(etaMinutes: unknown): string[] {
+  if (typeof etaMinutes !== "number" || isNaN(etaMinutes)) {
+    return ["Minutes before arrival must be a valid number"];
+  }
+  if (
+    etaMinutes < VALIDATION_CONSTANTS.MIN_ETA_MINUTES ||
+    etaMinutes > VALIDATION_CONSTANTS.MAX_ETA_MINUTES
+  ) {
+    return [
+      `Minutes before arrival must be between ${VALIDATION_CONSTANTS.MIN_ETA_MINUTES} and ${VALIDATION_CONSTANTS.MAX_ETA_MINUTES}`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validate how many times a fired alarm re-notifies
+ * @param repeatCount Number of re-notifications
+ * @returns List of validation errors (empty if valid)
+ */
+function validateRepeatCount(repeatCount: unknown): string[] {
+  if (typeof repeatCount !== "number" || !Number.isInteger(repeatCount)) {
+    return ["Repeat count must be a whole number"];
+  }
+  if (
+    repeatCount < VALIDATION_CONSTANTS.MIN_REPEAT_COUNT ||
+    repeatCount > VALIDATION_CONSTANTS.MAX_REPEAT_COUNT
+  ) {
+    return [
+      `Repeat count must be between ${VALIDATION_CONSTANTS.MIN_REPEAT_COUNT} and ${VALIDATION_CONSTANTS.MAX_REPEAT_COUNT}`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validate the gap between re-notifications of a fired alarm
+ * @param seconds Interval in seconds
+ * @returns List of validation errors (empty if valid)
+ */
+function validateRepeatInterval(seconds: unknown): string[] {
+  if (typeof seconds !== "number" || isNaN(seconds)) {
+    return ["Repeat interval must be a valid number"];
+  }
+  if (
+    seconds < VALIDATION_CONSTANTS.MIN_REPEAT_INTERVAL_SECONDS ||
+    seconds > VALIDATION_CONSTANTS.MAX_REPEAT_INTERVAL_SECONDS
+  ) {
+    return [
+      `Repeat interval must be between ${VALIDATION_CONSTANTS.MIN_REPEAT_INTERVAL_SECONDS} and ${VALIDATION_CONSTANTS.MAX_REPEAT_INTERVAL_SECONDS} seconds`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validate transit alarm configuration
+ * @param config TransitAlarmConfig to validate
+ * @returns ValidationResult with detailed error information
+ */
+export function validateTransitAlarmConfig(
+  config: Partial<TransitAlarmConfig>,
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!config.route || !Array.isArray(config.route.stations)) {
+    errors.push("Transit alarm requires a planned route");
+  } else if (config.route.stations.length < 2) {
+    errors.push("Route must contain at least two stations");
+  }
+
+  if (
+    typeof config.stopsBefore !== "number" ||
+    !Number.isInteger(config.stopsBefore)
+  ) {
+    errors.push("Stops before destination must be a whole number");
+  } else if (
+    config.stopsBefore < VALIDATION_CONSTANTS.MIN_STOPS_BEFORE ||
+    config.stopsBefore > VALIDATION_CONSTANTS.MAX_STOPS_BEFORE
+  ) {
+    errors.push(
+      `Stops before destination must be between ${VALIDATION_CONSTANTS.MIN_STOPS_BEFORE} and ${VALIDATION_CONSTANTS.MAX_STOPS_BEFORE}`,
+    );
+  } else if (config.route && config.stopsBefore >= config.route.stopCount) {
+    errors.push("Stops before destination must be fewer than the route length");
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -221,14 +405,11 @@ export function validateUserSettings(
     ) {
       errors.push("Default trigger radius must be a valid number");
     } else if (
-      !VALIDATION_CONSTANTS.VALID_TRIGGER_RADII.includes(
-        settings.defaultTriggerRadius as any,
-      )
+      settings.defaultTriggerRadius < VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS ||
+      settings.defaultTriggerRadius > VALIDATION_CONSTANTS.MAX_TRIGGER_RADIUS
     ) {
       errors.push(
-        `Default trigger radius must be one of: ${VALIDATION_CONSTANTS.VALID_TRIGGER_RADII.join(
-          ", ",
-        )}`,
+        `Default trigger radius must be between ${VALIDATION_CONSTANTS.MIN_TRIGGER_RADIUS} and ${VALIDATION_CONSTANTS.MAX_TRIGGER_RADIUS} meters`,
       );
     }
   }
@@ -250,6 +431,58 @@ export function validateUserSettings(
     errors.push("Battery optimization enabled must be a boolean value");
   }
 
+  // Validate default trigger mode
+  if (
+    settings.defaultTriggerMode !== undefined &&
+    !["radius", "eta"].includes(settings.defaultTriggerMode)
+  ) {
+    errors.push("Default trigger mode must be radius or eta");
+  }
+
+  if (settings.defaultEtaMinutes !== undefined) {
+    errors.push(...validateEtaMinutes(settings.defaultEtaMinutes));
+  }
+
+  if (settings.alarmRepeatCount !== undefined) {
+    errors.push(...validateRepeatCount(settings.alarmRepeatCount));
+  }
+
+  if (settings.alarmRepeatIntervalSeconds !== undefined) {
+    errors.push(...validateRepeatInterval(settings.alarmRepeatIntervalSeconds));
+  }
+
+  if (
+    settings.defaultEscalationProfile !== undefined &&
+    !["gentle", "standard", "urgent"].includes(
+      settings.defaultEscalationProfile,
+    )
+  ) {
+    errors.push("Default alarm escalation must be gentle, standard or urgent");
+  }
+
+  // Validate geocoder selection
+  if (
+    settings.geocoderProvider !== undefined &&
+    !["nominatim", "photon", "self-hosted"].includes(settings.geocoderProvider)
+  ) {
+    errors.push("Search provider must be Nominatim, Photon or self-hosted");
+  }
+
+  if (
+    settings.selfHostedGeocoderApi !== undefined &&
+    !["nominatim", "photon"].includes(settings.selfHostedGeocoderApi)
+  ) {
+    errors.push("Self-hosted server API must be Nominatim or Photon");
+  }
+
+  if (settings.geocoderProvider === "self-hosted") {
+    if (!settings.selfHostedGeocoderUrl?.trim()) {
+      errors.push("Self-hosted server URL is required");
+    } else if (!isValidHttpUrl(settings.selfHostedGeocoderUrl.trim())) {
+      errors.push("Self-hosted server URL must start with http:// or https://");
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -274,6 +507,83 @@ export function isWithinRadius(
   return distance <= radius;
 }
 
+// Below walking pace we can't make a meaningful arrival estimate
+const MIN_MOVING_SPEED = 0.5; // m/s
+
+/**
+ * Estimate time to cover a distance at the given speed
+ * @param distance Distance in meters
+ * @param speed Speed in meters per second, null if unknown
+ * @returns Seconds to arrival, or null when stationary or speed is unknown
+ */
+export function calculateEtaSeconds(
+  distance: number,
+  speed: number | null,
+): number | null {
+  if (speed === null || !isFinite(speed) || speed < MIN_MOVING_SPEED) {
+    return null;
+  }
+  return Math.max(0, distance) / speed;
+}
+
+/**
+ * Check whether an alarm should fire based on distance and, for ETA alarms,
+ * the estimated time to arrival
+ * @param settings Alarm settings
+ * @param distance Distance to the destination in meters
+ * @param speed Current speed in meters per second, null if unknown
+ * @returns True if the alarm should trigger
+ */
+export function shouldTriggerAlarm(
+  settings: AlarmSettings,
+  distance: number,
+  speed: number | null,
+): boolean {
+  // The radius is always a backstop, e.g. when GPS speed is unavailable
+  if (distance <= settings.triggerRadius) {
+    return true;
+  }
+
+  if (settings.triggerMode === "eta" && settings.etaMinutes !== undefined) {
+    const etaSeconds = calculateEtaSeconds(distance, speed);
+    return etaSeconds !== null && etaSeconds <= settings.etaMinutes * 60;
+  }
+
+  return false;
+}
+
+/**
+ * Build alarm settings for a new alarm from the user's defaults
+ * @param userSettings User settings to take defaults from
+ * @param overrides A saved destination's own settings, which win over the
+ * user's defaults
+ * @returns AlarmSettings for a new alarm
+ */
+export function createAlarmSettings(
+  userSettings: UserSettings,
+  overrides?: Partial<AlarmSettings>,
+): AlarmSettings {
+  const defined = Object.fromEntries(
+    Object.entries(overrides ?? {}).filter(([, value]) => value !== undefined),
+  ) as Partial<AlarmSettings>;
+  const triggerMode = defined.triggerMode ?? userSettings.defaultTriggerMode;
+
+  return {
+    triggerRadius: userSettings.defaultTriggerRadius,
+    vibrationEnabled: userSettings.vibrationEnabled,
+    persistentNotification: true,
+    repeatCount: userSettings.alarmRepeatCount,
+    repeatIntervalSeconds: userSettings.alarmRepeatIntervalSeconds,
+    escalationProfile: userSettings.defaultEscalationProfile,
+    ...defined,
+    triggerMode,
+    etaMinutes:
+      triggerMode === "eta"
+        ? (defined.etaMinutes ?? userSettings.defaultEtaMinutes)
+        : undefined,
+  };
+}
+
 // DATA CREATION AND SANITIZATION
 
 /**
@@ -286,9 +596,49 @@ export function createDefaultUserSettings(): UserSettings {
     vibrationEnabled: true,
     persistentNotificationEnabled: true,
     batteryOptimizationEnabled: true,
+    defaultTriggerMode: "radius",
+    defaultEtaMinutes: 5,
+    alarmRepeatCount: 3,
+    alarmRepeatIntervalSeconds: 60,
+    defaultEscalationProfile: "standard",
+    geocoderProvider: "nominatim",
+    selfHostedGeocoderUrl: "",
+    selfHostedGeocoderApi: "nominatim",
+  };
+}
+
+/**
+ * Pick only the persisted UserSettings fields from a larger object
+ * (e.g. the settings slice state, which also carries isLoading/error)
+ * @param source Object containing user settings
+ * @returns Plain UserSettings object
+ */
+export function extractUserSettings(source: UserSettings): UserSettings {
+  return {
+    defaultTriggerRadius: source.defaultTriggerRadius,
+    vibrationEnabled: source.vibrationEnabled,
+    persistentNotificationEnabled: source.persistentNotificationEnabled,
+    batteryOptimizationEnabled: source.batteryOptimizationEnabled,
+    defaultTriggerMode: source.defaultTriggerMode,
+    defaultEtaMinutes: source.defaultEtaMinutes,
+    alarmRepeatCount: source.alarmRepeatCount,
+    alarmRepeatIntervalSeconds: source.alarmRepeatIntervalSeconds,
+    defaultEscalationProfile: source.defaultEscalationProfile,
+    geocoderProvider: source.geocoderProvider,
+    selfHostedGeocoderUrl: source.selfHostedGeocoderUrl,
+    selfHostedGeocoderApi: source.selfHostedGeocoderApi,
   };
 }
 
+/**
+ * Check whether a string is an absolute http(s) URL
+ * @param value String to check
+ * @returns True if value looks like an http or https URL
+ */
+export function isValidHttpUrl(value: string): boolean {
+  return /^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(value);
+}
+
 /**
  * Sanitize destination name by trimming and limiting length
  * @param name Raw destination name
@@ -320,15 +670,21 @@ export function sanitizeAddress(address: string): string {
 }
 
 /**
- * Get the nearest valid trigger radius from available options
+ * Get the nearest valid trigger radius: clamped to the allowed range and
+ * rounded to the slider step
  * @param radius Desired radius
  * @returns Nearest valid trigger radius
  */
 export function getNearestValidTriggerRadius(radius: number): number {
-  const validRadii = VALIDATION_CONSTANTS.VALID_TRIGGER_RADII;
-  return validRadii.reduce((nearest, current) =>
-    Math.abs(current - radius) < Math.abs(nearest - radius) ? current : nearest,
-  );
+  const { MIN_TRIGGER_RADIUS, MAX_TRIGGER_RADIUS, TRIGGER_RADIUS_STEP } =
+    VALIDATION_CONSTANTS;
+  if (!Number.isFinite(radius)) {
+    return createDefaultUserSettings().defaultTriggerRadius;
+  }
+
+  const stepped =
+    Math.round(radius / TRIGGER_RADIUS_STEP) * TRIGGER_RADIUS_STEP;
+  return Math.min(Math.max(stepped, MIN_TRIGGER_RADIUS), MAX_TRIGGER_RADIUS);
 }
 
 // FORMATTING UTILITIES
@@ -347,3 +703,547 @@ export function formatCoordinate(
     precision,
   )}, ${coordinate.longitude.toFixed(precision)}`;
 }
+
+// TRIP HISTORY
+
+/**
+ * Create the trip log entry for a newly armed alarm
+ * @param alarm Alarm that was just armed
+ * @returns Active Trip
+ */
+export function createTripFromAlarm(alarm: Alarm): Trip {
+  return {
+    id: alarm.id,
+    destinationName: alarm.destination.name,
+    destinationAddress: alarm.destination.address,
+    coordinate: alarm.destination.coordinate,
+    alarmType: alarm.type ?? "radius",
+    settings: alarm.settings,
+    armedAt: alarm.createdAt,
+    firedAt: null,
+    endedAt: null,
+    distanceAtTrigger: null,
+    outcome: "active",
+  };
+}
+
+/**
+ * Group trips by destination and summarise them. Destinations picked on the
+ * map get a fresh id each time, so trips are grouped by name and a ~100 m
+ * grid cell instead.
+ * @param trips Trips to summarise
+ * @returns Stats per destination, most travelled first
+ */
+export function calculateTripStats(trips: Trip[]): TripDestinationStats[] {
+  const groups = new Map<
+    string,
+    TripDestinationStats & { durationTotal: number; durationCount: number }
+  >();
+
+  for (const trip of trips) {
+    const key = `${trip.destinationName.toLowerCase()}|${trip.coordinate.latitude.toFixed(3)}|${trip.coordinate.longitude.toFixed(3)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        destinationName: trip.destinationName,
+        tripCount: 0,
+        firedCount: 0,
+        cancelledCount: 0,
+        expiredCount: 0,
+        averageDurationMs: null,
+        lastTripAt: trip.armedAt,
+        durationTotal: 0,
+        durationCount: 0,
+      };
+      groups.set(key, group);
+    }
+
+    group.tripCount++;
+    if (trip.armedAt > group.lastTripAt) {
+      group.lastTripAt = trip.armedAt;
+    }
+
+    if (trip.outcome === "fired") {
+      group.firedCount++;
+      if (trip.firedAt) {
+        const duration =
+          new Date(trip.firedAt).getTime() - new Date(trip.armedAt).getTime();
+        if (duration >= 0) {
+          group.durationTotal += duration;
+          group.durationCount++;
+        }
+      }
+    } else if (trip.outcome === "cancelled") {
+      group.cancelledCount++;
+    } else if (trip.outcome === "expired") {
+      group.expiredCount++;
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ durationTotal, durationCount, ...stats }) => ({
+      ...stats,
+      averageDurationMs:
+        durationCount > 0 ? durationTotal / durationCount : null,
+    }))
+    .sort(
+      (a, b) =>
+        b.tripCount - a.tripCount || b.lastTripAt.localeCompare(a.lastTripAt),
+    );
+}
+
+// ALARM SCHEDULES
+
+// Schedules without an endTime can still arm this long after their start,
+// e.g. when the background task runs late or the app is opened after it
+export const SCHEDULE_ARM_GRACE_MS = 60 * 60 * 1000; // 1 hour
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse a local "HH:MM" time of day
+ * @param time Time string in 24-hour format
+ * @returns Minutes since midnight, or null if the string is invalid
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = TIME_OF_DAY_PATTERN.exec(time.trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Validate the user-editable parts of an alarm schedule
+ * @param schedule Schedule to validate
+ * @returns ValidationResult with detailed error information
+ */
+export function validateAlarmSchedule(
+  schedule: Pick<AlarmSchedule, "daysOfWeek" | "startTime" | "endTime">,
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(schedule.daysOfWeek) || schedule.daysOfWeek.length === 0) {
+    errors.push("Select at least one day");
+  } else if (
+    schedule.daysOfWeek.some(
+      (day) => !Number.isInteger(day) || day < 0 || day > 6,
+    )
+  ) {
+    errors.push("Days must be between 0 (Sunday) and 6 (Saturday)");
+  }
+
+  const start = parseTimeOfDay(schedule.startTime ?? "");
+  if (start === null) {
+    errors.push("Start time must be in HH:MM format");
+  }
+
+  if (schedule.endTime !== undefined) {
+    const end = parseTimeOfDay(schedule.endTime);
+    if (end === null) {
+      errors.push("End time must be in HH:MM format");
+    } else if (end === start) {
+      errors.push("End time must differ from start time");
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+// Local date at the given minutes past midnight, dayOffset days from `now`
+function atTimeOfDay(now: Date, dayOffset: number, minutes: number): Date {
+  return new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + dayOffset,
+    Math.floor(minutes / 60),
+    minutes % 60,
+  );
+}
+
+/**
+ * Find the schedule window that is open at the given time
+ * @param schedule Schedule to check
+ * @param now Current time
+ * @returns The open window, or null if the schedule is not due
+ */
+export function getActiveScheduleWindow(
+  schedule: AlarmSchedule,
+  now: Date = new Date(),
+): ScheduleWindow | null {
+  const startMinutes = parseTimeOfDay(schedule.startTime);
+  if (startMinutes === null) return null;
+  const endMinutes =
+    schedule.endTime !== undefined ? parseTimeOfDay(schedule.endTime) : null;
+
+  // Yesterday's window may still be open if it spans midnight
+  for (const dayOffset of [0, -1]) {
+    const start = atTimeOfDay(now, dayOffset, startMinutes);
+    if (!schedule.daysOfWeek.includes(start.getDay())) continue;
+
+    let end: Date | null = null;
+    if (endMinutes !== null) {
+      end = atTimeOfDay(
+        now,
+        endMinutes > startMinutes ? dayOffset : dayOffset + 1,
+        endMinutes,
+      );
+    }
+
+    const armUntil = end ?? new Date(start.getTime() + SCHEDULE_ARM_GRACE_MS);
+    if (now >= start && now < armUntil) {
+      return { start, end };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find when a schedule next opens
+ * @param schedule Schedule to check
+ * @param now Current time
+ * @returns Start of the next window, or null if the schedule has no days
+ */
+export function getNextScheduleStart(
+  schedule: AlarmSchedule,
+  now: Date = new Date(),
+): Date | null {
+  const startMinutes = parseTimeOfDay(schedule.startTime);
+  if (startMinutes === null) return null;
+
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const start = atTimeOfDay(now, dayOffset, startMinutes);
+    if (start > now && schedule.daysOfWeek.includes(start.getDay())) {
+      return start;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format schedule days for display ("Every day", "Weekdays", "Mon, Wed")
+ * @param daysOfWeek Days with 0 = Sunday
+ * @returns Formatted day list
+ */
+export function formatScheduleDays(daysOfWeek: number[]): string {
+  const days = [...new Set(daysOfWeek)].sort((a, b) => a - b);
+  if (days.length === 7) return "Every day";
+  if (
+    days.length === WEEKDAYS.length &&
+    WEEKDAYS.every((day) => days.includes(day))
+  ) {
+    return "Weekdays";
+  }
+  if (days.length === 2 && days[0] === 0 && days[1] === 6) return "Weekends";
+  return days.map((day) => DAY_LABELS[day]).join(", ");
+}
+
+// DESTINATION AREAS
+
+const EARTH_RADIUS = 6371e3; // meters
+
+/**
+ * Project a coordinate to meters on a flat plane centred on origin. Accurate
+ * enough for areas a few kilometres across.
+ */
+function projectToPlane(
+  coordinate: Coordinate,
+  origin: Coordinate,
+): { x: number; y: number } {
+  const metersPerDegree = (EARTH_RADIUS * Math.PI) / 180;
+  return {
+    x:
+      (coordinate.longitude - origin.longitude) *
+      metersPerDegree *
+      Math.cos((origin.latitude * Math.PI) / 180),
+    y: (coordinate.latitude - origin.latitude) * metersPerDegree,
+  };
+}
+
+/**
+ * Check if a coordinate is inside a polygon (ray casting)
+ * @param point Point to check
+ * @param polygon Polygon vertices, in order; the ring closes itself
+ * @returns True if point is inside the polygon
+ */
+export function isPointInPolygon(
+  point: Coordinate,
+  polygon: Coordinate[],
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Shortest distance from a coordinate to a polyline
+ * @param point Point to measure from
+ * @param line Polyline vertices, at least one
+ * @returns Distance in meters
+ */
+export function distanceToPolyline(
+  point: Coordinate,
+  line: Coordinate[],
+): number {
+  if (line.length === 1) return calculateDistance(point, line[0]);
+
+  let shortest = Infinity;
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = projectToPlane(line[i], point);
+    const b = projectToPlane(line[i + 1], point);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    // Position of the closest point along the segment, clamped to its ends
+    const t =
+      lengthSquared === 0
+        ? 0
+        : Math.min(Math.max(-(a.x * dx + a.y * dy) / lengthSquared, 0), 1);
+    shortest = Math.min(shortest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return shortest;
+}
+
+/**
+ * Distance from a coordinate to the edge of a destination area
+ * @param point Point to measure from
+ * @param area Polygon or corridor
+ * @returns Distance in meters, 0 when inside the area
+ */
+export function getDistanceToArea(
+  point: Coordinate,
+  area: DestinationArea,
+): number {
+  if (area.kind === "polygon") {
+    if (isPointInPolygon(point, area.points)) return 0;
+    return distanceToPolyline(point, [...area.points, area.points[0]]);
+  }
+  return Math.max(0, distanceToPolyline(point, area.points) - area.width / 2);
+}
+
+/**
+ * Distance from a coordinate to a destination: to the edge of its area, or
+ * to its point
+ * @param point Point to measure from
+ * @param destination Destination to measure to
+ * @returns Distance in meters, 0 inside an area destination
+ */
+export function getDistanceToDestination(
+  point: Coordinate,
+  destination: Pick<Destination, "coordinate" | "area">,
+): number {
+  return destination.area
+    ? getDistanceToArea(point, destination.area)
+    : calculateDistance(point, destination.coordinate);
+}
+
+/**
+ * Radius an alarm fires within, measured from getDistanceToDestination.
+ * Area destinations fire on entering the area itself.
+ * @param alarm Alarm to check
+ * @returns Trigger radius in meters
+ */
+export function getEffectiveTriggerRadius(
+  alarm: Pick<Alarm, "destination" | "settings">,
+): number {
+  return alarm.destination.area ? 0 : alarm.settings.triggerRadius;
+}
+
+/**
+ * Centre point for an area, used where a single coordinate is needed
+ * (lists, map framing, reverse geocoding)
+ * @param points Area vertices
+ * @returns Average of the vertices
+ */
+export function getAreaCenter(points: Coordinate[]): Coordinate {
+  const sum = points.reduce(
+    (acc, p) => ({
+      latitude: acc.latitude + p.latitude,
+      longitude: acc.longitude + p.longitude,
+    }),
+    { latitude: 0, longitude: 0 },
+  );
+  return {
+    latitude: sum.latitude / points.length,
+    longitude: sum.longitude / points.length,
+  };
+}
+
+/**
+ * Validate a polygon or corridor destination area
+ * @param area Area to validate
+ * @returns ValidationResult with any errors found
+ */
+export function validateDestinationArea(
+  area: DestinationArea,
+): ValidationResult {
+  const errors: string[] = [];
+  const minPoints =
+    area.kind === "polygon"
+      ? VALIDATION_CONSTANTS.MIN_POLYGON_POINTS
+      : VALIDATION_CONSTANTS.MIN_CORRIDOR_POINTS;
+
+  if (!Array.isArray(area.points) || area.points.length < minPoints) {
+    errors.push(
+      `${area.kind === "polygon" ? "An area" : "A route"} needs at least ${minPoints} points`,
+    );
+  } else if (area.points.length > VALIDATION_CONSTANTS.MAX_AREA_POINTS) {
+    errors.push(
+      `Areas cannot have more than ${VALIDATION_CONSTANTS.MAX_AREA_POINTS} points`,
+    );
+  } else if (area.points.some((point) => !isValidCoordinate(point))) {
+    errors.push("Area contains an invalid coordinate");
+  }
+
+  if (
+    area.kind === "corridor" &&
+    (typeof area.width !== "number" ||
+      area.width < VALIDATION_CONSTANTS.MIN_CORRIDOR_WIDTH ||
+      area.width > VALIDATION_CONSTANTS.MAX_CORRIDOR_WIDTH)
+  ) {
+    errors.push(
+      `Corridor width must be between ${VALIDATION_CONSTANTS.MIN_CORRIDOR_WIDTH} and ${VALIDATION_CONSTANTS.MAX_CORRIDOR_WIDTH} meters`,
+    );
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+// DESTINATION ORGANISATION
+
+/**
+ * Split free-form tag input on commas, dropping blanks, leading "#" and
+ * case-insensitive repeats
+ * @param input Raw tag text, e.g. "gym, #late night"
+ * @returns Cleaned tags, at most MAX_TAGS
+ */
+export function parseTagInput(input: string): string[] {
+  const seen = new Set<string>();
+  return input
+    .split(",")
+    .map((tag) =>
+      tag
+        .trim()
+        .replace(/^#+/, "")
+        .substring(0, VALIDATION_CONSTANTS.MAX_TAG_LENGTH)
+        .trim(),
+    )
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, VALIDATION_CONSTANTS.MAX_TAGS);
+}
+
+/**
+ * Sort destinations for display: favourites first, then by the user's
+ * custom order, then newest first
+ * @param destinations Destinations to sort
+ * @returns A sorted copy
+ */
+export function sortDestinations(destinations: Destination[]): Destination[] {
+  return [...destinations].sort((a, b) => {
+    if (Boolean(a.pinned) !== Boolean(b.pinned)) return a.pinned ? -1 : 1;
+
+    const orderA = a.sortOrder ?? Number.POSITIVE_INFINITY;
+    const orderB = b.sortOrder ?? Number.POSITIVE_INFINITY;
+    if (orderA !== orderB) return orderA - orderB;
+
+    return b.createdAt.localeCompare(a.createdAt);
+  });
+}
+
+/**
+ * List the categories to offer: the presets, then any custom ones in use
+ * @param destinations Saved destinations
+ * @returns Category names, without case-insensitive repeats
+ */
+export function getDestinationCategories(
+  destinations: Destination[],
+): string[] {
+  const categories = [...PRESET_DESTINATION_CATEGORIES];
+  for (const { category } of destinations) {
+    if (
+      category &&
+      !categories.some((c) => c.toLowerCase() === category.toLowerCase())
+    ) {
+      categories.push(category);
+    }
+  }
+  return categories;
+}
+
+/**
+ * Check whether a destination matches every word of a search query, looking
+ * at its name, address, category and tags
+ * @param destination Destination to check
+ * @param query Search text
+ * @returns True if every word appears somewhere
+ */
+export function matchesDestinationQuery(
+  destination: Destination,
+  query: string,
+): boolean {
+  const haystack = [
+    destination.name,
+    destination.address,
+    destination.category,
+    ...(destination.tags ?? []),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
+
+/**
+ * Find the saved destination nearest a coordinate, if one is within
+ * SAVED_DESTINATION_MATCH_DISTANCE. Lets a search result or map tap on a
+ * saved place pick up that place's alarm settings.
+ * @param destinations Saved destinations
+ * @param coordinate Coordinate to match
+ * @returns The nearest saved destination in range, or undefined
+ */
+export function findSavedDestination(
+  destinations: Destination[],
+  coordinate: Coordinate,
+): Destination | undefined {
+  if (!isValidCoordinate(coordinate)) return undefined;
+
+  let nearest: Destination | undefined;
+  let nearestDistance: number =
+    VALIDATION_CONSTANTS.SAVED_DESTINATION_MATCH_DISTANCE;
+  for (const destination of destinations) {
+    const distance = calculateDistance(coordinate, destination.coordinate);
+    if (distance <= nearestDistance) {
+      nearest = destination;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}